@@ -0,0 +1,56 @@
+import { HttpApi } from "@effect/platform";
+import {
+  BusinessError,
+  ConflictError,
+  DatabaseError,
+  ForbiddenError,
+  NotFoundError,
+  PayloadTooLargeError,
+  RateLimitError,
+  UnauthorizedError,
+  ValidationError,
+} from "../errors";
+import { AuditApi } from "./audit-api";
+import { AuthApi } from "./auth-api";
+import { AuthorsApi } from "./authors-api";
+import { BooksApi } from "./books-api";
+import { CatalogApi } from "./catalog-api";
+import { HealthApi } from "./health-api";
+import { OrdersApi } from "./orders-api";
+import { PromotionsApi } from "./promotions-api";
+import { SearchApi } from "./search-api";
+import { SiteApi } from "./site-api";
+import { TrashApi } from "./trash-api";
+
+const ResourcesApi = HttpApi.make("resources")
+  .add(BooksApi)
+  .add(AuthorsApi)
+  .add(OrdersApi)
+  .add(PromotionsApi)
+  .add(AuthApi)
+  .add(AuditApi)
+  .add(TrashApi)
+  .add(CatalogApi)
+  .add(SearchApi)
+  .prefix("/api");
+
+/**
+ * Every endpoint the server answers, with what each takes and returns. The
+ * handlers in src/http implement it; requests that do not match an
+ * endpoint's path, query, headers or body fail validation before reaching
+ * them. Any endpoint can fail with any AppError, sent as a problem response
+ * with the status the error is annotated with.
+ */
+export const BookstoreApi = HttpApi.make("bookstore")
+  .addHttpApi(ResourcesApi)
+  .add(HealthApi)
+  .add(SiteApi)
+  .addError(NotFoundError)
+  .addError(ValidationError)
+  .addError(DatabaseError)
+  .addError(BusinessError)
+  .addError(ConflictError)
+  .addError(UnauthorizedError)
+  .addError(ForbiddenError)
+  .addError(RateLimitError)
+  .addError(PayloadTooLargeError);
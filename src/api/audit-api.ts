@@ -0,0 +1,14 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import { AuditEntry, AuditFilter, AuditListQuery } from "../models/audit";
+import { PageOf } from "../models/query";
+import { Authentication } from "./authentication";
+import { reportAllIssues } from "./common";
+
+export const AuditApi = HttpApiGroup.make("audit")
+  .add(
+    HttpApiEndpoint.get("listEntries", "/audit")
+      .setUrlParams(reportAllIssues(AuditListQuery.pipe(Schema.extend(AuditFilter))))
+      .addSuccess(PageOf(Schema.partial(AuditEntry))),
+  )
+  .middleware(Authentication);
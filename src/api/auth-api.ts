@@ -0,0 +1,52 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import {
+  AccessToken,
+  ApiKey,
+  ApiKeyId,
+  Caller,
+  CreateApiKeyRequest,
+  IssuedApiKey,
+  LoginRequest,
+} from "../models/auth";
+import { Authentication } from "./authentication";
+import { reportAllIssues } from "./common";
+
+const ApiKeyPath = Schema.Struct({ id: ApiKeyId });
+
+export const AuthApi = HttpApiGroup.make("auth")
+  .add(
+    // Exchanges an API key for a short-lived bearer token
+    HttpApiEndpoint.post("login", "/auth/login")
+      .setPayload(reportAllIssues(LoginRequest))
+      .addSuccess(AccessToken),
+  )
+  .add(
+    HttpApiEndpoint.get("me", "/auth/me")
+      .addSuccess(Caller)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.get("listApiKeys", "/auth/keys")
+      .addSuccess(Schema.Array(ApiKey))
+      .middleware(Authentication),
+  )
+  .add(
+    // The response is the only time the new key is shown
+    HttpApiEndpoint.post("createApiKey", "/auth/keys")
+      .setPayload(reportAllIssues(CreateApiKeyRequest))
+      .addSuccess(IssuedApiKey, { status: 201 })
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.post("rotateApiKey", "/auth/keys/:id/rotate")
+      .setPath(ApiKeyPath)
+      .addSuccess(IssuedApiKey, { status: 201 })
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.del("revokeApiKey", "/auth/keys/:id")
+      .setPath(ApiKeyPath)
+      .addSuccess(ApiKey)
+      .middleware(Authentication),
+  );
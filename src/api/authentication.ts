@@ -0,0 +1,18 @@
+import { HttpApiMiddleware } from "@effect/platform";
+import { Schema } from "effect";
+import { CurrentUser } from "../auth/current-user";
+import { DatabaseError, UnauthorizedError } from "../errors";
+
+/**
+ * Requires credentials, a bearer token in Authorization or an API key in
+ * X-API-Key, and provides the caller they identify as CurrentUser to the
+ * endpoints it is added to.
+ */
+export class Authentication extends HttpApiMiddleware.Tag<Authentication>()(
+  "Authentication",
+  {
+    // Looking up the API key can fail like any other query
+    failure: Schema.Union(UnauthorizedError, DatabaseError),
+    provides: CurrentUser,
+  },
+) {}
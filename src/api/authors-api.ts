@@ -0,0 +1,80 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import {
+  Author,
+  AuthorId,
+  AuthorInclude,
+  AuthorListQuery,
+  CreateAuthorRequest,
+  DeleteAuthorQuery,
+  UpdateAuthorRequest,
+} from "../models/author";
+import { AuthorWithBooks } from "../models/population";
+import { PageOf } from "../models/query";
+import { Authentication } from "./authentication";
+import { IfMatch, Message, reportAllIssues } from "./common";
+
+const AuthorPath = Schema.Struct({ id: AuthorId });
+
+const PopulatedAuthor = Schema.Union(AuthorWithBooks, Author);
+
+export const AuthorsApi = HttpApiGroup.make("authors")
+  .add(
+    HttpApiEndpoint.get("listAuthors", "/authors")
+      .setUrlParams(reportAllIssues(AuthorListQuery.pipe(Schema.extend(AuthorInclude))))
+      // ?fields= leaves out the fields not asked for
+      .addSuccess(PageOf(Schema.partial(AuthorWithBooks))),
+  )
+  .add(
+    HttpApiEndpoint.get("getAuthor", "/authors/:id")
+      .setPath(AuthorPath)
+      .setUrlParams(reportAllIssues(AuthorInclude))
+      .addSuccess(PopulatedAuthor),
+  )
+  .add(
+    HttpApiEndpoint.post("createAuthor", "/authors")
+      .setPayload(reportAllIssues(CreateAuthorRequest))
+      .addSuccess(Author, { status: 201 })
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.put("updateAuthor", "/authors/:id")
+      .setPath(AuthorPath)
+      .setHeaders(IfMatch)
+      .setPayload(reportAllIssues(UpdateAuthorRequest))
+      .addSuccess(Author)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.del("deleteAuthor", "/authors/:id")
+      .setPath(AuthorPath)
+      .setHeaders(IfMatch)
+      .setUrlParams(reportAllIssues(DeleteAuthorQuery))
+      .addSuccess(Message)
+      .middleware(Authentication),
+  )
+  .add(
+    // Rewrites every book reference from :id to :targetId, then deletes :id
+    HttpApiEndpoint.post("mergeAuthor", "/authors/:id/merge-into/:targetId")
+      .setPath(Schema.Struct({ id: AuthorId, targetId: AuthorId }))
+      .addSuccess(Author)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.get("searchAuthors", "/authors/search/:query")
+      .setPath(Schema.Struct({ query: Schema.String }))
+      .setUrlParams(reportAllIssues(AuthorInclude))
+      .addSuccess(Schema.Array(PopulatedAuthor)),
+  )
+  .add(
+    HttpApiEndpoint.get("getAuthorsByNationality", "/authors/nationality/:nationality")
+      .setPath(Schema.Struct({ nationality: Schema.String }))
+      .setUrlParams(reportAllIssues(AuthorInclude))
+      .addSuccess(Schema.Array(PopulatedAuthor)),
+  )
+  .add(
+    HttpApiEndpoint.get("getAuthorsByName", "/authors/name/:name")
+      .setPath(Schema.Struct({ name: Schema.String }))
+      .setUrlParams(reportAllIssues(AuthorInclude))
+      .addSuccess(Schema.Array(PopulatedAuthor)),
+  );
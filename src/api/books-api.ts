@@ -0,0 +1,126 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import {
+  Book,
+  BookFilter,
+  BookId,
+  BookInclude,
+  BookListQuery,
+  CreateBookRequest,
+  UpdateBookRequest,
+} from "../models/book";
+import {
+  StockMovement,
+  StockReconciliation,
+  UpdateStockRequest,
+} from "../models/inventory";
+import { CurrencyQuery } from "../models/money";
+import { BookWithAuthors } from "../models/population";
+import { PriceBreakdown, PriceQuery } from "../models/promotion";
+import { PageOf } from "../models/query";
+import { HistoryQuery } from "../models/audit";
+import { Authentication } from "./authentication";
+import { IfMatch, Message, reportAllIssues } from "./common";
+
+const BookPath = Schema.Struct({ id: BookId });
+
+// Wherever books are returned, ?include=authors embeds their authors and ?currency= converts their prices
+const BookView = BookInclude.pipe(Schema.extend(CurrencyQuery));
+
+const PopulatedBook = Schema.Union(BookWithAuthors, Book);
+
+const BookListParams = BookListQuery.pipe(
+  Schema.extend(BookFilter),
+  Schema.extend(BookView),
+);
+
+export const BooksApi = HttpApiGroup.make("books")
+  .add(
+    HttpApiEndpoint.get("listBooks", "/books")
+      .setUrlParams(reportAllIssues(BookListParams))
+      // ?fields= leaves out the fields not asked for
+      .addSuccess(PageOf(Schema.partial(BookWithAuthors))),
+  )
+  .add(
+    HttpApiEndpoint.get("getBook", "/books/:id")
+      .setPath(BookPath)
+      .setUrlParams(reportAllIssues(BookView))
+      .addSuccess(PopulatedBook),
+  )
+  .add(
+    HttpApiEndpoint.post("createBook", "/books")
+      .setPayload(reportAllIssues(CreateBookRequest))
+      .addSuccess(Book, { status: 201 })
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.put("updateBook", "/books/:id")
+      .setPath(BookPath)
+      .setHeaders(IfMatch)
+      .setPayload(reportAllIssues(UpdateBookRequest))
+      .addSuccess(Book)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.del("deleteBook", "/books/:id")
+      .setPath(BookPath)
+      .setHeaders(IfMatch)
+      .addSuccess(Message)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.get("searchBooks", "/books/search/:query")
+      .setPath(Schema.Struct({ query: Schema.String }))
+      .setUrlParams(reportAllIssues(BookView))
+      .addSuccess(Schema.Array(PopulatedBook)),
+  )
+  .add(
+    HttpApiEndpoint.get("getBooksByGenre", "/books/genre/:genre")
+      .setPath(Schema.Struct({ genre: Schema.String }))
+      .setUrlParams(reportAllIssues(BookView))
+      .addSuccess(Schema.Array(PopulatedBook)),
+  )
+  .add(
+    HttpApiEndpoint.get("getBooksByAuthor", "/books/author/:author")
+      .setPath(Schema.Struct({ author: Schema.String }))
+      .setUrlParams(reportAllIssues(BookView))
+      .addSuccess(Schema.Array(PopulatedBook)),
+  )
+  .add(
+    HttpApiEndpoint.patch("updateStock", "/books/:id/stock")
+      .setPath(BookPath)
+      .setPayload(reportAllIssues(UpdateStockRequest))
+      .addSuccess(Book)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.get("getStockHistory", "/books/:id/stock/history")
+      .setPath(BookPath)
+      .addSuccess(Schema.Array(StockMovement)),
+  )
+  .add(
+    // The book as it was at ?at=, rebuilt from the audit log
+    HttpApiEndpoint.get("getBookAt", "/books/:id/history")
+      .setPath(BookPath)
+      .setUrlParams(reportAllIssues(HistoryQuery))
+      .addSuccess(Book)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.get("reconcileStock", "/books/:id/stock/reconciliation")
+      .setPath(BookPath)
+      .addSuccess(StockReconciliation),
+  )
+  .add(
+    // The book's list price, the promotions that apply to it now and its final price
+    HttpApiEndpoint.get("getBookPrice", "/books/:id/price")
+      .setPath(BookPath)
+      .setUrlParams(reportAllIssues(PriceQuery))
+      .addSuccess(PriceBreakdown),
+  )
+  .add(
+    // Books whose stock no longer matches their ledger
+    HttpApiEndpoint.get("getStockDrift", "/inventory/reconciliation").addSuccess(
+      Schema.Array(StockReconciliation),
+    ),
+  );
@@ -0,0 +1,22 @@
+import { HttpApiEndpoint, HttpApiGroup, HttpApiSchema } from "@effect/platform";
+import { Schema } from "effect";
+import { ExportQuery, ImportQuery, ImportReport } from "../models/catalog";
+import { Authentication } from "./authentication";
+import { reportAllIssues } from "./common";
+
+export const CatalogApi = HttpApiGroup.make("catalog")
+  .add(
+    // The file is the raw request body, read as a stream rather than buffered; without
+    // ?format= its format is told by its Content-Type
+    HttpApiEndpoint.post("importCatalog", "/import")
+      .setUrlParams(reportAllIssues(ImportQuery))
+      .setHeaders(Schema.Struct({ "content-type": Schema.optional(Schema.String) }))
+      .addSuccess(ImportReport)
+      .middleware(Authentication),
+  )
+  .add(
+    // Streamed as an attachment, in the Content-Type of ?format=
+    HttpApiEndpoint.get("exportCatalog", "/export")
+      .setUrlParams(reportAllIssues(ExportQuery))
+      .addSuccess(HttpApiSchema.Text()),
+  );
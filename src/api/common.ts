@@ -0,0 +1,37 @@
+import { ParseResult, Schema } from "effect";
+
+// Bodies and query strings report every invalid field, not just the first
+export const reportAllIssues = <A, I, R>(schema: Schema.Schema<A, I, R>) =>
+  schema.annotations({ parseOptions: { errors: "all" } });
+
+// The version an If-Match header names; absent or "*" means any version
+const IfMatchVersion = Schema.transformOrFail(
+  Schema.String,
+  Schema.UndefinedOr(Schema.Number),
+  {
+    strict: true,
+    decode: (header, _, ast) => {
+      if (header.trim() === "*") {
+        return ParseResult.succeed(undefined);
+      }
+      const version = Number(header.trim().replace(/^W\//, "").replace(/"/g, ""));
+      return Number.isInteger(version) && version > 0
+        ? ParseResult.succeed(version)
+        : ParseResult.fail(
+            new ParseResult.Type(ast, header, `Invalid If-Match header: ${header}`),
+          );
+    },
+    encode: (version) =>
+      ParseResult.succeed(version === undefined ? "*" : `"${version}"`),
+  },
+);
+
+// Node lower-cases header names
+export const IfMatch = Schema.Struct({
+  "if-match": Schema.optional(IfMatchVersion),
+});
+
+// What deletes and purges answer with, having no record left to return
+export const Message = Schema.Struct({
+  message: Schema.String,
+});
@@ -0,0 +1,22 @@
+import { HttpApiEndpoint, HttpApiGroup, HttpApiSchema } from "@effect/platform";
+import { Liveness, Readiness } from "../models/health";
+import { PROMETHEUS_CONTENT_TYPE } from "../metrics/prometheus";
+
+// Outside /api, so orchestrators and scrapers are neither authenticated nor rate limited
+export const HealthApi = HttpApiGroup.make("health")
+  .add(
+    // The process is up and serving requests; MongoDB is not consulted
+    HttpApiEndpoint.get("live", "/health/live").addSuccess(Liveness),
+  )
+  .add(
+    // 503 while MongoDB does not answer a ping or the server is shutting down
+    HttpApiEndpoint.get("ready", "/health/ready")
+      .addSuccess(Readiness)
+      .addError(Readiness, { status: 503 }),
+  )
+  .add(
+    // Prometheus scrape target
+    HttpApiEndpoint.get("metrics", "/metrics").addSuccess(
+      HttpApiSchema.Text({ contentType: PROMETHEUS_CONTENT_TYPE }),
+    ),
+  );
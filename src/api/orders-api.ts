@@ -0,0 +1,43 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import {
+  CreateOrderRequest,
+  Order,
+  OrderId,
+  OrderListQuery,
+  UpdateOrderStatusRequest,
+} from "../models/order";
+import { PageOf } from "../models/query";
+import { Authentication } from "./authentication";
+import { reportAllIssues } from "./common";
+
+const OrderPath = Schema.Struct({ id: OrderId });
+
+export const OrdersApi = HttpApiGroup.make("orders")
+  .add(
+    HttpApiEndpoint.get("listOrders", "/orders")
+      .setUrlParams(reportAllIssues(OrderListQuery))
+      .addSuccess(PageOf(Schema.partial(Order))),
+  )
+  .add(
+    HttpApiEndpoint.get("getOrder", "/orders/:id")
+      .setPath(OrderPath)
+      .addSuccess(Order),
+  )
+  .add(
+    HttpApiEndpoint.post("createOrder", "/orders")
+      .setPayload(reportAllIssues(CreateOrderRequest))
+      .addSuccess(Order, { status: 201 }),
+  )
+  .add(
+    HttpApiEndpoint.patch("updateOrderStatus", "/orders/:id/status")
+      .setPath(OrderPath)
+      .setPayload(reportAllIssues(UpdateOrderStatusRequest))
+      .addSuccess(Order),
+  )
+  .add(
+    HttpApiEndpoint.post("cancelOrder", "/orders/:id/cancel")
+      .setPath(OrderPath)
+      .addSuccess(Order),
+  )
+  .middleware(Authentication);
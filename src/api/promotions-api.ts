@@ -0,0 +1,47 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import {
+  CreatePromotionRequest,
+  Promotion,
+  PromotionId,
+  PromotionListQuery,
+  UpdatePromotionRequest,
+} from "../models/promotion";
+import { PageOf } from "../models/query";
+import { Authentication } from "./authentication";
+import { IfMatch, Message, reportAllIssues } from "./common";
+
+const PromotionPath = Schema.Struct({ id: PromotionId });
+
+export const PromotionsApi = HttpApiGroup.make("promotions")
+  .add(
+    HttpApiEndpoint.get("listPromotions", "/promotions")
+      .setUrlParams(reportAllIssues(PromotionListQuery))
+      .addSuccess(PageOf(Schema.partial(Promotion))),
+  )
+  .add(
+    HttpApiEndpoint.get("getPromotion", "/promotions/:id")
+      .setPath(PromotionPath)
+      .addSuccess(Promotion),
+  )
+  .add(
+    HttpApiEndpoint.post("createPromotion", "/promotions")
+      .setPayload(reportAllIssues(CreatePromotionRequest))
+      .addSuccess(Promotion, { status: 201 })
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.put("updatePromotion", "/promotions/:id")
+      .setPath(PromotionPath)
+      .setHeaders(IfMatch)
+      .setPayload(reportAllIssues(UpdatePromotionRequest))
+      .addSuccess(Promotion)
+      .middleware(Authentication),
+  )
+  .add(
+    HttpApiEndpoint.del("deletePromotion", "/promotions/:id")
+      .setPath(PromotionPath)
+      .setHeaders(IfMatch)
+      .addSuccess(Message)
+      .middleware(Authentication),
+  );
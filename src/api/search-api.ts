@@ -0,0 +1,26 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import { BookId } from "../models/book";
+import { CurrencyQuery } from "../models/money";
+import { BookWithAuthors } from "../models/population";
+import { SearchParams, SearchResult } from "../models/search";
+import { reportAllIssues } from "./common";
+
+export const SearchApi = HttpApiGroup.make("search")
+  .add(
+    // Ranked search across books and authors
+    HttpApiEndpoint.get("search", "/search")
+      .setUrlParams(reportAllIssues(SearchParams))
+      .addSuccess(SearchResult),
+  )
+  .add(
+    HttpApiEndpoint.get("listBooksWithAuthors", "/books-with-authors")
+      .setUrlParams(reportAllIssues(CurrencyQuery))
+      .addSuccess(Schema.Array(BookWithAuthors)),
+  )
+  .add(
+    HttpApiEndpoint.get("getBookWithAuthors", "/books-with-authors/:id")
+      .setPath(Schema.Struct({ id: BookId }))
+      .setUrlParams(reportAllIssues(CurrencyQuery))
+      .addSuccess(BookWithAuthors),
+  );
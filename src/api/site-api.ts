@@ -0,0 +1,14 @@
+import { HttpApiEndpoint, HttpApiGroup, HttpApiSchema } from "@effect/platform";
+
+// The page in public/ describing the API
+export const SiteApi = HttpApiGroup.make("site")
+  .add(
+    HttpApiEndpoint.get("index", "/").addSuccess(
+      HttpApiSchema.Text({ contentType: "text/html" }),
+    ),
+  )
+  .add(
+    HttpApiEndpoint.get("indexFile", "/index.html").addSuccess(
+      HttpApiSchema.Text({ contentType: "text/html" }),
+    ),
+  );
@@ -0,0 +1,35 @@
+import { HttpApiEndpoint, HttpApiGroup } from "@effect/platform";
+import { Schema } from "effect";
+import { Author, AuthorId } from "../models/author";
+import { Book, BookId } from "../models/book";
+import { Authentication } from "./authentication";
+import { Message } from "./common";
+
+export const TrashApi = HttpApiGroup.make("trash")
+  .add(
+    HttpApiEndpoint.get("listTrash", "/trash").addSuccess(
+      Schema.Struct({ books: Schema.Array(Book), authors: Schema.Array(Author) }),
+    ),
+  )
+  .add(
+    HttpApiEndpoint.post("restoreBook", "/books/:id/restore")
+      .setPath(Schema.Struct({ id: BookId }))
+      .addSuccess(Book),
+  )
+  .add(
+    HttpApiEndpoint.post("restoreAuthor", "/authors/:id/restore")
+      .setPath(Schema.Struct({ id: AuthorId }))
+      .addSuccess(Author),
+  )
+  .add(
+    // Purging is permanent and only applies to records already in the trash
+    HttpApiEndpoint.del("purgeBook", "/trash/books/:id")
+      .setPath(Schema.Struct({ id: BookId }))
+      .addSuccess(Message),
+  )
+  .add(
+    HttpApiEndpoint.del("purgeAuthor", "/trash/authors/:id")
+      .setPath(Schema.Struct({ id: AuthorId }))
+      .addSuccess(Message),
+  )
+  .middleware(Authentication);
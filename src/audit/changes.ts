@@ -0,0 +1,96 @@
+import { isDeepStrictEqual } from "util";
+import { AuditChange, AuditEntry, FieldChange } from "../models/audit";
+import { Book } from "../models/book";
+
+/**
+ * Field-level diffs between two states of a record, and rewinding a record
+ * through its audit entries to an earlier state.
+ */
+
+type State = Record<string, unknown>;
+
+// Bookkeeping fields every write touches; entries carry their own version and timestamp
+const IGNORED_FIELDS = new Set(["_id", "version", "createdAt", "updatedAt"]);
+
+// A missing state is a record that does not exist, so all its fields are unset
+export const diffFields = (
+  before: object | undefined,
+  after: object | undefined,
+): FieldChange[] => {
+  const from: State = { ...before };
+  const to: State = { ...after };
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+
+  return [...fields]
+    .filter(
+      (field) =>
+        !IGNORED_FIELDS.has(field) && !isDeepStrictEqual(from[field], to[field]),
+    )
+    .sort()
+    .map((field) => ({
+      field,
+      ...(from[field] !== undefined ? { before: from[field] } : {}),
+      ...(to[field] !== undefined ? { after: to[field] } : {}),
+    }));
+};
+
+// The change a stock adjustment of `delta` made, given the book it left behind
+export const stockChange = (book: Book, delta: number): AuditChange => ({
+  entity: "book",
+  entityId: book._id!,
+  action: "stock",
+  before: { stock: book.stock - delta },
+  after: { stock: book.stock, version: book.version },
+  at: book.updatedAt!,
+});
+
+const undo = (state: State, entry: AuditEntry): State => {
+  const previous = { ...state };
+  for (const change of entry.changes) {
+    if (change.before === undefined) {
+      delete previous[change.field];
+    } else {
+      previous[change.field] = change.before;
+    }
+  }
+  return previous;
+};
+
+/**
+ * Works back from `current` (undefined once purged), undoing every entry
+ * made after `at`. `entries` must be the record's entries, newest first by
+ * version, which is the order the writes were made in.
+ * Returns undefined if the record did not exist at `at`. Changes made before
+ * the audit log existed cannot be undone, so earlier states are as old as
+ * the log allows.
+ */
+export const rewind = (
+  current: object | undefined,
+  entries: ReadonlyArray<AuditEntry>,
+  at: Date,
+): State | undefined => {
+  let state: State | undefined = current ? { ...current } : undefined;
+  let rewound = false;
+
+  for (const entry of entries) {
+    if (entry.timestamp <= at) {
+      break;
+    }
+    rewound = true;
+    state = entry.action === "create" ? undefined : undo(state ?? {}, entry);
+  }
+
+  if (state === undefined || !rewound) {
+    return state;
+  }
+
+  // The bookkeeping fields are those of the last change still applied
+  const { version: _version, updatedAt: _updatedAt, ...rest } = state;
+  const earlier = entries.filter((entry) => entry.timestamp <= at);
+  const version = earlier.find((entry) => entry.version !== undefined)?.version;
+  return {
+    ...rest,
+    ...(version !== undefined ? { version } : {}),
+    ...(earlier.length > 0 ? { updatedAt: earlier[0].timestamp } : {}),
+  };
+};
@@ -0,0 +1,11 @@
+import { Context } from "effect";
+import { Caller } from "../models/auth";
+
+/**
+ * The authenticated caller of a request. Services read it from the context
+ * to record who made a change and to check what they may do; endpoints that
+ * need it have the Authentication middleware provide it.
+ */
+export interface CurrentUser extends Caller {}
+
+export const CurrentUser = Context.GenericTag<CurrentUser>("CurrentUser");
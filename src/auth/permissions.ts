@@ -0,0 +1,41 @@
+import { Effect } from "effect";
+import { Role } from "../models/auth";
+import { CurrentUser } from "./current-user";
+import { ForbiddenError } from "../errors";
+
+/**
+ * The roles allowed to call each restricted method of a service. Services
+ * declare these next to their interface and wrap those methods with
+ * restrict(); the other methods are open to any caller.
+ */
+export type Permissions<S> = {
+  readonly [Method in keyof S]?: ReadonlyArray<Role>;
+};
+
+// Fails unless the current user has one of `roles`
+export const authorize = (roles: ReadonlyArray<Role>, operation: string) =>
+  Effect.flatMap(CurrentUser, (user) =>
+    roles.includes(user.role)
+      ? Effect.void
+      : Effect.fail(
+          new ForbiddenError({
+            message: `Role ${user.role} may not ${operation}; it requires ${roles.join(" or ")}`,
+          }),
+        ),
+  );
+
+/**
+ * Wraps a service's methods so each checks the caller's role against
+ * `permissions` before it runs.
+ */
+export const restrict =
+  <S>(permissions: Permissions<S>, service: string) =>
+  <Args extends ReadonlyArray<unknown>, A, E, R>(
+    method: keyof S & string,
+    run: (...args: Args) => Effect.Effect<A, E, R>,
+  ) =>
+  (...args: Args): Effect.Effect<A, E | ForbiddenError, R | CurrentUser> =>
+    Effect.zipRight(
+      authorize(permissions[method] ?? [], `call ${service}.${method}`),
+      Effect.suspend(() => run(...args)),
+    );
@@ -0,0 +1,257 @@
+import { readFile } from "node:fs/promises";
+import {
+  Cause,
+  Config,
+  ConfigError,
+  ConfigProvider,
+  Context,
+  Duration,
+  Effect,
+  Either,
+  Layer,
+  LogLevel,
+  Option,
+  Redacted,
+  Schema,
+} from "effect";
+import { Budget, BudgetFromString } from "./models/rate-limit";
+
+/**
+ * Every setting of the application, read once at startup. Each is named
+ * after its environment variable; the same names can be given as keys of
+ * the JSON file named by CONFIG_FILE, and the environment wins where both
+ * set one.
+ */
+
+// An empty variable, as left by copying .env.example, is the same as an unset one
+const optional = <A>(config: Config.Config<A>, isEmpty: (value: A) => boolean) =>
+  Config.option(config).pipe(Config.map(Option.filter((value) => !isEmpty(value))));
+
+const optionalString = (name: string) =>
+  optional(Config.string(name), (value) => value === "");
+
+const optionalSecret = (name: string) =>
+  optional(Config.redacted(name), (value) => Redacted.value(value) === "");
+
+const budget = (name: string, fallback: Budget) =>
+  Config.string(name).pipe(
+    Config.mapOrFail((value) =>
+      Either.mapLeft(
+        Schema.decodeUnknownEither(BudgetFromString)(value),
+        () =>
+          ConfigError.InvalidData(
+            [],
+            `Expected <requests>/<seconds>, e.g. 300/60, but received "${value}"`,
+          ),
+      ),
+    ),
+    Config.withDefault(fallback),
+  );
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+// A number of bytes, or of kb, mb or gb, each 1024 of the one before
+const parseSize = (value: string) => {
+  const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(value.trim());
+  return match
+    ? Math.floor(Number(match[1]) * SIZE_UNITS[(match[2] ?? "b").toLowerCase()])
+    : undefined;
+};
+
+export const DatabaseConfig = Config.all({
+  uri: Config.string("MONGODB_URI").pipe(
+    Config.withDefault("mongodb://localhost:27017"),
+  ),
+  dbName: Config.string("DB_NAME").pipe(Config.withDefault("bookstore")),
+  maxPoolSize: Config.integer("MONGODB_MAX_POOL_SIZE").pipe(
+    Config.withDefault(20),
+  ),
+  minPoolSize: Config.integer("MONGODB_MIN_POOL_SIZE").pipe(
+    Config.withDefault(0),
+  ),
+  connectTimeout: Config.duration("MONGODB_CONNECT_TIMEOUT").pipe(
+    Config.withDefault(Duration.seconds(10)),
+  ),
+  serverSelectionTimeout: Config.duration(
+    "MONGODB_SERVER_SELECTION_TIMEOUT",
+  ).pipe(Config.withDefault(Duration.seconds(5))),
+  // Further attempts to connect at startup, with exponential backoff between them
+  connectRetries: Config.integer("MONGODB_CONNECT_RETRIES").pipe(
+    Config.withDefault(5),
+  ),
+  // How long the readiness check waits for MongoDB to answer a ping
+  pingTimeout: Config.duration("MONGODB_PING_TIMEOUT").pipe(
+    Config.withDefault(Duration.seconds(2)),
+  ),
+});
+
+export type DatabaseConfig = Config.Config.Success<typeof DatabaseConfig>;
+
+export const HttpConfig = Config.all({
+  port: Config.port("PORT").pipe(Config.withDefault(3000)),
+  // Origins allowed to call the API from a browser; "*" allows any
+  corsOrigins: Config.array(Config.string(), "CORS_ORIGINS").pipe(
+    Config.withDefault(["*"]),
+  ),
+  // Largest JSON body accepted, in bytes; given as e.g. 100kb or 1mb
+  bodyLimit: Config.string("BODY_LIMIT").pipe(
+    Config.mapOrFail((value) =>
+      Either.fromNullable(parseSize(value), () =>
+        ConfigError.InvalidData(
+          [],
+          `Expected a size such as 100kb or 1mb but received "${value}"`,
+        ),
+      ),
+    ),
+    Config.withDefault(100 * 1024),
+  ),
+  // How long in-flight requests may take to finish once the server is shutting down
+  shutdownTimeout: Config.duration("SHUTDOWN_TIMEOUT").pipe(
+    Config.withDefault(Duration.seconds(10)),
+  ),
+});
+
+export type HttpConfig = Config.Config.Success<typeof HttpConfig>;
+
+export const AuthConfig = Config.all({
+  // Signs bearer tokens; without it tokens are signed with a random secret
+  jwtSecret: optionalSecret("JWT_SECRET"),
+  // The first API key, stored for owner admin when the server starts
+  bootstrapApiKey: optionalSecret("BOOTSTRAP_API_KEY"),
+});
+
+export type AuthConfig = Config.Config.Success<typeof AuthConfig>;
+
+export const RateLimitConfig = Config.all({
+  standard: budget("RATE_LIMIT_STANDARD", { requests: 300, perSeconds: 60 }),
+  expensive: budget("RATE_LIMIT_EXPENSIVE", { requests: 30, perSeconds: 60 }),
+  // mongo shares buckets between servers through the database
+  store: Config.literal("memory", "mongo")("RATE_LIMIT_STORE").pipe(
+    Config.withDefault("memory" as const),
+  ),
+});
+
+export type RateLimitConfig = Config.Config.Success<typeof RateLimitConfig>;
+
+export const FeatureConfig = Config.all({
+  rateLimiting: Config.boolean("FEATURE_RATE_LIMITING").pipe(
+    Config.withDefault(true),
+  ),
+  auditLog: Config.boolean("FEATURE_AUDIT_LOG").pipe(Config.withDefault(true)),
+});
+
+export type FeatureConfig = Config.Config.Success<typeof FeatureConfig>;
+
+// Named as by the OpenTelemetry SDKs, so a deployment's usual variables apply
+export const TracingConfig = Config.all({
+  // none still traces, for the trace ids in logs, but exports nothing
+  exporter: Config.literal("none", "otlp", "console")("OTEL_TRACES_EXPORTER").pipe(
+    Config.withDefault("none" as const),
+  ),
+  endpoint: Config.string("OTEL_EXPORTER_OTLP_TRACES_ENDPOINT").pipe(
+    Config.withDefault("http://localhost:4318/v1/traces"),
+  ),
+  serviceName: Config.string("OTEL_SERVICE_NAME").pipe(
+    Config.withDefault("bookstore-api"),
+  ),
+});
+
+export type TracingConfig = Config.Config.Success<typeof TracingConfig>;
+
+// Config.all accumulates the errors of every part, so one load reports them all
+export const AppSettings = Config.all({
+  database: DatabaseConfig,
+  http: HttpConfig,
+  auth: AuthConfig,
+  rateLimits: RateLimitConfig,
+  features: FeatureConfig,
+  logLevel: Config.logLevel("LOG_LEVEL").pipe(
+    Config.withDefault(LogLevel.Info),
+  ),
+  // json writes one object per line; pretty is easier to read in a terminal
+  logFormat: Config.literal("json", "pretty")("LOG_FORMAT").pipe(
+    Config.withDefault("json" as const),
+  ),
+  tracing: TracingConfig,
+  // JSON file of exchange rates for ?currency=
+  exchangeRatesFile: optionalString("EXCHANGE_RATES_FILE"),
+});
+
+export interface AppConfig
+  extends Config.Config.Success<typeof AppSettings> {}
+
+export const AppConfig = Context.GenericTag<AppConfig>("AppConfig");
+
+// An object of settings; nested objects and arrays are read as by ConfigProvider.fromJson
+const ConfigFile = Schema.parseJson(
+  Schema.Record({ key: Schema.String, value: Schema.Unknown }),
+);
+
+const readConfigFile = (path: string) =>
+  Effect.tryPromise({
+    try: () => readFile(path, "utf8"),
+    catch: (error) => error,
+  }).pipe(
+    Effect.flatMap((json) => Schema.decodeUnknown(ConfigFile)(json)),
+    Effect.mapError((error) =>
+      ConfigError.SourceUnavailable(
+        ["CONFIG_FILE"],
+        `Failed to read configuration from ${path}: ${error}`,
+        Cause.fail(error),
+      ),
+    ),
+  );
+
+// The given provider first, then the JSON file it names in CONFIG_FILE, if any
+const withConfigFile = (provider: ConfigProvider.ConfigProvider) =>
+  Effect.gen(function* () {
+    const path = yield* Effect.withConfigProvider(
+      optionalString("CONFIG_FILE"),
+      provider,
+    );
+    if (Option.isNone(path)) {
+      return provider;
+    }
+    const json = yield* readConfigFile(path.value);
+    return provider.pipe(
+      ConfigProvider.orElse(() => ConfigProvider.fromJson(json)),
+    );
+  });
+
+/**
+ * Reads the configuration through the current ConfigProvider, which is the
+ * environment unless another is set, e.g. for a test:
+ *
+ *   loadAppConfig.pipe(
+ *     Effect.withConfigProvider(ConfigProvider.fromMap(new Map([["PORT", "0"]])))
+ *   )
+ */
+export const loadAppConfig: Effect.Effect<AppConfig, ConfigError.ConfigError> =
+  Effect.configProviderWith(withConfigFile).pipe(
+    Effect.flatMap((provider) =>
+      Effect.withConfigProvider(AppSettings, provider),
+    ),
+  );
+
+/**
+ * A malformed setting is a deployment mistake no request can recover from,
+ * so the layer dies with the ConfigError; startServer() reports it with
+ * describeConfigError(). Tests override the source with
+ * Layer.provide(Layer.setConfigProvider(...)).
+ */
+export const AppConfigLive = Layer.effect(AppConfig, Effect.orDie(loadAppConfig));
+
+// One line per missing or malformed setting, named as in the environment
+export const describeConfigError = (
+  error: ConfigError.ConfigError,
+): ReadonlyArray<string> =>
+  ConfigError.reduceWithContext(error, undefined, {
+    andCase: (_, left: ReadonlyArray<string>, right) => [...left, ...right],
+    orCase: (_, left: ReadonlyArray<string>, right) => [...left, ...right],
+    invalidDataCase: (_, path, message) => [`${path.join("_")}: ${message}`],
+    missingDataCase: (_, path, message) => [`${path.join("_")}: ${message}`],
+    sourceUnavailableCase: (_, path, message) => [
+      `${path.join("_")}: ${message}`,
+    ],
+    unsupportedCase: (_, path, message) => [`${path.join("_")}: ${message}`],
+  });
@@ -1,24 +1,148 @@
-import { Context, Effect, Layer } from "effect"
-import { MongoClient, Db } from "mongodb"
+import {
+  Context,
+  Duration,
+  Effect,
+  FiberRef,
+  Layer,
+  Option,
+  Schedule,
+} from "effect"
+import { ClientSession, MongoClient, Db } from "mongodb"
+import { AppConfig, DatabaseConfig } from "./config"
+import { DatabaseError } from "./errors"
 
 export interface MongoDB {
   readonly db: Db
+  /**
+   * Runs `effect` in one transaction: driver calls given `sessionOptions` take
+   * part in it, and none of their writes are kept unless all of `effect`
+   * succeeds. Inside another transaction, `effect` simply joins it.
+   */
+  readonly transaction: <A, E, R>(
+    effect: Effect.Effect<A, E, R>
+  ) => Effect.Effect<A, E | DatabaseError, R>
 }
 
 export const MongoDB = Context.GenericTag<MongoDB>("MongoDB")
 
+// The session of the transaction the fiber runs in, if any
+const currentSession = FiberRef.unsafeMake<Option.Option<ClientSession>>(
+  Option.none()
+)
+
+// Options that make a driver call part of the fiber's transaction, if any
+export const sessionOptions: Effect.Effect<{ session?: ClientSession }> =
+  Effect.map(
+    FiberRef.get(currentSession),
+    Option.match({
+      onNone: () => ({}),
+      onSome: (session) => ({ session }),
+    })
+  )
+
+// Concurrent transactions touching the same document abort all but one of
+// them, and an aborted transaction wrote nothing, so it is tried again
+const TRANSACTION_RETRIES = Schedule.exponential("20 millis").pipe(
+  Schedule.jittered,
+  Schedule.intersect(Schedule.recurs(4))
+)
+
+// A client that failed to connect is closed so that it leaves no sockets behind
+const connect = (config: DatabaseConfig) =>
+  Effect.tryPromise({
+    try: async () => {
+      const client = new MongoClient(config.uri, {
+        maxPoolSize: config.maxPoolSize,
+        minPoolSize: config.minPoolSize,
+        connectTimeoutMS: Duration.toMillis(config.connectTimeout),
+        serverSelectionTimeoutMS: Duration.toMillis(
+          config.serverSelectionTimeout
+        ),
+      })
+      try {
+        return await client.connect()
+      } catch (error) {
+        await client.close().catch(() => undefined)
+        throw error
+      }
+    },
+    catch: (error) =>
+      new DatabaseError({ message: `Failed to connect to MongoDB: ${error}` }),
+  })
+
+/**
+ * One client, and with it one connection pool, for as long as the layer's
+ * scope is open. Build the layer once, e.g. into a ManagedRuntime, and the
+ * client is closed when the runtime is disposed.
+ */
 const make = Effect.gen(function* () {
-  const connectionString = process.env.MONGODB_URI || "mongodb://localhost:27017"
-  const dbName = process.env.DB_NAME || "bookstore"
-  
-  const client = new MongoClient(connectionString)
-  yield* Effect.promise(() => client.connect())
-  
-  const db = client.db(dbName)
-  
+  const { database: config } = yield* AppConfig
+
+  const client = yield* Effect.acquireRelease(
+    connect(config).pipe(
+      Effect.tapError((error) => Effect.logWarning(error.message)),
+      Effect.retry(
+        Schedule.exponential("500 millis").pipe(
+          Schedule.intersect(Schedule.recurs(config.connectRetries))
+        )
+      )
+    ),
+    (client) =>
+      Effect.tryPromise(() => client.close()).pipe(
+        Effect.zipRight(Effect.logInfo("Closed the MongoDB connection")),
+        Effect.catchAll((error) =>
+          Effect.logWarning(`Failed to close MongoDB client: ${error}`)
+        )
+      )
+  )
+
+  const attempt = <A, E, R>(
+    session: ClientSession,
+    effect: Effect.Effect<A, E, R>
+  ) =>
+    Effect.suspend(() => {
+      session.startTransaction()
+      return Effect.locally(effect, currentSession, Option.some(session))
+    }).pipe(
+      Effect.tapError(() =>
+        Effect.tryPromise(() => session.abortTransaction()).pipe(Effect.ignore)
+      )
+    )
+
+  const transaction = <A, E, R>(
+    effect: Effect.Effect<A, E, R>
+  ): Effect.Effect<A, E | DatabaseError, R> =>
+    Effect.flatMap(FiberRef.get(currentSession), (outer) =>
+      Option.isSome(outer)
+        ? effect
+        : Effect.acquireUseRelease(
+            Effect.sync(() => client.startSession()),
+            (session) =>
+              attempt(session, effect).pipe(
+                Effect.retry({
+                  schedule: TRANSACTION_RETRIES,
+                  while: (error) => error instanceof DatabaseError,
+                }),
+                Effect.tap(() =>
+                  Effect.tryPromise({
+                    try: () => session.commitTransaction(),
+                    catch: (error) =>
+                      new DatabaseError({
+                        message: `Failed to commit transaction: ${error}`,
+                      }),
+                  })
+                )
+              ),
+            // Ending the session aborts a transaction an interruption left open
+            (session) =>
+              Effect.tryPromise(() => session.endSession()).pipe(Effect.ignore)
+          )
+    )
+
   return {
-    db
+    db: client.db(config.dbName),
+    transaction,
   }
 })
 
-export const MongoDBLive = Layer.effect(MongoDB, make)
\ No newline at end of file
+export const MongoDBLive = Layer.scoped(MongoDB, make)
@@ -1,19 +1,176 @@
-import { Schema } from "effect";
+import { HttpApiSchema } from "@effect/platform";
+import { ParseResult, Schema } from "effect";
+
+/**
+ * Every error a request can fail with. The status each is annotated with is
+ * the one its problem response is sent with, and the one the API documents.
+ */
 
 export class NotFoundError extends Schema.TaggedError<NotFoundError>()("NotFoundError", {
   message: Schema.String,
-}) {}
+}, HttpApiSchema.annotations({ status: 404 })) {}
+
+// One invalid field: its path within the input and what is wrong with it
+export const ValidationIssue = Schema.Struct({
+  path: Schema.Array(Schema.Union(Schema.String, Schema.Number)),
+  message: Schema.String,
+});
+
+export type ValidationIssue = typeof ValidationIssue.Type;
 
 export class ValidationError extends Schema.TaggedError<ValidationError>()("ValidationError", {
   message: Schema.String,
-}) {}
+  issues: Schema.optional(Schema.Array(ValidationIssue)),
+}, HttpApiSchema.annotations({ status: 400 })) {}
+
+// Optional fields are unions with undefined, and the formatter also reports the
+// undefined member failing; only the field's own schema failure is useful
+const isUndefinedAlternative = (issue: ParseResult.ArrayFormatterIssue) =>
+  issue.message.startsWith("Expected undefined, actual");
+
+export const fromIssues = (
+  message: string,
+  issues: ReadonlyArray<ParseResult.ArrayFormatterIssue>,
+) =>
+  new ValidationError({
+    message,
+    issues: issues
+      .filter((issue) => !isUndefinedAlternative(issue))
+      .map((issue) => ({
+        path: issue.path.map((key) => (typeof key === "number" ? key : String(key))),
+        message: issue.message,
+      })),
+  });
+
+// Lists every issue in a ParseError (decode with { errors: "all" } to collect them all)
+export const fromParseError = (message: string, error: ParseResult.ParseError) =>
+  fromIssues(message, ParseResult.ArrayFormatter.formatErrorSync(error));
 
 export class DatabaseError extends Schema.TaggedError<DatabaseError>()("DatabaseError", {
   message: Schema.String,
-}) {}
+}, HttpApiSchema.annotations({ status: 500 })) {}
 
 export class BusinessError extends Schema.TaggedError<BusinessError>()("BusinessError", {
     message: Schema.String,
-}) {}
+}, HttpApiSchema.annotations({ status: 409 })) {}
+
+export class ConflictError extends Schema.TaggedError<ConflictError>()("ConflictError", {
+    message: Schema.String,
+}, HttpApiSchema.annotations({ status: 412 })) {}
+
+// Missing, malformed, expired or revoked credentials
+export class UnauthorizedError extends Schema.TaggedError<UnauthorizedError>()("UnauthorizedError", {
+    message: Schema.String,
+}, HttpApiSchema.annotations({ status: 401 })) {}
+
+// Authenticated, but the caller's role does not allow the operation
+export class ForbiddenError extends Schema.TaggedError<ForbiddenError>()("ForbiddenError", {
+    message: Schema.String,
+}, HttpApiSchema.annotations({ status: 403 })) {}
+
+// Too many requests from one client; retryAfter and resetSeconds are in seconds
+export class RateLimitError extends Schema.TaggedError<RateLimitError>()("RateLimitError", {
+    message: Schema.String,
+    limit: Schema.Number,
+    resetSeconds: Schema.Number,
+    retryAfter: Schema.Number,
+}, HttpApiSchema.annotations({ status: 429 })) {}
+
+// A request body over the configured BODY_LIMIT
+export class PayloadTooLargeError extends Schema.TaggedError<PayloadTooLargeError>()("PayloadTooLargeError", {
+    message: Schema.String,
+}, HttpApiSchema.annotations({ status: 413 })) {}
+
+export type AppError =
+  | NotFoundError
+  | ValidationError
+  | DatabaseError
+  | BusinessError
+  | ConflictError
+  | UnauthorizedError
+  | ForbiddenError
+  | RateLimitError
+  | PayloadTooLargeError;
+
+/**
+ * An RFC 7807 problem details body. `code` is a stable identifier for
+ * clients to branch on; `errors` lists invalid fields for validation
+ * failures.
+ */
+export interface Problem {
+  readonly type: string;
+  readonly title: string;
+  readonly status: number;
+  readonly detail: string;
+  readonly code: string;
+  readonly errors?: ReadonlyArray<ValidationIssue>;
+}
+
+interface ProblemType {
+  readonly title: string;
+  readonly code: string;
+  // Replaces the error message for errors whose message is not meant for clients
+  readonly detail?: string;
+}
+
+// Read for the status each error class is annotated with
+const ERROR_SCHEMAS: { readonly [Tag in AppError["_tag"]]: Schema.Schema.All } = {
+  NotFoundError,
+  ValidationError,
+  DatabaseError,
+  BusinessError,
+  ConflictError,
+  UnauthorizedError,
+  ForbiddenError,
+  RateLimitError,
+  PayloadTooLargeError,
+};
+
+const PROBLEM_TYPES: { readonly [Tag in AppError["_tag"]]: ProblemType } = {
+  NotFoundError: { title: "Not Found", code: "NOT_FOUND" },
+  ValidationError: { title: "Validation Failed", code: "VALIDATION_FAILED" },
+  DatabaseError: {
+    title: "Database Error",
+    code: "DATABASE_ERROR",
+    detail: "A database operation failed",
+  },
+  BusinessError: { title: "Business Rule Violated", code: "BUSINESS_RULE_VIOLATED" },
+  ConflictError: { title: "Precondition Failed", code: "VERSION_CONFLICT" },
+  UnauthorizedError: { title: "Unauthorized", code: "UNAUTHORIZED" },
+  ForbiddenError: { title: "Forbidden", code: "FORBIDDEN" },
+  RateLimitError: { title: "Too Many Requests", code: "RATE_LIMITED" },
+  PayloadTooLargeError: { title: "Payload Too Large", code: "PAYLOAD_TOO_LARGE" },
+};
+
+// Defects, interruptions and anything else that is not an AppError
+const INTERNAL_ERROR: ProblemType = {
+  title: "Internal Server Error",
+  code: "INTERNAL_ERROR",
+  detail: "An unexpected error occurred",
+};
+
+export const isAppError = (error: unknown): error is AppError =>
+  typeof error === "object" &&
+  error !== null &&
+  "_tag" in error &&
+  typeof error._tag === "string" &&
+  Object.hasOwn(PROBLEM_TYPES, error._tag);
+
+const toProblemType = (code: string) => `/problems/${code.toLowerCase().replace(/_/g, "-")}`;
+
+export const toProblem = (error: unknown): Problem => {
+  if (!isAppError(error)) {
+    const { title, code, detail } = INTERNAL_ERROR;
+    return { type: toProblemType(code), title, status: 500, detail: detail!, code };
+  }
 
-export type AppError = NotFoundError | ValidationError | DatabaseError | BusinessError;
+  const { title, code, detail } = PROBLEM_TYPES[error._tag];
+  return {
+    type: toProblemType(code),
+    title,
+    status: HttpApiSchema.getStatusError(ERROR_SCHEMAS[error._tag]),
+    detail: detail ?? error.message,
+    code,
+    ...(error._tag === "ValidationError" && error.issues ? { errors: error.issues } : {}),
+  };
+};
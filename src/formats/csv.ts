@@ -0,0 +1,118 @@
+import { Option, Stream } from "effect";
+
+/**
+ * Splits CSV text into records (RFC 4180): fields may be quoted, quoted
+ * fields may contain commas, line breaks and doubled quotes, and records
+ * end with LF or CRLF. Blank lines are skipped.
+ */
+export const parseCsv = <E, R>(
+  input: Stream.Stream<string, E, R>,
+): Stream.Stream<ReadonlyArray<string>, E, R> =>
+  Stream.suspend(() => {
+    let field = "";
+    let record: string[] = [];
+    let inQuotes = false;
+    // A quote seen inside a quoted field: either an escaped quote or its end
+    let afterQuote = false;
+
+    const endRecord = (records: string[][]) => {
+      record.push(field);
+      if (record.length > 1 || record[0] !== "") {
+        records.push(record);
+      }
+      field = "";
+      record = [];
+    };
+
+    const push = (text: string) => {
+      const records: string[][] = [];
+      for (const char of text) {
+        if (inQuotes) {
+          if (afterQuote) {
+            afterQuote = false;
+            if (char === '"') {
+              field += '"';
+              continue;
+            }
+            inQuotes = false;
+          } else if (char === '"') {
+            afterQuote = true;
+            continue;
+          } else {
+            field += char;
+            continue;
+          }
+        }
+
+        if (char === '"' && field === "") {
+          inQuotes = true;
+        } else if (char === ",") {
+          record.push(field);
+          field = "";
+        } else if (char === "\n") {
+          endRecord(records);
+        } else if (char !== "\r") {
+          field += char;
+        }
+      }
+      return records;
+    };
+
+    const end = () => {
+      const records: string[][] = [];
+      if (field !== "" || record.length > 0) {
+        endRecord(records);
+      }
+      return records;
+    };
+
+    return input.pipe(
+      Stream.mapConcat(push),
+      Stream.concat(Stream.suspend(() => Stream.fromIterable(end()))),
+    );
+  });
+
+// Reads the first record as the header; empty cells are left out of the row
+export const parseCsvObjects = <E, R>(
+  input: Stream.Stream<string, E, R>,
+): Stream.Stream<Record<string, string>, E, R> =>
+  parseCsv(input).pipe(
+    Stream.mapAccum(
+      Option.none<ReadonlyArray<string>>(),
+      (
+        header,
+        record,
+      ): [
+        Option.Option<ReadonlyArray<string>>,
+        Option.Option<Record<string, string>>,
+      ] =>
+        Option.match(header, {
+          onNone: () => [
+            Option.some(record.map((name) => name.trim())),
+            Option.none(),
+          ],
+          onSome: (names) => [
+            header,
+            Option.some(
+              Object.fromEntries(
+                names.flatMap((name, i) =>
+                  record[i] !== undefined && record[i] !== ""
+                    ? [[name, record[i]]]
+                    : [],
+                ),
+              ),
+            ),
+          ],
+        }),
+    ),
+    Stream.filterMap((row) => row),
+  );
+
+const needsQuotes = /[",\r\n]|^\s|\s$/;
+
+export const toCsvLine = (values: ReadonlyArray<string>): string =>
+  values
+    .map((value) =>
+      needsQuotes.test(value) ? `"${value.replace(/"/g, '""')}"` : value,
+    )
+    .join(",") + "\n";
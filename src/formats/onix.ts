@@ -0,0 +1,322 @@
+import { Stream } from "effect";
+import { XMLParser } from "fast-xml-parser";
+import { Author } from "../models/author";
+import { Book } from "../models/book";
+import {
+  Money,
+  STORE_CURRENCY,
+  fromMajorUnits,
+  isCurrencyCode,
+  toMajorUnits,
+} from "../models/money";
+
+/**
+ * Minimal ONIX for Books 3.0 support (reference tag names only): enough of
+ * a <Product> to describe a catalog entry, and the contributors credited
+ * as its authors.
+ */
+
+// A product's book and authors, shaped like the import row schemas' input
+export interface OnixProduct {
+  readonly book: Record<string, unknown>;
+  readonly contributors: ReadonlyArray<Record<string, unknown>>;
+}
+
+// Composites that ONIX allows to repeat
+const REPEATED = new Set([
+  "ProductIdentifier",
+  "TitleDetail",
+  "TitleElement",
+  "Contributor",
+  "Subject",
+  "TextContent",
+  "PublishingDate",
+  "SupplyDetail",
+  "Price",
+  "Stock",
+]);
+
+const parser = new XMLParser({
+  ignoreAttributes: true,
+  parseTagValue: false,
+  removeNSPrefix: true,
+  isArray: (name) => REPEATED.has(name),
+});
+
+type Node = Record<string, unknown>;
+
+const text = (value: unknown): string | undefined =>
+  typeof value === "string" && value.trim() !== "" ? value.trim() : undefined;
+
+const nodes = (value: unknown): Node[] =>
+  Array.isArray(value) ? value.filter((item) => typeof item === "object") : [];
+
+// The first composite whose `field` has one of the preferred codes, else the first
+const pick = (
+  value: unknown,
+  field: string,
+  preferred: ReadonlyArray<string>,
+): Node | undefined => {
+  const all = nodes(value);
+  for (const code of preferred) {
+    const match = all.find((node) => text(node[field]) === code);
+    if (match) return match;
+  }
+  return all[0];
+};
+
+const node = (value: unknown): Node =>
+  typeof value === "object" && value !== null ? (value as Node) : {};
+
+// ONIX dates are YYYY, YYYYMM or YYYYMMDD
+const toIsoDate = (value: string | undefined) => {
+  const match = value?.match(/^(\d{4})(\d{2})?(\d{2})?$/);
+  if (!match) return value;
+  const [, year, month, day] = match;
+  return [year, month, day].filter(Boolean).join("-");
+};
+
+const toNumber = (value: string | undefined) =>
+  value !== undefined && Number.isFinite(Number(value)) ? Number(value) : value;
+
+// ONIX amounts are in major units; a price without a currency is in the store currency
+const toMoney = (price: Node) => {
+  const amount = toNumber(text(price.PriceAmount));
+  const currency = text(price.CurrencyCode) ?? STORE_CURRENCY;
+  return typeof amount === "number" && isCurrencyCode(currency)
+    ? fromMajorUnits(amount, currency)
+    : { amount, currency };
+};
+
+const toContributor = (contributor: Node) => {
+  const inverted = text(contributor.PersonNameInverted)?.split(/,\s*/);
+  const firstName = text(contributor.NamesBeforeKey) ?? inverted?.[1];
+  const lastName = text(contributor.KeyNames) ?? inverted?.[0];
+  const fullName =
+    text(contributor.PersonName) ??
+    ([firstName, lastName].filter(Boolean).join(" ") || undefined);
+  const split = fullName?.lastIndexOf(" ") ?? -1;
+
+  return {
+    fullName,
+    firstName: firstName ?? (split > 0 ? fullName!.slice(0, split) : fullName),
+    lastName: lastName ?? (split > 0 ? fullName!.slice(split + 1) : fullName),
+    biography: text(contributor.BiographicalNote),
+  };
+};
+
+// Throws if the XML is malformed
+export const parseProduct = (xml: string): OnixProduct => {
+  const product = node(parser.parse(xml, true).Product);
+  const descriptive = node(product.DescriptiveDetail);
+
+  const identifier = pick(product.ProductIdentifier, "ProductIDType", [
+    "15",
+    "03",
+  ]);
+  const title = pick(descriptive.TitleDetail, "TitleType", ["01"]);
+  const titleElement = pick(title?.TitleElement, "TitleElementLevel", ["01"]);
+  const subject = nodes(descriptive.Subject).find(
+    (subject) => text(subject.SubjectHeadingText) ?? text(subject.SubjectCode),
+  );
+  // Prefer the description over the short description
+  const description = pick(
+    node(product.CollateralDetail).TextContent,
+    "TextType",
+    ["03", "02"],
+  );
+  const published = pick(
+    node(product.PublishingDetail).PublishingDate,
+    "PublishingDateRole",
+    ["01"],
+  );
+  const supply = nodes(node(product.ProductSupply).SupplyDetail)[0];
+  // One price per currency of the preferred price type; the store currency's
+  // is the book's price and the rest are its list prices
+  const priceType = text(pick(supply?.Price, "PriceType", ["01", "02"])?.PriceType);
+  const prices = nodes(supply?.Price)
+    .filter((price) => text(price.PriceType) === priceType)
+    .map(toMoney);
+  const price =
+    prices.find((price) => price.currency === STORE_CURRENCY) ?? prices[0];
+  const listPrices = prices.filter((other) => other !== price);
+  const stock = nodes(supply?.Stock)[0];
+
+  const contributors = nodes(descriptive.Contributor)
+    .filter((contributor) => text(contributor.ContributorRole) === "A01")
+    .map(toContributor);
+
+  return {
+    book: {
+      title:
+        text(titleElement?.TitleText) ??
+        ([
+          text(titleElement?.TitlePrefix),
+          text(titleElement?.TitleWithoutPrefix),
+        ]
+          .filter(Boolean)
+          .join(" ") ||
+          undefined),
+      isbn: text(identifier?.IDValue),
+      authors: contributors.flatMap((contributor) =>
+        contributor.fullName ? [contributor.fullName] : [],
+      ),
+      price,
+      listPrices: listPrices.length > 0 ? listPrices : undefined,
+      stock: toNumber(text(stock?.OnHand)) ?? 0,
+      genre: text(subject?.SubjectHeadingText) ?? text(subject?.SubjectCode),
+      description: text(description?.Text),
+      publishedDate: toIsoDate(text(published?.Date)),
+    },
+    contributors,
+  };
+};
+
+const PRODUCT_START = /<(?:\w+:)?Product[\s>]/;
+const PRODUCT_END = /<\/(?:\w+:)?Product>/;
+
+// Cuts a streamed ONIX message into the XML of its individual <Product>s
+export const splitProducts = <E, R>(
+  input: Stream.Stream<string, E, R>,
+): Stream.Stream<string, E, R> =>
+  Stream.suspend(() => {
+    let buffer = "";
+    return input.pipe(
+      Stream.mapConcat((chunk) => {
+        buffer += chunk;
+        const products: string[] = [];
+        let end: RegExpMatchArray | null;
+        while ((end = buffer.match(PRODUCT_END))) {
+          const stop = end.index! + end[0].length;
+          const start = buffer.slice(0, stop).search(PRODUCT_START);
+          products.push(buffer.slice(Math.max(start, 0), stop));
+          buffer = buffer.slice(stop);
+        }
+        return products;
+      }),
+    );
+  });
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const element = (name: string, content: string | number | undefined) =>
+  content === undefined || content === ""
+    ? ""
+    : `<${name}>${typeof content === "number" ? content : escapeXml(content)}</${name}>`;
+
+// An element wrapping already serialized children
+const composite = (name: string, ...children: string[]) =>
+  `<${name}>${children.join("")}</${name}>`;
+
+const toOnixDate = (date: Date) =>
+  date.toISOString().slice(0, 10).replace(/-/g, "");
+
+const toOnixDateTime = (date: Date) =>
+  `${date.toISOString().replace(/[-:]/g, "").slice(0, 15)}Z`;
+
+const SENDER = "Bookstore Effect";
+
+export const onixHeader = (sentAt: Date) =>
+  '<?xml version="1.0" encoding="UTF-8"?>\n' +
+  '<ONIXMessage release="3.0" xmlns="http://ns.editeur.org/onix/3.0/reference">\n' +
+  composite(
+    "Header",
+    composite("Sender", element("SenderName", SENDER)),
+    element("SentDateTime", toOnixDateTime(sentAt)),
+  ) +
+  "\n";
+
+export const ONIX_FOOTER = "</ONIXMessage>\n";
+
+export const toOnixProduct = (
+  book: Book & { readonly authors: ReadonlyArray<Author> },
+): string =>
+  composite(
+    "Product",
+    element("RecordReference", `bookstore-effect:${book._id}`),
+    element("NotificationType", "03"),
+    composite(
+      "ProductIdentifier",
+      element("ProductIDType", "15"),
+      element("IDValue", book.isbn),
+    ),
+    composite(
+      "DescriptiveDetail",
+      element("ProductComposition", "00"),
+      element("ProductForm", "BA"),
+      composite(
+        "TitleDetail",
+        element("TitleType", "01"),
+        composite(
+          "TitleElement",
+          element("TitleElementLevel", "01"),
+          element("TitleText", book.title),
+        ),
+      ),
+      ...book.authors.map((author, i) =>
+        composite(
+          "Contributor",
+          element("SequenceNumber", i + 1),
+          element("ContributorRole", "A01"),
+          element("PersonName", author.fullName),
+          element("NamesBeforeKey", author.firstName),
+          element("KeyNames", author.lastName),
+          element("BiographicalNote", author.biography),
+        ),
+      ),
+      // Scheme 20 is free-text keywords
+      composite(
+        "Subject",
+        element("SubjectSchemeIdentifier", "20"),
+        element("SubjectHeadingText", book.genre),
+      ),
+    ),
+    book.description
+      ? composite(
+          "CollateralDetail",
+          composite(
+            "TextContent",
+            element("TextType", "03"),
+            element("ContentAudience", "00"),
+            element("Text", book.description),
+          ),
+        )
+      : "",
+    book.publishedDate
+      ? composite(
+          "PublishingDetail",
+          composite(
+            "PublishingDate",
+            element("PublishingDateRole", "01"),
+            element("Date", toOnixDate(book.publishedDate)),
+          ),
+        )
+      : "",
+    composite(
+      "ProductSupply",
+      composite(
+        "SupplyDetail",
+        composite(
+          "Supplier",
+          element("SupplierRole", "00"),
+          element("SupplierName", SENDER),
+        ),
+        // 21: available; 31: out of stock
+        element("ProductAvailability", book.stock > 0 ? "21" : "31"),
+        composite("Stock", element("OnHand", book.stock)),
+        ...[book.price, ...(book.listPrices ?? [])].map((price: Money) =>
+          composite(
+            "Price",
+            element("PriceType", "01"),
+            element("PriceAmount", toMajorUnits(price)),
+            element("CurrencyCode", price.currency),
+          ),
+        ),
+      ),
+    ),
+  ) + "\n";
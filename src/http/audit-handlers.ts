@@ -0,0 +1,12 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { AuditService } from "../services/audit-service";
+
+export const AuditLive = HttpApiBuilder.group(BookstoreApi, "audit", (handlers) =>
+  Effect.map(AuditService, (auditService) =>
+    handlers.handle("listEntries", ({ urlParams }) =>
+      auditService.listEntries(urlParams, urlParams),
+    ),
+  ),
+);
@@ -0,0 +1,19 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { CurrentUser } from "../auth/current-user";
+import { AuthService } from "../services/auth-service";
+
+export const AuthLive = HttpApiBuilder.group(BookstoreApi, "auth", (handlers) =>
+  Effect.gen(function* () {
+    const authService = yield* AuthService;
+
+    return handlers
+      .handle("login", ({ payload }) => authService.login(payload.apiKey))
+      .handle("me", () => CurrentUser)
+      .handle("listApiKeys", () => authService.listApiKeys())
+      .handle("createApiKey", ({ payload }) => authService.createApiKey(payload))
+      .handle("rotateApiKey", ({ path }) => authService.rotateApiKey(path.id))
+      .handle("revokeApiKey", ({ path }) => authService.revokeApiKey(path.id));
+  }),
+);
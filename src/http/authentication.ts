@@ -0,0 +1,50 @@
+import { HttpServerRequest } from "@effect/platform";
+import { Effect, Exit, FiberRef, Layer, Option } from "effect";
+import { Authentication } from "../api/authentication";
+import { CurrentUser } from "../auth/current-user";
+import { DatabaseError, UnauthorizedError } from "../errors";
+import { AuthService } from "../services/auth-service";
+
+type Outcome = Exit.Exit<CurrentUser, UnauthorizedError | DatabaseError>;
+
+// How the current request authenticated, once something has authenticated it
+const requestAuthentication = FiberRef.unsafeMake<Option.Option<Outcome>>(
+  Option.none(),
+);
+
+/**
+ * Authenticates the request's credentials, unless that was already done for
+ * the request: the rate limiter, which budgets callers by their key once
+ * their address is within budget, runs first and hands its outcome on with
+ * `withAuthentication`, so the key is looked up once per request.
+ */
+export const authenticateRequest = (
+  auth: AuthService,
+  request: HttpServerRequest.HttpServerRequest,
+) =>
+  Effect.flatMap(
+    FiberRef.get(requestAuthentication),
+    Option.match({
+      onSome: (outcome) => outcome,
+      onNone: () =>
+        auth.authenticate({
+          authorization: request.headers["authorization"],
+          apiKey: request.headers["x-api-key"],
+        }),
+    }),
+  );
+
+// Runs the rest of the request with the outcome of authenticating it
+export const withAuthentication = <A, E, R>(
+  effect: Effect.Effect<A, E, R>,
+  outcome: Outcome,
+) => Effect.locally(effect, requestAuthentication, Option.some(outcome));
+
+export const AuthenticationLive = Layer.effect(
+  Authentication,
+  Effect.map(AuthService, (auth) =>
+    Effect.flatMap(HttpServerRequest.HttpServerRequest, (request) =>
+      authenticateRequest(auth, request),
+    ),
+  ),
+);
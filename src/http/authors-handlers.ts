@@ -0,0 +1,60 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { AuthorService } from "../services/author-service";
+import { includeBooks, withETag } from "./responses";
+
+export const AuthorsLive = HttpApiBuilder.group(BookstoreApi, "authors", (handlers) =>
+  Effect.gen(function* () {
+    const authorService = yield* AuthorService;
+
+    return handlers
+      .handle("listAuthors", ({ urlParams }) =>
+        Effect.gen(function* () {
+          const page = yield* authorService.listAuthors(urlParams);
+          return { ...page, items: yield* includeBooks(page.items, urlParams) };
+        }),
+      )
+      .handle("getAuthor", ({ path, urlParams }) =>
+        Effect.gen(function* () {
+          const author = yield* authorService.getAuthorById(path.id);
+          const [populated] = yield* includeBooks([author], urlParams);
+          return yield* withETag(populated);
+        }),
+      )
+      .handle("createAuthor", ({ payload }) =>
+        Effect.flatMap(authorService.createAuthor(payload), withETag),
+      )
+      .handle("updateAuthor", ({ path, headers, payload }) =>
+        Effect.flatMap(
+          authorService.updateAuthor(path.id, payload, headers["if-match"]),
+          withETag,
+        ),
+      )
+      .handle("deleteAuthor", ({ path, headers, urlParams }) =>
+        Effect.as(
+          authorService.deleteAuthor(path.id, urlParams.strategy, headers["if-match"]),
+          { message: "Author deleted successfully" },
+        ),
+      )
+      .handle("mergeAuthor", ({ path }) =>
+        Effect.flatMap(authorService.mergeAuthor(path.id, path.targetId), withETag),
+      )
+      .handle("searchAuthors", ({ path, urlParams }) =>
+        Effect.flatMap(authorService.searchAuthors(path.query), (authors) =>
+          includeBooks(authors, urlParams),
+        ),
+      )
+      .handle("getAuthorsByNationality", ({ path, urlParams }) =>
+        Effect.flatMap(
+          authorService.getAuthorsByNationality(path.nationality),
+          (authors) => includeBooks(authors, urlParams),
+        ),
+      )
+      .handle("getAuthorsByName", ({ path, urlParams }) =>
+        Effect.flatMap(authorService.getAuthorsByName(path.name), (authors) =>
+          includeBooks(authors, urlParams),
+        ),
+      );
+  }),
+);
@@ -0,0 +1,82 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { BookService } from "../services/book-service";
+import { PromotionService } from "../services/promotion-service";
+import { includeAuthors, priceIn, withETag } from "./responses";
+
+export const BooksLive = HttpApiBuilder.group(BookstoreApi, "books", (handlers) =>
+  Effect.gen(function* () {
+    const bookService = yield* BookService;
+    const promotionService = yield* PromotionService;
+
+    return handlers
+      .handle("listBooks", ({ urlParams }) =>
+        Effect.gen(function* () {
+          const page = yield* bookService.listBooks(urlParams, urlParams);
+          const items = yield* priceIn(page.items, urlParams);
+          return { ...page, items: yield* includeAuthors(items, urlParams) };
+        }),
+      )
+      .handle("getBook", ({ path, urlParams }) =>
+        Effect.gen(function* () {
+          const book = yield* bookService.getBookById(path.id);
+          const [populated] = yield* includeAuthors(
+            yield* priceIn([book], urlParams),
+            urlParams,
+          );
+          return yield* withETag(populated);
+        }),
+      )
+      .handle("createBook", ({ payload }) =>
+        Effect.flatMap(bookService.createBook(payload), withETag),
+      )
+      .handle("updateBook", ({ path, headers, payload }) =>
+        Effect.flatMap(
+          bookService.updateBook(path.id, payload, headers["if-match"]),
+          withETag,
+        ),
+      )
+      .handle("deleteBook", ({ path, headers }) =>
+        Effect.as(bookService.deleteBook(path.id, headers["if-match"]), {
+          message: "Book deleted successfully",
+        }),
+      )
+      .handle("searchBooks", ({ path, urlParams }) =>
+        Effect.flatMap(bookService.searchBooks(path.query), (books) =>
+          Effect.flatMap(priceIn(books, urlParams), (priced) =>
+            includeAuthors(priced, urlParams),
+          ),
+        ),
+      )
+      .handle("getBooksByGenre", ({ path, urlParams }) =>
+        Effect.flatMap(bookService.getBooksByGenre(path.genre), (books) =>
+          Effect.flatMap(priceIn(books, urlParams), (priced) =>
+            includeAuthors(priced, urlParams),
+          ),
+        ),
+      )
+      .handle("getBooksByAuthor", ({ path, urlParams }) =>
+        Effect.flatMap(bookService.getBooksByAuthor(path.author), (books) =>
+          Effect.flatMap(priceIn(books, urlParams), (priced) =>
+            includeAuthors(priced, urlParams),
+          ),
+        ),
+      )
+      .handle("updateStock", ({ path, payload }) =>
+        Effect.flatMap(bookService.updateStock(path.id, payload), withETag),
+      )
+      .handle("getStockHistory", ({ path }) => bookService.getStockHistory(path.id))
+      .handle("getBookAt", ({ path, urlParams }) =>
+        Effect.flatMap(
+          bookService.getBookAt(path.id, urlParams.at ?? new Date()),
+          withETag,
+        ),
+      )
+      .handle("reconcileStock", ({ path }) => bookService.reconcileStock(path.id))
+      .handle("getBookPrice", ({ path, urlParams }) =>
+        promotionService.getBookPrice(path.id, urlParams.coupon),
+      )
+      .handle("getStockDrift", () => bookService.getStockDrift());
+  }),
+);
@@ -0,0 +1,49 @@
+import { HttpApiBuilder, HttpServerResponse } from "@effect/platform";
+import { Effect, Stream } from "effect";
+import { BookstoreApi } from "../api/api";
+import { ValidationError } from "../errors";
+import {
+  CATALOG_CONTENT_TYPES,
+  CATALOG_FILE_EXTENSIONS,
+  IMPORT_FORMATS_BY_CONTENT_TYPE,
+} from "../models/catalog";
+import { CatalogService } from "../services/catalog-service";
+
+export const CatalogLive = HttpApiBuilder.group(BookstoreApi, "catalog", (handlers) =>
+  Effect.gen(function* () {
+    const catalogService = yield* CatalogService;
+
+    return handlers
+      .handle("importCatalog", ({ headers, urlParams, request }) => {
+        const contentType = headers["content-type"]?.split(";")[0].trim().toLowerCase();
+        const format =
+          urlParams.format ??
+          (contentType ? IMPORT_FORMATS_BY_CONTENT_TYPE[contentType] : undefined);
+        if (!format) {
+          return Effect.fail(
+            new ValidationError({
+              message:
+                "Unknown import format: pass ?format= or send text/csv, application/x-ndjson or application/xml",
+            }),
+          );
+        }
+        const input = Stream.mapError(
+          request.stream,
+          (error) =>
+            new ValidationError({ message: `Failed to read import file: ${error.message}` }),
+        );
+        return catalogService.importCatalog(input, format, urlParams.type);
+      })
+      // Once a streamed body has started, the status is sent and errors can only cut it short
+      .handle("exportCatalog", ({ urlParams: { format, type } }) =>
+        Effect.map(catalogService.exportCatalog(format, type), (records) =>
+          HttpServerResponse.stream(Stream.encodeText(records), {
+            contentType: CATALOG_CONTENT_TYPES[format],
+            headers: {
+              "content-disposition": `attachment; filename="${type}.${CATALOG_FILE_EXTENSIONS[format]}"`,
+            },
+          }),
+        ),
+      );
+  }),
+);
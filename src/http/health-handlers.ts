@@ -0,0 +1,35 @@
+import { HttpApiBuilder, HttpServerResponse } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { HealthService } from "../services/health-service";
+import { MetricsService } from "../services/metrics-service";
+import { PROMETHEUS_CONTENT_TYPE } from "../metrics/prometheus";
+
+export const HealthLive = HttpApiBuilder.group(BookstoreApi, "health", (handlers) =>
+  Effect.gen(function* () {
+    const health = yield* HealthService;
+    const metrics = yield* MetricsService;
+
+    return handlers
+      .handle("live", () =>
+        Effect.succeed({
+          status: "ok" as const,
+          uptimeSeconds: Math.round(process.uptime()),
+        }),
+      )
+      // Answered in full either way, and never from a cache, since the status is what callers look at
+      .handle("ready", () =>
+        Effect.map(health.checkReadiness(), (readiness) =>
+          HttpServerResponse.unsafeJson(readiness, {
+            status: readiness.status === "ready" ? 200 : 503,
+            headers: { "cache-control": "no-store" },
+          }),
+        ),
+      )
+      .handle("metrics", () =>
+        Effect.map(metrics.render(), (text) =>
+          HttpServerResponse.text(text, { contentType: PROMETHEUS_CONTENT_TYPE }),
+        ),
+      );
+  }),
+);
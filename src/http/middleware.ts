@@ -0,0 +1,264 @@
+import { randomUUID } from "crypto";
+import {
+  HttpApiBuilder,
+  HttpApiError,
+  HttpApp,
+  HttpIncomingMessage,
+  HttpMiddleware,
+  HttpServerError,
+  HttpServerRequest,
+  HttpServerRespondable,
+  HttpServerResponse,
+} from "@effect/platform";
+import { Cause, Clock, Data, Effect, Exit, Option } from "effect";
+import { AppConfig } from "../config";
+import {
+  DatabaseError,
+  NotFoundError,
+  PayloadTooLargeError,
+  RateLimitError,
+  ValidationError,
+  fromIssues,
+  toProblem,
+} from "../errors";
+import { recordRequest } from "../metrics/metrics";
+import { RateLimitStatus, RouteClass } from "../models/rate-limit";
+import { AuthService } from "../services/auth-service";
+import { HealthService } from "../services/health-service";
+import { RateLimiter } from "../services/rate-limiter";
+import { authenticateRequest, withAuthentication } from "./authentication";
+
+// Adds headers to the response, whether the request succeeds or fails
+const setHeaders = (headers: Record<string, string>) =>
+  HttpApp.appendPreResponseHandler((_, response) =>
+    Effect.succeed(HttpServerResponse.setHeaders(response, headers)),
+  );
+
+const pathOf = (request: HttpServerRequest.HttpServerRequest) =>
+  request.url.split("?")[0];
+
+// Reuses the caller's X-Request-Id when it is safe to echo
+const requestIdOf = (request: HttpServerRequest.HttpServerRequest) => {
+  const header = request.headers["x-request-id"];
+  return header && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+};
+
+// The router records the path of the endpoint it matched on the request's span
+const matchedRoute = Effect.map(Effect.option(Effect.currentSpan), (span) =>
+  Option.flatMapNullable(span, (span) => span.attributes.get("http.route")).pipe(
+    Option.map(String),
+    Option.getOrElse(() => "unmatched"),
+  ),
+);
+
+// Counts and times the request by its route, and logs it once its response is ready or the client has gone away
+const observe = <E, R>(
+  app: HttpApp.Default<E, R>,
+  request: HttpServerRequest.HttpServerRequest,
+) =>
+  Effect.flatMap(Clock.currentTimeNanos, (start) =>
+    Effect.onExit(app, (exit) =>
+      Effect.gen(function* () {
+        const nanos = Number((yield* Clock.currentTimeNanos) - start);
+        const route = yield* matchedRoute;
+        const { status } = HttpServerError.exitResponse(exit);
+        const completed = Exit.isInterrupted(exit) ? "aborted" : "completed";
+        yield* recordRequest({ method: request.method, route, status, seconds: nanos / 1e9 });
+        yield* Effect.logInfo(`${request.method} ${request.originalUrl} ${completed}`).pipe(
+          Effect.annotateLogs({
+            method: request.method,
+            route,
+            status,
+            durationMs: nanos / 1e6,
+          }),
+        );
+      }),
+    ),
+  );
+
+// Failures of the platform's own, before a handler runs, as the AppErrors they amount to
+const toAppError = (error: unknown, request: HttpServerRequest.HttpServerRequest) => {
+  if (error instanceof HttpApiError.HttpApiDecodeError) {
+    return fromIssues("Invalid request data", error.issues);
+  }
+  if (error instanceof HttpServerError.RouteNotFound) {
+    return new NotFoundError({ message: `No route for ${request.method} ${pathOf(request)}` });
+  }
+  if (error instanceof HttpServerError.RequestError && error.reason === "Decode") {
+    return new ValidationError({ message: "Invalid JSON payload" });
+  }
+  return error;
+};
+
+const rateLimitHeaders = (status: RateLimitStatus) => ({
+  "ratelimit-limit": String(status.limit),
+  "ratelimit-remaining": String(status.remaining),
+  "ratelimit-reset": String(status.resetSeconds),
+});
+
+// A 5xx response, died with rather than returned so that the request's span is marked failed
+// with the error's message; the platform sends it as it is, and HttpApi, not knowing it, leaves it be
+class ServerErrorResponse
+  extends Data.TaggedError("ServerErrorResponse")<{
+    readonly message: string;
+    readonly response: HttpServerResponse.HttpServerResponse;
+  }>
+  implements HttpServerRespondable.Respondable
+{
+  [HttpServerRespondable.symbol]() {
+    return Effect.succeed(this.response);
+  }
+}
+
+// Every failure becomes an RFC 7807 problem+json response; a 5xx is logged with its cause
+const problemDetails = <E, R>(
+  app: HttpApp.Default<E, R>,
+  request: HttpServerRequest.HttpServerRequest,
+  requestId: string,
+) =>
+  Effect.catchAllCause(app, (cause) => {
+    if (Cause.isInterruptedOnly(cause)) {
+      return Effect.failCause(Cause.stripFailures(cause));
+    }
+    const error = toAppError(Cause.squash(cause), request);
+    const problem = toProblem(error);
+    const headers: Record<string, string> = {};
+    if (problem.status === 401) {
+      headers["www-authenticate"] = 'Bearer realm="bookstore"';
+    }
+    if (error instanceof RateLimitError) {
+      Object.assign(headers, rateLimitHeaders({ ...error, remaining: 0 }), {
+        "retry-after": String(error.retryAfter),
+      });
+    }
+    // A JSON body would be sent as application/json, whatever content type it is given
+    const response = HttpServerResponse.text(
+      JSON.stringify({ ...problem, instance: request.originalUrl, requestId }),
+      { status: problem.status, contentType: "application/problem+json", headers },
+    );
+    if (problem.status < 500) {
+      return Effect.succeed(response);
+    }
+    return Effect.zipRight(
+      Effect.logError("Request failed", cause),
+      Effect.die(
+        new ServerErrorResponse({
+          message: error instanceof Error ? error.message : String(error),
+          response,
+        }),
+      ),
+    );
+  });
+
+// Paths under /api that read far more than one record per request
+const EXPENSIVE_ROUTES = [
+  /^\/search$/,
+  /^\/(books|authors)\/search\//,
+  /^\/books-with-authors(\/|$)/,
+  /^\/(import|export)$/,
+];
+
+// Embedding related records with ?include= costs as much as books-with-authors
+const routeClassOf = (path: string, query: URLSearchParams): RouteClass =>
+  EXPENSIVE_ROUTES.some((route) => route.test(path)) || query.has("include")
+    ? "expensive"
+    : "standard";
+
+/**
+ * Counts a request against the bucket of its IP address before its
+ * credentials are looked up, so that a flood of made-up keys is turned away
+ * without reaching the database; a caller whose credentials are valid is then
+ * counted against its API key's bucket as well, which its headers report.
+ * Endpoints that require credentials reuse the outcome.
+ */
+export const budgetRequest =
+  (auth: AuthService, rateLimiter: RateLimiter) =>
+  <E, R>(
+    app: HttpApp.Default<E, R>,
+    request: HttpServerRequest.HttpServerRequest,
+    routeClass: RouteClass,
+  ): HttpApp.Default<E | RateLimitError | DatabaseError, R> =>
+    Effect.gen(function* () {
+      const address = Option.getOrElse(request.remoteAddress, () => "unknown");
+      const byAddress = yield* rateLimiter.consume(routeClass, `ip:${address}`);
+      const authentication = yield* Effect.exit(authenticateRequest(auth, request));
+      const status = Exit.isSuccess(authentication)
+        ? yield* rateLimiter.consume(routeClass, `key:${authentication.value.keyId}`)
+        : byAddress;
+      yield* setHeaders(rateLimitHeaders(status));
+      return yield* withAuthentication(app, authentication);
+    });
+
+/**
+ * The global middleware, from the outside in: the request id, the access
+ * log and metrics, CORS, problem responses, draining, the body limit and
+ * rate limiting. Endpoints add authentication themselves.
+ */
+export const MiddlewareLive = HttpApiBuilder.middleware(
+  Effect.gen(function* () {
+    const { http, features } = yield* AppConfig;
+    const auth = yield* AuthService;
+    const rateLimiter = yield* RateLimiter;
+    const health = yield* HealthService;
+
+    const cors = HttpMiddleware.cors({
+      allowedOrigins: http.corsOrigins.includes("*") ? [] : http.corsOrigins,
+    });
+
+    // Clients are told not to reuse their connection, so the server can drain
+    const drain = <E, R>(app: HttpApp.Default<E, R>) =>
+      Effect.flatMap(health.isShuttingDown(), (shuttingDown) =>
+        shuttingDown ? Effect.zipRight(setHeaders({ connection: "close" }), app) : app,
+      );
+
+    // A JSON body over BODY_LIMIT is refused by its Content-Length before any of it is read
+    const limitBody = <E, R>(
+      app: HttpApp.Default<E, R>,
+      request: HttpServerRequest.HttpServerRequest,
+    ): HttpApp.Default<E | PayloadTooLargeError, R> => {
+      const contentType = request.headers["content-type"] ?? "application/json";
+      const length = Number(request.headers["content-length"] ?? 0);
+      return contentType.includes("application/json") && length > http.bodyLimit
+        ? Effect.fail(new PayloadTooLargeError({ message: "Request body is too large" }))
+        : HttpIncomingMessage.withMaxBodySize(app, Option.some(http.bodyLimit));
+    };
+
+    // Only /api is budgeted, so orchestrators and scrapers are never turned away
+    const budget = budgetRequest(auth, rateLimiter);
+    const rateLimit = <E, R>(
+      app: HttpApp.Default<E, R>,
+      request: HttpServerRequest.HttpServerRequest,
+    ): HttpApp.Default<E | RateLimitError | DatabaseError, R> => {
+      const [path, query = ""] = request.url.split("?");
+      if (!features.rateLimiting || !/^\/api(\/|$)/.test(path)) {
+        return app;
+      }
+      return budget(
+        app,
+        request,
+        routeClassOf(path.slice("/api".length), new URLSearchParams(query)),
+      );
+    };
+
+    return (app: HttpApp.Default) =>
+      Effect.flatMap(HttpServerRequest.HttpServerRequest, (request) => {
+        const requestId = requestIdOf(request);
+        return Effect.zipRight(
+          Effect.zipRight(
+            Effect.annotateCurrentSpan("request.id", requestId),
+            setHeaders({ "x-request-id": requestId }),
+          ),
+          observe(
+            cors(
+              problemDetails(
+                drain(limitBody(rateLimit(app, request), request)),
+                request,
+                requestId,
+              ),
+            ),
+            request,
+          ),
+        ).pipe(Effect.annotateLogs("requestId", requestId));
+      });
+  }),
+);
@@ -0,0 +1,19 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { OrderService } from "../services/order-service";
+
+export const OrdersLive = HttpApiBuilder.group(BookstoreApi, "orders", (handlers) =>
+  Effect.gen(function* () {
+    const orderService = yield* OrderService;
+
+    return handlers
+      .handle("listOrders", ({ urlParams }) => orderService.listOrders(urlParams))
+      .handle("getOrder", ({ path }) => orderService.getOrderById(path.id))
+      .handle("createOrder", ({ payload }) => orderService.createOrder(payload))
+      .handle("updateOrderStatus", ({ path, payload }) =>
+        orderService.updateOrderStatus(path.id, payload.status),
+      )
+      .handle("cancelOrder", ({ path }) => orderService.cancelOrder(path.id));
+  }),
+);
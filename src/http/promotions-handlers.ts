@@ -0,0 +1,36 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { PromotionService } from "../services/promotion-service";
+import { withETag } from "./responses";
+
+export const PromotionsLive = HttpApiBuilder.group(
+  BookstoreApi,
+  "promotions",
+  (handlers) =>
+    Effect.gen(function* () {
+      const promotionService = yield* PromotionService;
+
+      return handlers
+        .handle("listPromotions", ({ urlParams }) =>
+          promotionService.listPromotions(urlParams),
+        )
+        .handle("getPromotion", ({ path }) =>
+          Effect.flatMap(promotionService.getPromotionById(path.id), withETag),
+        )
+        .handle("createPromotion", ({ payload }) =>
+          Effect.flatMap(promotionService.createPromotion(payload), withETag),
+        )
+        .handle("updatePromotion", ({ path, headers, payload }) =>
+          Effect.flatMap(
+            promotionService.updatePromotion(path.id, payload, headers["if-match"]),
+            withETag,
+          ),
+        )
+        .handle("deletePromotion", ({ path, headers }) =>
+          Effect.as(promotionService.deletePromotion(path.id, headers["if-match"]), {
+            message: "Promotion deleted successfully",
+          }),
+        );
+    }),
+);
@@ -0,0 +1,54 @@
+import { HttpApp, HttpServerResponse } from "@effect/platform";
+import { Effect } from "effect";
+import { AuthorId, AuthorInclude } from "../models/author";
+import { BookInclude } from "../models/book";
+import { CurrencyQuery, Money } from "../models/money";
+import { PopulationService } from "../services/population-service";
+import { PricingService } from "../services/pricing-service";
+
+// Embeds the authors of each book when ?include=authors is given
+export const includeAuthors = <B extends { readonly authorIds?: ReadonlyArray<AuthorId> }>(
+  books: ReadonlyArray<B>,
+  { include }: BookInclude,
+) =>
+  include?.includes("authors")
+    ? Effect.flatMap(PopulationService, (population) => population.withAuthors(books))
+    : Effect.succeed(books);
+
+// Shows each book's price in another currency when ?currency= is given
+export const priceIn = <
+  B extends {
+    readonly price?: Money;
+    readonly listPrices?: ReadonlyArray<Money>;
+  },
+>(
+  books: ReadonlyArray<B>,
+  { currency }: CurrencyQuery,
+) =>
+  currency
+    ? Effect.flatMap(PricingService, (pricing) =>
+        pricing.withPricesIn(books, currency),
+      )
+    : Effect.succeed(books);
+
+// Embeds the books of each author when ?include=books is given
+export const includeBooks = <A extends { readonly _id?: AuthorId }>(
+  authors: ReadonlyArray<A>,
+  { include }: AuthorInclude,
+) =>
+  include?.includes("books")
+    ? Effect.flatMap(PopulationService, (population) => population.withBooks(authors))
+    : Effect.succeed(authors);
+
+// Versioned records carry their version as an ETag for use in If-Match
+export const withETag = <R extends { readonly version?: number }>(record: R) =>
+  record.version === undefined
+    ? Effect.succeed(record)
+    : Effect.as(
+        HttpApp.appendPreResponseHandler((_, response) =>
+          Effect.succeed(
+            HttpServerResponse.setHeader(response, "etag", `"${record.version}"`),
+          ),
+        ),
+        record,
+      );
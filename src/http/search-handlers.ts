@@ -0,0 +1,33 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { BookService } from "../services/book-service";
+import { PopulationService } from "../services/population-service";
+import { SearchService } from "../services/search-service";
+import { priceIn, withETag } from "./responses";
+
+export const SearchLive = HttpApiBuilder.group(BookstoreApi, "search", (handlers) =>
+  Effect.gen(function* () {
+    const searchService = yield* SearchService;
+    const bookService = yield* BookService;
+    const population = yield* PopulationService;
+
+    return handlers
+      .handle("search", ({ urlParams }) => searchService.search(urlParams))
+      .handle("listBooksWithAuthors", ({ urlParams }) =>
+        Effect.gen(function* () {
+          const books = yield* bookService.getAllBooks();
+          return yield* population.withAuthors(yield* priceIn(books, urlParams));
+        }),
+      )
+      .handle("getBookWithAuthors", ({ path, urlParams }) =>
+        Effect.gen(function* () {
+          const book = yield* bookService.getBookById(path.id);
+          const [populated] = yield* population.withAuthors(
+            yield* priceIn([book], urlParams),
+          );
+          return yield* withETag(populated);
+        }),
+      );
+  }),
+);
@@ -0,0 +1,12 @@
+import { HttpApiBuilder, HttpServerResponse } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+
+// Shipped with the server, so failing to read it is a defect rather than a missing page
+const index = () => Effect.orDie(HttpServerResponse.file("public/index.html"));
+
+export const SiteLive = HttpApiBuilder.group(BookstoreApi, "site", (handlers) =>
+  handlers
+    .handle("index", index)
+    .handle("indexFile", index),
+);
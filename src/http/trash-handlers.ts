@@ -0,0 +1,37 @@
+import { HttpApiBuilder } from "@effect/platform";
+import { Effect } from "effect";
+import { BookstoreApi } from "../api/api";
+import { AuthorService } from "../services/author-service";
+import { BookService } from "../services/book-service";
+import { withETag } from "./responses";
+
+export const TrashLive = HttpApiBuilder.group(BookstoreApi, "trash", (handlers) =>
+  Effect.gen(function* () {
+    const bookService = yield* BookService;
+    const authorService = yield* AuthorService;
+
+    return handlers
+      .handle("listTrash", () =>
+        Effect.all({
+          books: bookService.getDeletedBooks(),
+          authors: authorService.getDeletedAuthors(),
+        }),
+      )
+      .handle("restoreBook", ({ path }) =>
+        Effect.flatMap(bookService.restoreBook(path.id), withETag),
+      )
+      .handle("restoreAuthor", ({ path }) =>
+        Effect.flatMap(authorService.restoreAuthor(path.id), withETag),
+      )
+      .handle("purgeBook", ({ path }) =>
+        Effect.as(bookService.purgeBook(path.id), {
+          message: "Book purged successfully",
+        }),
+      )
+      .handle("purgeAuthor", ({ path }) =>
+        Effect.as(authorService.purgeAuthor(path.id), {
+          message: "Author purged successfully",
+        }),
+      );
+  }),
+);
@@ -0,0 +1,50 @@
+import {
+  Context,
+  Effect,
+  FiberRef,
+  FiberRefs,
+  Layer,
+  Logger,
+  Option,
+  Tracer,
+} from "effect";
+import { AppConfig } from "../config";
+
+/**
+ * One JSON object per line: the time, level and message, the log's
+ * annotations, such as the request id, and the ids of the trace and span
+ * it was written in, so that a trace leads to its logs and back.
+ */
+export const jsonLogger = Logger.make((options) => {
+  const { timestamp, logLevel, message, cause, annotations, spans } =
+    Logger.structuredLogger.log(options);
+  const span = Context.getOption(
+    FiberRefs.getOrDefault(options.context, FiberRef.currentContext),
+    Tracer.ParentSpan,
+  );
+
+  globalThis.console.log(
+    JSON.stringify({
+      timestamp,
+      level: logLevel,
+      message,
+      ...annotations,
+      ...Option.match(span, {
+        onNone: () => ({}),
+        onSome: ({ traceId, spanId }) => ({ traceId, spanId }),
+      }),
+      ...(Object.keys(spans).length > 0 ? { spans } : {}),
+      ...(cause !== undefined ? { cause } : {}),
+    }),
+  );
+});
+
+// LOG_FORMAT=pretty swaps the JSON lines for Effect's coloured, multi-line format
+export const LoggerLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, ({ logFormat }) =>
+    Logger.replace(
+      Logger.defaultLogger,
+      logFormat === "json" ? jsonLogger : Logger.prettyLoggerDefault,
+    ),
+  ),
+);
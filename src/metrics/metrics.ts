@@ -0,0 +1,55 @@
+import { Effect, Metric, MetricBoundaries } from "effect";
+
+/**
+ * The application's metrics. They live in Effect's global registry, so they
+ * can be updated from anywhere, the HTTP middleware included, and are all
+ * read by Metric.snapshot when /metrics is scraped.
+ */
+
+// Prometheus' default buckets, in seconds
+const LATENCY_BOUNDARIES = MetricBoundaries.fromIterable([
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+]);
+
+export const httpRequestsTotal = Metric.counter("http_requests_total", {
+  description: "HTTP requests handled, by method, route and status",
+});
+
+export const httpRequestDuration = Metric.histogram(
+  "http_request_duration_seconds",
+  LATENCY_BOUNDARIES,
+  "Time to handle an HTTP request, by method, route and status",
+);
+
+export const mongoOperationDuration = Metric.histogram(
+  "mongodb_operation_duration_seconds",
+  LATENCY_BOUNDARIES,
+  "Time taken by a repository method, by repository, method and outcome",
+);
+
+export const booksTotal = Metric.gauge("bookstore_books_total", {
+  description: "Books in the catalog, not counting the trash",
+});
+
+export const booksOutOfStock = Metric.gauge("bookstore_books_out_of_stock", {
+  description: "Books in the catalog with no stock left",
+});
+
+// `route` is the path of the matched endpoint, e.g. /api/books/:id, so ids do not make a series each
+export const recordRequest = (request: {
+  readonly method: string;
+  readonly route: string;
+  readonly status: number;
+  readonly seconds: number;
+}) => {
+  const tagged = <Type, In, Out>(metric: Metric.Metric<Type, In, Out>) =>
+    metric.pipe(
+      Metric.tagged("method", request.method),
+      Metric.tagged("route", request.route),
+      Metric.tagged("status", String(request.status)),
+    );
+  return Effect.zipRight(
+    Metric.increment(tagged(httpRequestsTotal)),
+    Metric.update(tagged(httpRequestDuration), request.seconds),
+  );
+};
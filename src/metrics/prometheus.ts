@@ -0,0 +1,113 @@
+import { MetricKey, MetricPair, MetricState, Option } from "effect";
+
+/**
+ * Renders a metrics snapshot in the Prometheus text exposition format:
+ * https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+type Labels = ReadonlyArray<readonly [string, string]>;
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) =>
+  labels.length === 0
+    ? ""
+    : `{${labels.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(",")}}`;
+
+const formatValue = (value: number | bigint) =>
+  typeof value === "bigint"
+    ? value.toString()
+    : Number.isNaN(value)
+      ? "NaN"
+      : value === Infinity
+        ? "+Inf"
+        : value === -Infinity
+          ? "-Inf"
+          : String(value);
+
+const sample = (name: string, labels: Labels, value: number | bigint) =>
+  `${name}${formatLabels(labels)} ${formatValue(value)}`;
+
+const typeOf = (state: MetricState.MetricState.Untyped) =>
+  MetricState.isCounterState(state) || MetricState.isFrequencyState(state)
+    ? "counter"
+    : MetricState.isGaugeState(state)
+      ? "gauge"
+      : MetricState.isHistogramState(state)
+        ? "histogram"
+        : "summary";
+
+const samples = (
+  name: string,
+  labels: Labels,
+  state: MetricState.MetricState.Untyped,
+): ReadonlyArray<string> => {
+  if (MetricState.isCounterState(state)) {
+    return [sample(name, labels, state.count)];
+  }
+  if (MetricState.isGaugeState(state)) {
+    return [sample(name, labels, state.value)];
+  }
+  if (MetricState.isFrequencyState(state)) {
+    return [...state.occurrences].map(([key, count]) =>
+      sample(name, [...labels, ["key", key]], count),
+    );
+  }
+  if (MetricState.isHistogramState(state)) {
+    // Effect's bucket counts are already cumulative and end with the +Inf bucket
+    return [
+      ...state.buckets.map(([boundary, count]) =>
+        sample(`${name}_bucket`, [...labels, ["le", formatValue(boundary)]], count),
+      ),
+      sample(`${name}_sum`, labels, state.sum),
+      sample(`${name}_count`, labels, state.count),
+    ];
+  }
+  if (MetricState.isSummaryState(state)) {
+    return [
+      ...state.quantiles.flatMap(([quantile, value]) =>
+        Option.match(value, {
+          onNone: () => [],
+          onSome: (value) => [
+            sample(name, [...labels, ["quantile", String(quantile)]], value),
+          ],
+        }),
+      ),
+      sample(`${name}_sum`, labels, state.sum),
+      sample(`${name}_count`, labels, state.count),
+    ];
+  }
+  return [];
+};
+
+const describe = (key: MetricKey.MetricKey.Untyped) =>
+  Option.getOrElse(key.description, () => key.name).replace(/\\/g, "\\\\").replace(/\n/g, "\\n");
+
+// Series of one metric, differing only in their tags, are listed together under one HELP and TYPE
+export const toPrometheus = (
+  snapshot: ReadonlyArray<MetricPair.MetricPair.Untyped>,
+): string => {
+  const byName = new Map<string, Array<MetricPair.MetricPair.Untyped>>();
+  for (const pair of snapshot) {
+    const name = pair.metricKey.name;
+    byName.set(name, [...(byName.get(name) ?? []), pair]);
+  }
+
+  const lines = [...byName]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([name, pairs]) => [
+      `# HELP ${name} ${describe(pairs[0].metricKey)}`,
+      `# TYPE ${name} ${typeOf(pairs[0].metricState)}`,
+      ...pairs.flatMap(({ metricKey, metricState }) =>
+        samples(
+          name,
+          metricKey.tags.map((tag) => [tag.key, tag.value] as const),
+          metricState,
+        ),
+      ),
+    ]);
+  return `${lines.join("\n")}\n`;
+};
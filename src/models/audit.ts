@@ -0,0 +1,98 @@
+import { Schema } from "effect";
+import { makeListQuery } from "./query";
+
+export const AuditEntity = Schema.Literal("book", "author");
+export type AuditEntity = typeof AuditEntity.Type;
+
+/**
+ * `stock` is a change of stock alone, through a stock update or an order;
+ * `merge` is an author moved to the trash by merging it into another.
+ */
+export const AuditAction = Schema.Literal(
+  "create",
+  "update",
+  "delete",
+  "merge",
+  "restore",
+  "purge",
+  "stock",
+);
+export type AuditAction = typeof AuditAction.Type;
+
+// A field missing on one side was unset before or after the change
+export const FieldChange = Schema.Struct({
+  field: Schema.String,
+  before: Schema.optional(Schema.Unknown),
+  after: Schema.optional(Schema.Unknown),
+});
+
+export type FieldChange = typeof FieldChange.Type;
+
+export const AuditEntry = Schema.Struct({
+  _id: Schema.String,
+  entity: AuditEntity,
+  entityId: Schema.String,
+  action: AuditAction,
+  // Who made the change: the name to show, their ownerId and the key they used
+  actor: Schema.String,
+  actorId: Schema.optional(Schema.String),
+  keyId: Schema.optional(Schema.String),
+  changes: Schema.Array(FieldChange),
+  // The record's version once the change was made, for versioned changes
+  version: Schema.optional(Schema.Number),
+  timestamp: Schema.Date,
+});
+
+export type AuditEntry = typeof AuditEntry.Type;
+
+// What a service reports, with `at` the moment of the write; the actor is filled in on write
+export interface AuditChange {
+  readonly entity: AuditEntity;
+  readonly entityId: string;
+  readonly action: AuditAction;
+  readonly before?: object;
+  readonly after?: object;
+  readonly at: Date;
+}
+
+export const AuditListQuery = makeListQuery([
+  "entity",
+  "entityId",
+  "action",
+  "actor",
+  "actorId",
+  "keyId",
+  "changes",
+  "version",
+  "timestamp",
+]);
+
+export type AuditListQuery = typeof AuditListQuery.Type;
+
+export const AuditFilter = Schema.Struct({
+  entity: Schema.optional(AuditEntity),
+  id: Schema.optional(Schema.NonEmptyString),
+  // The ownerId of whoever made the changes
+  actorId: Schema.optional(Schema.NonEmptyString),
+  from: Schema.optional(Schema.Date),
+  to: Schema.optional(Schema.Date),
+}).pipe(
+  Schema.filter(
+    (filter) =>
+      filter.from === undefined ||
+      filter.to === undefined ||
+      filter.from <= filter.to || {
+        path: ["to"],
+        message: "to must not be earlier than from",
+      },
+  ),
+);
+
+export type AuditFilter = typeof AuditFilter.Type;
+
+// Without `at`, the history endpoint returns the current state
+export const HistoryQuery = Schema.Struct({
+  at: Schema.optional(Schema.Date),
+});
+
+export type HistoryQuery = typeof HistoryQuery.Type;
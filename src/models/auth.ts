@@ -0,0 +1,84 @@
+import { Schema } from "effect";
+import { ObjectIdString, RequiredText } from "./fields";
+
+/**
+ * What a caller may do: viewers read and place orders, editors maintain
+ * books, authors and promotions, inventory clerks adjust stock and fulfil
+ * orders, and admins may do anything, including deleting and issuing API
+ * keys. The permissions of each role are declared by the services.
+ */
+export const Role = Schema.Literal("viewer", "editor", "clerk", "admin");
+export type Role = typeof Role.Type;
+
+export const ApiKeyId = ObjectIdString.pipe(Schema.brand("ApiKeyId"));
+export type ApiKeyId = typeof ApiKeyId.Type;
+
+/**
+ * An API key as the API shows it. Only a SHA-256 hash of the key itself is
+ * stored, so a key can be shown once, when it is issued, and never again;
+ * `hint` holds its last few characters to tell keys apart.
+ */
+export const ApiKey = Schema.Struct({
+  _id: ApiKeyId,
+  name: Schema.String,
+  // Who callers using the key act as, and with which role
+  owner: Schema.String,
+  // The first key issued to the owner, which identifies them; owner names need not be unique
+  ownerId: ApiKeyId,
+  role: Role,
+  hint: Schema.String,
+  createdAt: Schema.Date,
+  revokedAt: Schema.optional(Schema.Date),
+  // The key that replaced this one when it was rotated
+  replacedBy: Schema.optional(ApiKeyId),
+});
+
+export type ApiKey = typeof ApiKey.Type;
+
+// An API key together with its secret, returned only when it is issued
+export const IssuedApiKey = Schema.Struct({
+  apiKey: ApiKey,
+  key: Schema.String,
+});
+
+export type IssuedApiKey = typeof IssuedApiKey.Type;
+
+export const AccessToken = Schema.Struct({
+  accessToken: Schema.String,
+  tokenType: Schema.Literal("Bearer"),
+  // Seconds until the token expires
+  expiresIn: Schema.Number,
+});
+
+export type AccessToken = typeof AccessToken.Type;
+
+// Who a request's credentials identify, as GET /api/auth/me shows them
+export const Caller = Schema.Struct({
+  name: Schema.String,
+  role: Role,
+  // The API key the caller presented, directly or through a token
+  keyId: ApiKeyId,
+  // Who the caller is: the ownerId of their keys
+  ownerId: ApiKeyId,
+  method: Schema.Literal("api-key", "token"),
+});
+
+export type Caller = typeof Caller.Type;
+
+// Who made a change: the ids its record is kept under, and a name to show
+export type Actor = Pick<Caller, "name" | "ownerId" | "keyId">;
+
+export const CreateApiKeyRequest = Schema.Struct({
+  name: RequiredText,
+  // Defaults to the caller; a key issued with an owner starts a new one
+  owner: Schema.optional(RequiredText),
+  role: Schema.optionalWith(Role, { default: () => "viewer" as const }),
+});
+
+export type CreateApiKeyRequest = typeof CreateApiKeyRequest.Type;
+
+export const LoginRequest = Schema.Struct({
+  apiKey: RequiredText,
+});
+
+export type LoginRequest = typeof LoginRequest.Type;
@@ -1,6 +1,8 @@
 import { Schema } from "effect"
+import { HttpUrl, ObjectIdString, PastDate, RequiredText } from "./fields"
+import { CommaSeparated, makeListQuery } from "./query"
 
-export const AuthorId = Schema.String.pipe(Schema.brand("AuthorId"))
+export const AuthorId = ObjectIdString.pipe(Schema.brand("AuthorId"))
 export type AuthorId = typeof AuthorId.Type
 
 export const Author = Schema.Struct({
@@ -19,46 +21,84 @@ export const Author = Schema.Struct({
     linkedin: Schema.optional(Schema.String)
   })),
   profileImageUrl: Schema.optional(Schema.String),
+  version: Schema.optional(Schema.Number),
   createdAt: Schema.optional(Schema.Date),
-  updatedAt: Schema.optional(Schema.Date)
+  updatedAt: Schema.optional(Schema.Date),
+  deletedAt: Schema.optional(Schema.Date),
+  // Who moved them to the trash: the name to show, and their ownerId
+  deletedBy: Schema.optional(Schema.String),
+  deletedById: Schema.optional(Schema.String)
 })
 
 export type Author = typeof Author.Type
 
+const SocialLinks = Schema.Struct({
+  twitter: Schema.optional(HttpUrl),
+  facebook: Schema.optional(HttpUrl),
+  instagram: Schema.optional(HttpUrl),
+  linkedin: Schema.optional(HttpUrl)
+})
+
 export const CreateAuthorRequest = Schema.Struct({
-  firstName: Schema.String,
-  lastName: Schema.String,
-  fullName: Schema.String,
+  firstName: RequiredText,
+  lastName: RequiredText,
+  fullName: RequiredText,
   biography: Schema.optional(Schema.String),
-  birthDate: Schema.optional(Schema.Date),
-  nationality: Schema.optional(Schema.String),
-  website: Schema.optional(Schema.String),
-  socialLinks: Schema.optional(Schema.Struct({
-    twitter: Schema.optional(Schema.String),
-    facebook: Schema.optional(Schema.String),
-    instagram: Schema.optional(Schema.String),
-    linkedin: Schema.optional(Schema.String)
-  })),
-  profileImageUrl: Schema.optional(Schema.String)
+  birthDate: Schema.optional(PastDate),
+  nationality: Schema.optional(RequiredText),
+  website: Schema.optional(HttpUrl),
+  socialLinks: Schema.optional(SocialLinks),
+  profileImageUrl: Schema.optional(HttpUrl)
 })
 
 export type CreateAuthorRequest = typeof CreateAuthorRequest.Type
 
 export const UpdateAuthorRequest = Schema.Struct({
-  firstName: Schema.optional(Schema.String),
-  lastName: Schema.optional(Schema.String),
-  fullName: Schema.optional(Schema.String),
+  firstName: Schema.optional(RequiredText),
+  lastName: Schema.optional(RequiredText),
+  fullName: Schema.optional(RequiredText),
   biography: Schema.optional(Schema.String),
-  birthDate: Schema.optional(Schema.Date),
-  nationality: Schema.optional(Schema.String),
-  website: Schema.optional(Schema.String),
-  socialLinks: Schema.optional(Schema.Struct({
-    twitter: Schema.optional(Schema.String),
-    facebook: Schema.optional(Schema.String),
-    instagram: Schema.optional(Schema.String),
-    linkedin: Schema.optional(Schema.String)
-  })),
-  profileImageUrl: Schema.optional(Schema.String)
+  birthDate: Schema.optional(PastDate),
+  nationality: Schema.optional(RequiredText),
+  website: Schema.optional(HttpUrl),
+  socialLinks: Schema.optional(SocialLinks),
+  profileImageUrl: Schema.optional(HttpUrl)
 })
 
 export type UpdateAuthorRequest = typeof UpdateAuthorRequest.Type
+
+export const AuthorListQuery = makeListQuery([
+  "firstName",
+  "lastName",
+  "fullName",
+  "biography",
+  "birthDate",
+  "nationality",
+  "website",
+  "socialLinks",
+  "profileImageUrl",
+  "version",
+  "createdAt",
+  "updatedAt",
+])
+
+export type AuthorListQuery = typeof AuthorListQuery.Type
+
+// What happens to books that still reference an author being deleted
+export const AuthorDeleteStrategy = Schema.Literal("restrict", "detach", "cascade")
+export type AuthorDeleteStrategy = typeof AuthorDeleteStrategy.Type
+
+export const DeleteAuthorQuery = Schema.Struct({
+  strategy: Schema.optionalWith(AuthorDeleteStrategy, {
+    default: () => "restrict" as const
+  })
+})
+
+export type DeleteAuthorQuery = typeof DeleteAuthorQuery.Type
+
+// Relations that author endpoints can embed via ?include=
+export const AuthorInclude = Schema.Struct({
+  include: Schema.optional(CommaSeparated(Schema.Literal("books")))
+})
+
+export type AuthorInclude = typeof AuthorInclude.Type
@@ -1,47 +1,156 @@
 import { Schema } from "effect";
 import { AuthorId } from "./author";
+import { ObjectIdString, PastDate, RequiredText } from "./fields";
+import { Isbn } from "./isbn";
+import { Money, PositiveMoney, STORE_CURRENCY } from "./money";
+import { CommaSeparated, makeListQuery } from "./query";
 
-export const BookId = Schema.String.pipe(Schema.brand("BookId"));
+export const BookId = ObjectIdString.pipe(Schema.brand("BookId"));
 export type BookId = typeof BookId.Type;
 
 export const Book = Schema.Struct({
   _id: Schema.optional(BookId),
   title: Schema.String,
   authorIds: Schema.Array(AuthorId),
-  isbn: Schema.String,
-  price: Schema.Number,
+  isbn: Isbn,
+  price: Money,
+  // The book's own prices in other currencies, used instead of converting
+  listPrices: Schema.optional(Schema.Array(Money)),
   stock: Schema.Number,
   genre: Schema.String,
   description: Schema.optional(Schema.String),
   publishedDate: Schema.optional(Schema.Date),
+  version: Schema.optional(Schema.Number),
   createdAt: Schema.optional(Schema.Date),
   updatedAt: Schema.optional(Schema.Date),
+  deletedAt: Schema.optional(Schema.Date),
+  // Who moved it to the trash: the name to show, and their ownerId
+  deletedBy: Schema.optional(Schema.String),
+  deletedById: Schema.optional(Schema.String),
 });
 
 export type Book = typeof Book.Type;
 
+export const Price = PositiveMoney.pipe(
+  Schema.filter((money) => money.currency === STORE_CURRENCY, {
+    message: () =>
+      `must be in ${STORE_CURRENCY}; give prices in other currencies as listPrices`,
+  }),
+);
+
+export const ListPrices = Schema.Array(PositiveMoney).pipe(
+  Schema.filter((prices) => {
+    const currencies = prices.map((price) => price.currency);
+    return (
+      new Set(currencies).size === currencies.length ||
+      "must not list a currency more than once"
+    );
+  }),
+);
+
+export const Stock = Schema.Number.pipe(
+  Schema.int({ message: () => "must be a whole number" }),
+  Schema.nonNegative({ message: () => "must not be negative" }),
+);
+
+const BookAuthorIds = Schema.Array(AuthorId).pipe(
+  Schema.minItems(1, { message: () => "must list at least one author" }),
+);
+
 export const CreateBookRequest = Schema.Struct({
-  title: Schema.String,
-  authorIds: Schema.Array(AuthorId),
-  isbn: Schema.String,
-  price: Schema.Number,
-  stock: Schema.Number,
-  genre: Schema.String,
+  title: RequiredText,
+  authorIds: BookAuthorIds,
+  isbn: Isbn,
+  price: Price,
+  listPrices: Schema.optional(ListPrices),
+  stock: Stock,
+  genre: RequiredText,
   description: Schema.optional(Schema.String),
-  publishedDate: Schema.optional(Schema.Date),
+  publishedDate: Schema.optional(PastDate),
 });
 
 export type CreateBookRequest = typeof CreateBookRequest.Type;
 
 export const UpdateBookRequest = Schema.Struct({
-  title: Schema.optional(Schema.String),
-  authorIds: Schema.optional(Schema.Array(AuthorId)),
-  isbn: Schema.optional(Schema.String),
-  price: Schema.optional(Schema.Number),
-  stock: Schema.optional(Schema.Number),
-  genre: Schema.optional(Schema.String),
+  title: Schema.optional(RequiredText),
+  authorIds: Schema.optional(BookAuthorIds),
+  isbn: Schema.optional(Isbn),
+  price: Schema.optional(Price),
+  listPrices: Schema.optional(ListPrices),
+  stock: Schema.optional(Stock),
+  genre: Schema.optional(RequiredText),
   description: Schema.optional(Schema.String),
-  publishedDate: Schema.optional(Schema.Date),
+  publishedDate: Schema.optional(PastDate),
 });
 
 export type UpdateBookRequest = typeof UpdateBookRequest.Type;
+
+export const BookListQuery = makeListQuery([
+  "title",
+  "authorIds",
+  "isbn",
+  "price",
+  "listPrices",
+  "stock",
+  "genre",
+  "description",
+  "publishedDate",
+  "version",
+  "createdAt",
+  "updatedAt",
+]);
+
+export type BookListQuery = typeof BookListQuery.Type;
+
+const NonNegativeFromString = Schema.NumberFromString.pipe(Schema.nonNegative());
+
+// Price bounds are in major units of the store currency
+export const BookFilter = Schema.Struct({
+  minPrice: Schema.optional(NonNegativeFromString),
+  maxPrice: Schema.optional(NonNegativeFromString),
+  minStock: Schema.optional(NonNegativeFromString.pipe(Schema.int())),
+  maxStock: Schema.optional(NonNegativeFromString.pipe(Schema.int())),
+  publishedAfter: Schema.optional(Schema.Date),
+  publishedBefore: Schema.optional(Schema.Date),
+  genre: Schema.optional(CommaSeparated(Schema.NonEmptyString)),
+  authorIds: Schema.optional(CommaSeparated(AuthorId)),
+  isbnPrefix: Schema.optional(Schema.NonEmptyString),
+}).pipe(
+  Schema.filter((filter) => {
+    const issues: Array<Schema.FilterIssue> = [];
+    if (
+      filter.minPrice !== undefined &&
+      filter.maxPrice !== undefined &&
+      filter.minPrice > filter.maxPrice
+    ) {
+      issues.push({ path: ["maxPrice"], message: "maxPrice must not be less than minPrice" });
+    }
+    if (
+      filter.minStock !== undefined &&
+      filter.maxStock !== undefined &&
+      filter.minStock > filter.maxStock
+    ) {
+      issues.push({ path: ["maxStock"], message: "maxStock must not be less than minStock" });
+    }
+    if (
+      filter.publishedAfter !== undefined &&
+      filter.publishedBefore !== undefined &&
+      filter.publishedAfter > filter.publishedBefore
+    ) {
+      issues.push({
+        path: ["publishedBefore"],
+        message: "publishedBefore must not be earlier than publishedAfter",
+      });
+    }
+    return issues;
+  }),
+);
+
+export type BookFilter = typeof BookFilter.Type;
+
+// Relations that book endpoints can embed via ?include=
+export const BookInclude = Schema.Struct({
+  include: Schema.optional(CommaSeparated(Schema.Literal("authors"))),
+});
+
+export type BookInclude = typeof BookInclude.Type;
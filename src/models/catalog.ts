@@ -0,0 +1,180 @@
+import { Schema } from "effect";
+import { Author, AuthorId, CreateAuthorRequest } from "./author";
+import { Book, CreateBookRequest, Price, Stock } from "./book";
+import { RequiredText } from "./fields";
+import { ValidationIssue } from "../errors";
+
+export const CatalogFormat = Schema.Literal("csv", "ndjson", "onix");
+export type CatalogFormat = typeof CatalogFormat.Type;
+
+export const CatalogType = Schema.Literal("books", "authors");
+export type CatalogType = typeof CatalogType.Type;
+
+export const ImportQuery = Schema.Struct({
+  // Falls back to the request's Content-Type when omitted
+  format: Schema.optional(CatalogFormat),
+  // ONIX feeds always describe books; their contributors are imported as authors
+  type: Schema.optionalWith(CatalogType, { default: () => "books" as const }),
+});
+
+export type ImportQuery = typeof ImportQuery.Type;
+
+export const ExportQuery = Schema.Struct({
+  format: Schema.optionalWith(CatalogFormat, {
+    default: () => "ndjson" as const,
+  }),
+  type: Schema.optionalWith(CatalogType, { default: () => "books" as const }),
+});
+
+export type ExportQuery = typeof ExportQuery.Type;
+
+const BookImportFields = {
+  ...CreateBookRequest.fields,
+  authorIds: Schema.optionalWith(Schema.Array(AuthorId), { default: () => [] }),
+  authors: Schema.optionalWith(Schema.Array(RequiredText), {
+    default: () => [],
+  }),
+};
+
+const hasAuthor = (row: {
+  readonly authorIds: ReadonlyArray<AuthorId>;
+  readonly authors: ReadonlyArray<string>;
+}) =>
+  row.authorIds.length + row.authors.length > 0 || {
+    path: ["authors"],
+    message: "must list at least one author by id or name",
+  };
+
+/**
+ * A book as it appears in an import file. Authors may be given by id, by
+ * full name, or both; names are resolved against existing authors.
+ */
+export const BookImportRow = Schema.Struct(BookImportFields).pipe(Schema.filter(hasAuthor));
+
+export type BookImportRow = typeof BookImportRow.Type;
+
+const SemicolonSeparated = <A>(item: Schema.Schema<A, string>) =>
+  Schema.compose(
+    Schema.split(";"),
+    Schema.Array(Schema.compose(Schema.Trim, item)),
+    { strict: false },
+  );
+
+// CSV cells are all strings: numbers are parsed and lists are separated by ";"
+export const BookCsvRow = Schema.Struct({
+  ...BookImportFields,
+  authorIds: Schema.optionalWith(SemicolonSeparated(AuthorId), {
+    default: () => [],
+  }),
+  authors: Schema.optionalWith(SemicolonSeparated(RequiredText), {
+    default: () => [],
+  }),
+  price: Schema.compose(Schema.NumberFromString, Price),
+  stock: Schema.compose(Schema.NumberFromString, Stock),
+}).pipe(Schema.filter(hasAuthor));
+
+export const AuthorImportRow = CreateAuthorRequest;
+
+/**
+ * Exports are built from the stored models rather than the import schemas,
+ * so records saved before a validation rule was added still export. Books
+ * name their authors rather than referencing ids, so files load into any
+ * catalog.
+ */
+export const BookExportRow = Schema.Struct({
+  ...Book.pick(
+    "isbn",
+    "title",
+    "price",
+    "listPrices",
+    "stock",
+    "genre",
+    "description",
+    "publishedDate",
+  ).fields,
+  authors: Schema.Array(Schema.String),
+});
+
+export const AuthorExportRow = Author.pick(
+  "firstName",
+  "lastName",
+  "fullName",
+  "biography",
+  "birthDate",
+  "nationality",
+  "website",
+  "socialLinks",
+  "profileImageUrl",
+);
+
+// price is in major units of the store currency; listPrices is nested and
+// only round-trips through NDJSON and ONIX
+export const BOOK_CSV_COLUMNS = [
+  "isbn",
+  "title",
+  "authors",
+  "price",
+  "stock",
+  "genre",
+  "description",
+  "publishedDate",
+] as const;
+
+// socialLinks is nested and only round-trips through NDJSON
+export const AUTHOR_CSV_COLUMNS = [
+  "fullName",
+  "firstName",
+  "lastName",
+  "biography",
+  "birthDate",
+  "nationality",
+  "website",
+  "profileImageUrl",
+] as const;
+
+export const ImportRowStatus = Schema.Literal("created", "updated", "rejected");
+export type ImportRowStatus = typeof ImportRowStatus.Type;
+
+export const ImportRowResult = Schema.Struct({
+  // 1-based position of the record in the file, not counting a CSV header
+  row: Schema.Number,
+  status: ImportRowStatus,
+  id: Schema.optional(Schema.String),
+  message: Schema.optional(Schema.String),
+  // The invalid fields of a record rejected by validation
+  issues: Schema.optional(Schema.Array(ValidationIssue)),
+});
+
+export type ImportRowResult = typeof ImportRowResult.Type;
+
+export const ImportReport = Schema.Struct({
+  format: CatalogFormat,
+  type: CatalogType,
+  created: Schema.Number,
+  updated: Schema.Number,
+  rejected: Schema.Number,
+  rows: Schema.Array(ImportRowResult),
+});
+
+export type ImportReport = typeof ImportReport.Type;
+
+export const CATALOG_CONTENT_TYPES: Record<CatalogFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  ndjson: "application/x-ndjson",
+  onix: "application/xml",
+};
+
+export const CATALOG_FILE_EXTENSIONS: Record<CatalogFormat, string> = {
+  csv: "csv",
+  ndjson: "ndjson",
+  onix: "xml",
+};
+
+// Import formats recognised from the Content-Type when ?format= is omitted
+export const IMPORT_FORMATS_BY_CONTENT_TYPE: Record<string, CatalogFormat> = {
+  "text/csv": "csv",
+  "application/x-ndjson": "ndjson",
+  "application/jsonl": "ndjson",
+  "application/xml": "onix",
+  "text/xml": "onix",
+};
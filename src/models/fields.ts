@@ -0,0 +1,34 @@
+import { Schema } from "effect";
+
+// Leading and trailing whitespace is dropped before checking for emptiness
+export const RequiredText = Schema.Trim.pipe(
+  Schema.nonEmptyString({ message: () => "must not be empty" }),
+);
+
+export const HttpUrl = Schema.Trim.pipe(
+  Schema.filter(
+    (value) => {
+      try {
+        const { protocol } = new URL(value);
+        return protocol === "http:" || protocol === "https:";
+      } catch {
+        return false;
+      }
+    },
+    { message: () => "must be an http or https URL" },
+  ),
+);
+
+// Dates of things that have already happened, such as births
+export const PastDate = Schema.Date.pipe(
+  Schema.filter((date) => date.getTime() <= Date.now(), {
+    message: () => "must not be in the future",
+  }),
+);
+
+// Records are stored under MongoDB ObjectIds and identified by their hexadecimal form
+export const ObjectIdString = Schema.String.pipe(
+  Schema.pattern(/^[0-9a-f]{24}$/i, {
+    message: () => "must be a 24-character hexadecimal id",
+  }),
+);
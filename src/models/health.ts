@@ -0,0 +1,24 @@
+import { Schema } from "effect";
+
+export const Liveness = Schema.Struct({
+  status: Schema.Literal("ok"),
+  uptimeSeconds: Schema.Number,
+});
+
+export type Liveness = typeof Liveness.Type;
+
+// The outcome of checking one dependency the API cannot serve requests without
+export const HealthCheck = Schema.Struct({
+  status: Schema.Literal("up", "down"),
+  latencyMs: Schema.Number,
+  error: Schema.optional(Schema.String),
+});
+
+export type HealthCheck = typeof HealthCheck.Type;
+
+export const Readiness = Schema.Struct({
+  status: Schema.Literal("ready", "unavailable"),
+  checks: Schema.Struct({ mongodb: HealthCheck }),
+});
+
+export type Readiness = typeof Readiness.Type;
@@ -0,0 +1,60 @@
+import { Schema } from "effect";
+import { Actor } from "./auth";
+import { BookId } from "./book";
+
+export const StockMovementReason = Schema.Literal(
+  "initial",
+  "adjustment",
+  "order",
+  "return",
+  "restock",
+  "correction",
+);
+export type StockMovementReason = typeof StockMovementReason.Type;
+
+export const StockMovement = Schema.Struct({
+  _id: Schema.String,
+  reason: StockMovementReason,
+  delta: Schema.Number,
+  resultingStock: Schema.Number,
+  // Who made the change: the name to show, their ownerId and the key they used
+  actor: Schema.String,
+  actorId: Schema.optional(Schema.String),
+  keyId: Schema.optional(Schema.String),
+  reference: Schema.optional(Schema.String),
+  note: Schema.optional(Schema.String),
+  createdAt: Schema.Date,
+});
+
+export type StockMovement = typeof StockMovement.Type;
+
+// What a caller supplies when changing stock; the rest is filled in on write
+export interface StockChange {
+  readonly reason: StockMovementReason;
+  readonly actor: Actor;
+  readonly reference?: string;
+  readonly note?: string;
+}
+
+export const UpdateStockRequest = Schema.Struct({
+  quantity: Schema.Number.pipe(Schema.int()),
+  expectedStock: Schema.optional(Schema.NonNegativeInt),
+  reason: Schema.optionalWith(
+    Schema.Literal("adjustment", "return", "restock", "correction"),
+    { default: () => "adjustment" as const },
+  ),
+  note: Schema.optional(Schema.String),
+});
+
+export type UpdateStockRequest = typeof UpdateStockRequest.Type;
+
+export const StockReconciliation = Schema.Struct({
+  bookId: BookId,
+  title: Schema.String,
+  stock: Schema.Number,
+  ledgerStock: Schema.Number,
+  drift: Schema.Number,
+  movements: Schema.Number,
+});
+
+export type StockReconciliation = typeof StockReconciliation.Type;
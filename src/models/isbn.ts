@@ -0,0 +1,108 @@
+import { ParseResult, Schema } from "effect";
+
+const isbn13CheckDigit = (digits: string) => {
+  let sum = 0;
+  for (let i = 0; i < 12; i++) {
+    sum += Number(digits[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return String((10 - (sum % 10)) % 10);
+};
+
+// An "X" check digit stands for 10
+const isValidIsbn10 = (isbn: string) => {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    sum += (isbn[i] === "X" ? 10 : Number(isbn[i])) * (10 - i);
+  }
+  return sum % 11 === 0;
+};
+
+// The ISBN-13 form of an ISBN-10 or ISBN-13, or undefined if the checksum fails
+export const normalizeIsbn = (input: string): string | undefined => {
+  const isbn = input.replace(/[-\s]/g, "").toUpperCase();
+
+  if (/^97[89]\d{10}$/.test(isbn)) {
+    return isbn13CheckDigit(isbn) === isbn[12] ? isbn : undefined;
+  }
+
+  if (/^\d{9}[\dX]$/.test(isbn) && isValidIsbn10(isbn)) {
+    const digits = `978${isbn.slice(0, 9)}`;
+    return digits + isbn13CheckDigit(digits);
+  }
+
+  return undefined;
+};
+
+/**
+ * An ISBN-13 without separators. Hyphens and spaces are ignored and ISBN-10s
+ * are converted on decode, so each edition has a single stored form.
+ */
+export const Isbn = Schema.transformOrFail(
+  Schema.String,
+  Schema.String.pipe(Schema.pattern(/^97[89]\d{10}$/), Schema.brand("Isbn")),
+  {
+    strict: true,
+    decode: (input, _, ast) => {
+      const isbn = normalizeIsbn(input);
+      return isbn === undefined
+        ? ParseResult.fail(
+            new ParseResult.Type(ast, input, `"${input}" is not a valid ISBN-10 or ISBN-13`),
+          )
+        : ParseResult.succeed(isbn);
+    },
+    encode: ParseResult.succeed,
+  },
+).annotations({ identifier: "Isbn" });
+
+export type Isbn = typeof Isbn.Type;
+
+// A stored book's ISBN and where it sits: in the catalog, or in the trash since deletedAt
+export interface StoredIsbn {
+  readonly id: string;
+  readonly isbn: string;
+  readonly deletedAt?: Date | null;
+}
+
+export interface IsbnMigration {
+  // Books to store with the normalised form of their valid ISBN
+  readonly normalized: ReadonlyArray<{ readonly id: string; readonly isbn: string }>;
+  // Books whose ISBN is not a valid ISBN-10 or ISBN-13; they are left as they are
+  readonly invalid: ReadonlyArray<StoredIsbn>;
+  // Books with the same ISBN as an earlier book in the same place, which keeps it
+  readonly duplicates: ReadonlyArray<StoredIsbn & { readonly isbnOf: string }>;
+}
+
+/**
+ * Plans bringing ISBNs stored before they were normalised into their single
+ * stored form. `books` must be in the order they were created; where two
+ * end up sharing an ISBN in the catalog, or in the trash since the same
+ * moment, the first keeps its place and the others are duplicates.
+ */
+export const planIsbnMigration = (
+  books: ReadonlyArray<StoredIsbn>,
+): IsbnMigration => {
+  const owners = new Map<string, string>();
+  const normalized: Array<{ id: string; isbn: string }> = [];
+  const invalid: Array<StoredIsbn> = [];
+  const duplicates: Array<StoredIsbn & { isbnOf: string }> = [];
+
+  for (const book of books) {
+    const isbn = normalizeIsbn(book.isbn);
+    const key = `${isbn ?? book.isbn}@${book.deletedAt?.getTime() ?? "catalog"}`;
+    const owner = owners.get(key);
+
+    if (isbn === undefined) {
+      invalid.push(book);
+    }
+    if (owner !== undefined) {
+      duplicates.push({ ...book, isbnOf: owner });
+    } else {
+      owners.set(key, book.id);
+      if (isbn !== undefined && isbn !== book.isbn) {
+        normalized.push({ id: book.id, isbn });
+      }
+    }
+  }
+
+  return { normalized, invalid, duplicates };
+};
@@ -0,0 +1,101 @@
+import { ParseResult, Schema } from "effect";
+
+const KNOWN_CURRENCIES = new Set(Intl.supportedValuesOf("currency"));
+
+export const CurrencyCode = Schema.String.pipe(
+  Schema.filter((code) => KNOWN_CURRENCIES.has(code), {
+    message: (issue) => `"${issue.actual}" is not an ISO 4217 currency code`,
+  }),
+  Schema.brand("CurrencyCode"),
+).annotations({ identifier: "CurrencyCode" });
+
+export type CurrencyCode = typeof CurrencyCode.Type;
+
+export const isCurrencyCode = Schema.is(CurrencyCode);
+
+// Book prices are stored, filtered and sold in this currency
+export const STORE_CURRENCY = "USD" as CurrencyCode;
+
+// Decimal places of the currency's minor unit: 2 for USD (cents), 0 for JPY
+export const minorUnitDigits = (currency: CurrencyCode) =>
+  new Intl.NumberFormat("en", { style: "currency", currency }).resolvedOptions()
+    .maximumFractionDigits ?? 2;
+
+/**
+ * An amount of money in integer minor units, so that sums and products are
+ * exact. `amount` comes first so that sorting on a Money field orders by
+ * amount.
+ */
+export const Money = Schema.Struct({
+  amount: Schema.Int,
+  currency: CurrencyCode,
+}).annotations({ identifier: "Money" });
+
+export type Money = typeof Money.Type;
+
+// Rounds to the nearest minor unit
+export const fromMajorUnits = (amount: number, currency: CurrencyCode): Money => ({
+  amount: Math.round(amount * 10 ** minorUnitDigits(currency)),
+  currency,
+});
+
+export const toMajorUnits = (money: Money) =>
+  money.amount / 10 ** minorUnitDigits(money.currency);
+
+export const multiply = (money: Money, quantity: number): Money => ({
+  amount: money.amount * quantity,
+  currency: money.currency,
+});
+
+// All amounts must be in `currency`
+export const sum = (currency: CurrencyCode, amounts: ReadonlyArray<Money>): Money => ({
+  amount: amounts.reduce((total, money) => total + money.amount, 0),
+  currency,
+});
+
+/**
+ * Prices in requests are either Money or, as before Money existed, a plain
+ * number of major units (e.g. 15.99) in the store currency.
+ */
+export const MoneyInput = Schema.transformOrFail(Schema.Unknown, Money, {
+  strict: true,
+  decode: (input, options, ast) => {
+    if (typeof input !== "number") {
+      return ParseResult.decodeUnknown(Money)(input, options);
+    }
+    const money = fromMajorUnits(input, STORE_CURRENCY);
+    return Math.abs(toMajorUnits(money) - input) < 1e-9
+      ? ParseResult.succeed(money)
+      : ParseResult.fail(
+          new ParseResult.Type(
+            ast,
+            input,
+            `must have at most ${minorUnitDigits(STORE_CURRENCY)} decimal places`,
+          ),
+        );
+  },
+  encode: (money) => ParseResult.succeed(money),
+});
+
+export const PositiveMoney = MoneyInput.pipe(
+  Schema.filter((money) => money.amount > 0, {
+    message: () => "must be greater than 0",
+  }),
+);
+
+// Rates are units of each currency per one unit of `base`
+export const ExchangeRateTable = Schema.Struct({
+  base: CurrencyCode,
+  rates: Schema.Record({
+    key: CurrencyCode,
+    value: Schema.Number.pipe(Schema.positive()),
+  }),
+});
+
+export type ExchangeRateTable = typeof ExchangeRateTable.Type;
+
+export const CurrencyQuery = Schema.Struct({
+  currency: Schema.optional(CurrencyCode),
+});
+
+export type CurrencyQuery = typeof CurrencyQuery.Type;
@@ -0,0 +1,73 @@
+import { Schema } from "effect";
+import { BookId } from "./book";
+import { ObjectIdString } from "./fields";
+import { Money } from "./money";
+import { AppliedDiscount, CouponCode } from "./promotion";
+import { makeListQuery } from "./query";
+
+export const OrderId = ObjectIdString.pipe(Schema.brand("OrderId"));
+export type OrderId = typeof OrderId.Type;
+
+export const OrderStatus = Schema.Literal("pending", "paid", "shipped", "cancelled");
+export type OrderStatus = typeof OrderStatus.Type;
+
+// Statuses each status may move to; cancelling is only possible before shipping
+export const ORDER_TRANSITIONS: Record<OrderStatus, ReadonlyArray<OrderStatus>> = {
+  pending: ["paid", "cancelled"],
+  paid: ["shipped", "cancelled"],
+  shipped: [],
+  cancelled: [],
+};
+
+export const OrderLine = Schema.Struct({
+  bookId: BookId,
+  title: Schema.String,
+  quantity: Schema.Number,
+  unitPrice: Money,
+  // Promotions that lowered the unit price; lineTotal is after them
+  discounts: Schema.optional(Schema.Array(AppliedDiscount)),
+  lineTotal: Money,
+});
+
+export type OrderLine = typeof OrderLine.Type;
+
+export const Order = Schema.Struct({
+  _id: Schema.optional(OrderId),
+  items: Schema.Array(OrderLine),
+  itemCount: Schema.Number,
+  total: Money,
+  couponCode: Schema.optional(Schema.String),
+  status: OrderStatus,
+  createdAt: Schema.optional(Schema.Date),
+  updatedAt: Schema.optional(Schema.Date),
+});
+
+export type Order = typeof Order.Type;
+
+export const CreateOrderRequest = Schema.Struct({
+  items: Schema.NonEmptyArray(
+    Schema.Struct({
+      bookId: BookId,
+      quantity: Schema.Number.pipe(Schema.int(), Schema.positive()),
+    }),
+  ),
+  couponCode: Schema.optional(CouponCode),
+});
+
+export type CreateOrderRequest = typeof CreateOrderRequest.Type;
+
+export const UpdateOrderStatusRequest = Schema.Struct({
+  status: OrderStatus,
+});
+
+export type UpdateOrderStatusRequest = typeof UpdateOrderStatusRequest.Type;
+
+export const OrderListQuery = makeListQuery([
+  "status",
+  "itemCount",
+  "total",
+  "createdAt",
+  "updatedAt",
+]);
+
+export type OrderListQuery = typeof OrderListQuery.Type;
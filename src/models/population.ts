@@ -0,0 +1,19 @@
+import { Schema } from "effect";
+import { Author } from "./author";
+import { Book } from "./book";
+
+// A book with its authors embedded, as ?include=authors and books-with-authors return it
+export const BookWithAuthors = Schema.Struct({
+  ...Book.fields,
+  authors: Schema.Array(Author),
+});
+
+export type BookWithAuthors = typeof BookWithAuthors.Type;
+
+// An author with their books embedded, as ?include=books returns it
+export const AuthorWithBooks = Schema.Struct({
+  ...Author.fields,
+  books: Schema.Array(Book),
+});
+
+export type AuthorWithBooks = typeof AuthorWithBooks.Type;
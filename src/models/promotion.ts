@@ -0,0 +1,189 @@
+import { Schema } from "effect";
+import { AuthorId } from "./author";
+import { BookId } from "./book";
+import { ObjectIdString, RequiredText } from "./fields";
+import { Money, MoneyInput, STORE_CURRENCY } from "./money";
+import { makeListQuery } from "./query";
+
+export const PromotionId = ObjectIdString.pipe(Schema.brand("PromotionId"));
+export type PromotionId = typeof PromotionId.Type;
+
+export const PercentageDiscount = Schema.Struct({
+  type: Schema.Literal("percentage"),
+  percent: Schema.Number,
+});
+
+// Taken off each copy, but never below zero
+export const FixedDiscount = Schema.Struct({
+  type: Schema.Literal("fixed"),
+  amount: Money,
+});
+
+export const Discount = Schema.Union(PercentageDiscount, FixedDiscount);
+export type Discount = typeof Discount.Type;
+
+/**
+ * The books a promotion applies to: those in any of `genres`, by any of
+ * `authorIds` or listed in `bookIds`. A scope with none of them applies to
+ * every book.
+ */
+export const PromotionScope = Schema.Struct({
+  genres: Schema.optional(Schema.Array(Schema.String)),
+  authorIds: Schema.optional(Schema.Array(AuthorId)),
+  bookIds: Schema.optional(Schema.Array(BookId)),
+});
+
+export type PromotionScope = typeof PromotionScope.Type;
+
+export const Promotion = Schema.Struct({
+  _id: Schema.optional(PromotionId),
+  name: Schema.String,
+  description: Schema.optional(Schema.String),
+  discount: Discount,
+  scope: PromotionScope,
+  startsAt: Schema.optional(Schema.Date),
+  endsAt: Schema.optional(Schema.Date),
+  // Promotions with a coupon code only apply when the code is given
+  couponCode: Schema.optional(Schema.String),
+  usageLimit: Schema.optional(Schema.Number),
+  usageCount: Schema.Number,
+  version: Schema.optional(Schema.Number),
+  createdAt: Schema.optional(Schema.Date),
+  updatedAt: Schema.optional(Schema.Date),
+});
+
+export type Promotion = typeof Promotion.Type;
+
+const DiscountRequest = Schema.Union(
+  Schema.Struct({
+    type: Schema.Literal("percentage"),
+    percent: Schema.Number.pipe(
+      Schema.greaterThan(0, { message: () => "must be greater than 0" }),
+      Schema.lessThanOrEqualTo(100, { message: () => "must not exceed 100" }),
+    ),
+  }),
+  Schema.Struct({
+    type: Schema.Literal("fixed"),
+    amount: MoneyInput.pipe(
+      Schema.filter(
+        (money) =>
+          money.currency !== STORE_CURRENCY
+            ? `must be in ${STORE_CURRENCY}`
+            : money.amount > 0 || "must be greater than 0",
+      ),
+    ),
+  }),
+);
+
+const ScopeRequest = Schema.Struct({
+  genres: Schema.optional(Schema.Array(RequiredText)),
+  authorIds: Schema.optional(Schema.Array(AuthorId)),
+  bookIds: Schema.optional(Schema.Array(BookId)),
+});
+
+// Codes are matched case-insensitively, so they are stored in upper case
+export const CouponCode = Schema.compose(Schema.Trim, Schema.Uppercase).pipe(
+  Schema.pattern(/^[A-Z0-9_-]{3,32}$/, {
+    message: () =>
+      "must be 3 to 32 letters, digits, hyphens or underscores",
+  }),
+);
+
+const UsageLimit = Schema.Number.pipe(
+  Schema.int({ message: () => "must be a whole number" }),
+  Schema.positive({ message: () => "must be greater than 0" }),
+);
+
+const hasValidWindow = (promotion: {
+  readonly startsAt?: Date;
+  readonly endsAt?: Date;
+}) =>
+  promotion.startsAt === undefined ||
+  promotion.endsAt === undefined ||
+  promotion.startsAt <= promotion.endsAt || {
+    path: ["endsAt"],
+    message: "must not be earlier than startsAt",
+  };
+
+export const CreatePromotionRequest = Schema.Struct({
+  name: RequiredText,
+  description: Schema.optional(Schema.String),
+  discount: DiscountRequest,
+  scope: Schema.optionalWith(ScopeRequest, { default: () => ({}) }),
+  startsAt: Schema.optional(Schema.Date),
+  endsAt: Schema.optional(Schema.Date),
+  couponCode: Schema.optional(CouponCode),
+  usageLimit: Schema.optional(UsageLimit),
+}).pipe(Schema.filter(hasValidWindow));
+
+export type CreatePromotionRequest = typeof CreatePromotionRequest.Type;
+
+export const UpdatePromotionRequest = Schema.Struct({
+  name: Schema.optional(RequiredText),
+  description: Schema.optional(Schema.String),
+  discount: Schema.optional(DiscountRequest),
+  scope: Schema.optional(ScopeRequest),
+  startsAt: Schema.optional(Schema.Date),
+  endsAt: Schema.optional(Schema.Date),
+  couponCode: Schema.optional(CouponCode),
+  usageLimit: Schema.optional(UsageLimit),
+}).pipe(Schema.filter(hasValidWindow));
+
+export type UpdatePromotionRequest = typeof UpdatePromotionRequest.Type;
+
+export const PromotionListQuery = makeListQuery([
+  "name",
+  "description",
+  "discount",
+  "scope",
+  "startsAt",
+  "endsAt",
+  "couponCode",
+  "usageLimit",
+  "usageCount",
+  "version",
+  "createdAt",
+  "updatedAt",
+]);
+
+export type PromotionListQuery = typeof PromotionListQuery.Type;
+
+export const PriceQuery = Schema.Struct({
+  coupon: Schema.optional(CouponCode),
+});
+
+export type PriceQuery = typeof PriceQuery.Type;
+
+export const AppliedDiscount = Schema.Struct({
+  promotionId: PromotionId,
+  name: Schema.String,
+  couponCode: Schema.optional(Schema.String),
+  // Why the promotion applies, e.g. "20% off books in genre Horror"
+  reason: Schema.String,
+  // Taken off one copy
+  amount: Money,
+});
+
+export type AppliedDiscount = typeof AppliedDiscount.Type;
+
+export const PriceBreakdown = Schema.Struct({
+  listPrice: Money,
+  discounts: Schema.Array(AppliedDiscount),
+  finalPrice: Money,
+});
+
+export type PriceBreakdown = typeof PriceBreakdown.Type;
+
+export interface CartLinePrice extends PriceBreakdown {
+  readonly bookId: BookId;
+  readonly quantity: number;
+  readonly lineTotal: Money;
+}
+
+export interface CartPrice {
+  readonly lines: ReadonlyArray<CartLinePrice>;
+  readonly subtotal: Money;
+  readonly discountTotal: Money;
+  readonly total: Money;
+  readonly couponCode?: string;
+}
@@ -0,0 +1,77 @@
+import { Schema } from "effect";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Opaque pagination token: base64url-encoded JSON holding the offset of the next page
+export const Cursor = Schema.compose(
+  Schema.StringFromBase64Url,
+  Schema.parseJson(Schema.Struct({ offset: Schema.NonNegativeInt })),
+);
+export type Cursor = typeof Cursor.Type;
+
+export const CommaSeparated = <A extends string, I extends string>(
+  item: Schema.Schema<A, I>,
+) => Schema.compose(Schema.split(","), Schema.Array(item), { strict: false });
+
+/**
+ * Builds the query-string spec for a list endpoint. `sort` takes a comma
+ * separated list of field names, each optionally prefixed with `-` for
+ * descending order; `fields` restricts the returned properties.
+ */
+export const makeListQuery = <const Fields extends readonly [string, ...string[]]>(
+  fields: Fields,
+) => {
+  const Field = Schema.Literal(...fields);
+  const SortKey = Schema.Union(Field, Schema.TemplateLiteral("-", Field));
+
+  return Schema.Struct({
+    limit: Schema.optionalWith(
+      Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, MAX_PAGE_SIZE)),
+      { default: () => DEFAULT_PAGE_SIZE },
+    ),
+    cursor: Schema.optional(Cursor),
+    sort: Schema.optional(CommaSeparated(SortKey)),
+    fields: Schema.optional(CommaSeparated(Field)),
+  });
+};
+
+export interface ListQuery {
+  readonly limit: number;
+  readonly cursor?: Cursor;
+  readonly sort?: ReadonlyArray<string>;
+  readonly fields?: ReadonlyArray<string>;
+}
+
+export interface Page<A> {
+  readonly items: ReadonlyArray<A>;
+  readonly total: number;
+  readonly limit: number;
+  readonly nextCursor?: string;
+}
+
+// A Page as list endpoints send it
+export const PageOf = <A, I, R>(item: Schema.Schema<A, I, R>) =>
+  Schema.Struct({
+    items: Schema.Array(item),
+    total: Schema.Number,
+    limit: Schema.Number,
+    nextCursor: Schema.optional(Schema.String),
+  });
+
+export const makePage = <A>(
+  items: ReadonlyArray<A>,
+  total: number,
+  offset: number,
+  limit: number,
+): Page<A> => {
+  const nextOffset = offset + items.length;
+  return {
+    items,
+    total,
+    limit,
+    ...(nextOffset < total
+      ? { nextCursor: Schema.encodeSync(Cursor)({ offset: nextOffset }) }
+      : {}),
+  };
+};
@@ -0,0 +1,41 @@
+import { Schema } from "effect";
+
+/**
+ * Routes are budgeted by class: `expensive` routes, such as search, exports
+ * and embedding authors in books, read far more than one record per request
+ * and get a smaller budget than the `standard` rest.
+ */
+export const RouteClass = Schema.Literal("standard", "expensive");
+export type RouteClass = typeof RouteClass.Type;
+
+// A bucket of `requests` tokens, refilled evenly over `perSeconds`
+export const Budget = Schema.Struct({
+  requests: Schema.Int.pipe(Schema.positive()),
+  perSeconds: Schema.Int.pipe(Schema.positive()),
+});
+
+export type Budget = typeof Budget.Type;
+
+const PositiveIntFromString = Schema.NumberFromString.pipe(
+  Schema.int(),
+  Schema.positive(),
+);
+
+// "100/60" is 100 requests per 60 seconds
+export const BudgetFromString = Schema.transform(
+  Schema.TemplateLiteralParser(PositiveIntFromString, "/", PositiveIntFromString),
+  Budget,
+  {
+    strict: true,
+    decode: ([requests, , perSeconds]) => ({ requests, perSeconds }),
+    encode: ({ requests, perSeconds }) => [requests, "/", perSeconds] as const,
+  },
+);
+
+// What a client has left of a budget after a request was counted against it
+export interface RateLimitStatus {
+  readonly limit: number;
+  readonly remaining: number;
+  // Seconds until the bucket is full again
+  readonly resetSeconds: number;
+}
@@ -0,0 +1,89 @@
+import { Schema } from "effect";
+import { Author, AuthorId } from "./author";
+import { Book, BookId } from "./book";
+import { CommaSeparated, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./query";
+
+export const SearchHitType = Schema.Literal("book", "author");
+export type SearchHitType = typeof SearchHitType.Type;
+
+export const SearchParams = Schema.Struct({
+  q: Schema.Trim.pipe(Schema.nonEmptyString()),
+  type: Schema.optional(CommaSeparated(SearchHitType)),
+  limit: Schema.optionalWith(
+    Schema.NumberFromString.pipe(Schema.int(), Schema.between(1, MAX_PAGE_SIZE)),
+    { default: () => DEFAULT_PAGE_SIZE },
+  ),
+});
+
+export type SearchParams = typeof SearchParams.Type;
+
+/**
+ * A search query split into its parts: bare terms, `"quoted phrases"` and
+ * `prefix*` terms. All parts are lower-cased.
+ */
+export interface ParsedQuery {
+  readonly terms: ReadonlyArray<string>;
+  readonly phrases: ReadonlyArray<string>;
+  readonly prefixes: ReadonlyArray<string>;
+}
+
+export const parseSearchQuery = (input: string): ParsedQuery => {
+  const terms: string[] = [];
+  const phrases: string[] = [];
+  const prefixes: string[] = [];
+
+  for (const [, phrase, token] of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (phrase !== undefined) {
+      const normalized = phrase.trim().replace(/\s+/g, " ").toLowerCase();
+      if (normalized.length > 0) phrases.push(normalized);
+      continue;
+    }
+
+    const isPrefix = token.endsWith("*");
+    // Strip punctuation at the edges so "-term" or "term," cannot alter the query
+    const word = token
+      .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, "")
+      .toLowerCase();
+    if (word.length === 0) continue;
+
+    (isPrefix ? prefixes : terms).push(word);
+  }
+
+  return { terms, phrases, prefixes };
+};
+
+export const isEmptyQuery = (query: ParsedQuery) =>
+  query.terms.length === 0 &&
+  query.phrases.length === 0 &&
+  query.prefixes.length === 0;
+
+// Field name -> snippet with matches wrapped in <mark></mark>
+export const Highlights = Schema.Record({ key: Schema.String, value: Schema.String });
+export type Highlights = typeof Highlights.Type;
+
+export const SearchHit = Schema.Union(
+  Schema.Struct({
+    type: Schema.Literal("book"),
+    id: BookId,
+    score: Schema.Number,
+    highlights: Highlights,
+    book: Book,
+  }),
+  Schema.Struct({
+    type: Schema.Literal("author"),
+    id: AuthorId,
+    score: Schema.Number,
+    highlights: Highlights,
+    author: Author,
+  }),
+);
+
+export type SearchHit = typeof SearchHit.Type;
+
+export const SearchResult = Schema.Struct({
+  query: Schema.String,
+  total: Schema.Number,
+  hits: Schema.Array(SearchHit),
+});
+
+export type SearchResult = typeof SearchResult.Type;
@@ -0,0 +1,182 @@
+import { Book } from "../models/book";
+import {
+  Money,
+  STORE_CURRENCY,
+  minorUnitDigits,
+  multiply,
+  sum,
+  toMajorUnits,
+} from "../models/money";
+import {
+  AppliedDiscount,
+  CartPrice,
+  Discount,
+  PriceBreakdown,
+  Promotion,
+  PromotionScope,
+} from "../models/promotion";
+
+/**
+ * Pure promotion pricing: given a book's list price and the promotions on
+ * offer, works out what a copy costs and which rules made it so. Nothing
+ * here reads the database or the clock.
+ */
+
+export interface PricingOptions {
+  readonly now: Date;
+  // A promotion the customer gave the coupon code of
+  readonly coupon?: Promotion;
+}
+
+export interface CartItem {
+  readonly book: Book;
+  readonly quantity: number;
+}
+
+export const isRunning = (promotion: Promotion, now: Date) =>
+  (promotion.startsAt === undefined || promotion.startsAt <= now) &&
+  (promotion.endsAt === undefined || now <= promotion.endsAt);
+
+// Why the book is in scope, or undefined if it is not
+const matchScope = (scope: PromotionScope, book: Book): string | undefined => {
+  const { genres = [], authorIds = [], bookIds = [] } = scope;
+  if (genres.length + authorIds.length + bookIds.length === 0) {
+    return "all books";
+  }
+  if (book._id !== undefined && bookIds.includes(book._id)) {
+    return "this book";
+  }
+  const genre = genres.find(
+    (genre) => genre.toLowerCase() === book.genre.toLowerCase(),
+  );
+  if (genre !== undefined) {
+    return `books in genre ${genre}`;
+  }
+  const authorId = authorIds.find((id) => book.authorIds.includes(id));
+  return authorId !== undefined ? `books by author ${authorId}` : undefined;
+};
+
+const formatMoney = (money: Money) =>
+  `${toMajorUnits(money).toFixed(minorUnitDigits(money.currency))} ${money.currency}`;
+
+const describe = (discount: Discount) =>
+  discount.type === "percentage"
+    ? `${discount.percent}% off`
+    : `${formatMoney(discount.amount)} off`;
+
+// What the discount takes off one copy at `price`, rounded to the minor unit
+const discountOn = (price: Money, discount: Discount): Money => ({
+  amount: Math.min(
+    price.amount,
+    discount.type === "percentage"
+      ? Math.round((price.amount * discount.percent) / 100)
+      : discount.amount.amount,
+  ),
+  currency: price.currency,
+});
+
+const apply = (
+  promotion: Promotion,
+  book: Book,
+  price: Money,
+): AppliedDiscount | undefined => {
+  const scope = matchScope(promotion.scope, book);
+  if (scope === undefined) return undefined;
+  return {
+    promotionId: promotion._id!,
+    name: promotion.name,
+    ...(promotion.couponCode !== undefined
+      ? { couponCode: promotion.couponCode }
+      : {}),
+    reason: `${describe(promotion.discount)} ${scope}`,
+    amount: discountOn(price, promotion.discount),
+  };
+};
+
+/**
+ * Automatic promotions do not stack: the one that takes the most off the
+ * list price applies. A coupon then applies to what is left, if the book is
+ * in its scope. Promotions outside their date window are ignored.
+ */
+export const priceBook = (
+  book: Book,
+  promotions: ReadonlyArray<Promotion>,
+  options: PricingOptions,
+): PriceBreakdown => {
+  const automatic = promotions
+    .filter(
+      (promotion) =>
+        promotion.couponCode === undefined && isRunning(promotion, options.now),
+    )
+    .flatMap((promotion) => apply(promotion, book, book.price) ?? [])
+    .reduce<AppliedDiscount | undefined>(
+      (best, discount) =>
+        best === undefined || discount.amount.amount > best.amount.amount
+          ? discount
+          : best,
+      undefined,
+    );
+
+  const afterAutomatic: Money = {
+    amount: book.price.amount - (automatic?.amount.amount ?? 0),
+    currency: book.price.currency,
+  };
+  const coupon =
+    options.coupon && isRunning(options.coupon, options.now)
+      ? apply(options.coupon, book, afterAutomatic)
+      : undefined;
+
+  const discounts = [automatic, coupon].filter(
+    (discount): discount is AppliedDiscount =>
+      discount !== undefined && discount.amount.amount > 0,
+  );
+
+  return {
+    listPrice: book.price,
+    discounts,
+    finalPrice: {
+      amount: afterAutomatic.amount - (coupon?.amount.amount ?? 0),
+      currency: book.price.currency,
+    },
+  };
+};
+
+// Every copy in a line is priced like a single copy of the book
+export const priceCart = (
+  items: ReadonlyArray<CartItem>,
+  promotions: ReadonlyArray<Promotion>,
+  options: PricingOptions,
+): CartPrice => {
+  const lines = items.map(({ book, quantity }) => {
+    const price = priceBook(book, promotions, options);
+    return {
+      bookId: book._id!,
+      quantity,
+      ...price,
+      lineTotal: multiply(price.finalPrice, quantity),
+    };
+  });
+
+  const subtotal = sum(
+    STORE_CURRENCY,
+    lines.map((line) => multiply(line.listPrice, line.quantity)),
+  );
+  const total = sum(
+    STORE_CURRENCY,
+    lines.map((line) => line.lineTotal),
+  );
+  const couponUsed = lines.some((line) =>
+    line.discounts.some((discount) => discount.couponCode !== undefined),
+  );
+
+  return {
+    lines,
+    subtotal,
+    discountTotal: {
+      amount: subtotal.amount - total.amount,
+      currency: STORE_CURRENCY,
+    },
+    total,
+    ...(couponUsed ? { couponCode: options.coupon!.couponCode } : {}),
+  };
+};
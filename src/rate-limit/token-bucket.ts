@@ -0,0 +1,68 @@
+import { Budget, RateLimitStatus } from "../models/rate-limit";
+
+/**
+ * Token bucket arithmetic. A bucket starts full with `budget.requests`
+ * tokens, each request takes one, and tokens flow back at a steady rate
+ * until the bucket is full again, so a client can burst up to the whole
+ * budget and then continue at the refill rate.
+ */
+
+export interface Bucket {
+  readonly tokens: number;
+  readonly updatedAt: Date;
+}
+
+export const tokensPerMillisecond = (budget: Budget) =>
+  budget.requests / (budget.perSeconds * 1000);
+
+// Clocks of several servers sharing a store may disagree; time never runs backwards for a bucket
+export const refill = (
+  bucket: Bucket | undefined,
+  budget: Budget,
+  now: Date,
+): number =>
+  bucket === undefined
+    ? budget.requests
+    : Math.min(
+        budget.requests,
+        bucket.tokens +
+          Math.max(0, now.getTime() - bucket.updatedAt.getTime()) *
+            tokensPerMillisecond(budget),
+      );
+
+export const take = (
+  bucket: Bucket | undefined,
+  budget: Budget,
+  now: Date,
+): { readonly bucket: Bucket; readonly allowed: boolean } => {
+  const tokens = refill(bucket, budget, now);
+  const allowed = tokens >= 1;
+  return {
+    bucket: { tokens: allowed ? tokens - 1 : tokens, updatedAt: now },
+    allowed,
+  };
+};
+
+// When the bucket will be full again, after which it can be forgotten
+export const fullAt = (bucket: Bucket, budget: Budget) =>
+  new Date(
+    bucket.updatedAt.getTime() +
+      Math.ceil((budget.requests - bucket.tokens) / tokensPerMillisecond(budget)),
+  );
+
+export const toStatus = (
+  bucket: Bucket,
+  budget: Budget,
+  now: Date,
+): RateLimitStatus => ({
+  limit: budget.requests,
+  remaining: Math.floor(bucket.tokens),
+  resetSeconds: Math.max(
+    0,
+    Math.ceil((fullAt(bucket, budget).getTime() - now.getTime()) / 1000),
+  ),
+});
+
+// Seconds until a bucket that turned a request away holds a whole token
+export const retryAfterSeconds = (bucket: Bucket, budget: Budget) =>
+  Math.max(1, Math.ceil((1 - bucket.tokens) / tokensPerMillisecond(budget) / 1000));
@@ -0,0 +1,186 @@
+import { Context, Effect, Layer, Option } from "effect";
+import { Document, ObjectId } from "mongodb";
+import { MongoDB, MongoDBLive } from "../database";
+import { instrumentRepository } from "./instrumentation";
+import { ApiKey, ApiKeyId, Role } from "../models/auth";
+import { DatabaseError, NotFoundError } from "../errors";
+
+// What is stored for a new key; `hash` never leaves the repository
+export interface NewApiKey {
+  readonly name: string;
+  readonly owner: string;
+  // Left out for the first key of a new owner, which identifies them itself
+  readonly ownerId?: ApiKeyId;
+  readonly role: Role;
+  readonly hash: string;
+  readonly hint: string;
+}
+
+export interface ApiKeyRepository {
+  ensureIndexes: () => Effect.Effect<void, DatabaseError>;
+  findById: (id: ApiKeyId) => Effect.Effect<ApiKey, DatabaseError | NotFoundError>;
+  findByHash: (
+    hash: string,
+  ) => Effect.Effect<Option.Option<ApiKey>, DatabaseError>;
+  findByOwner: (ownerId: ApiKeyId) => Effect.Effect<ApiKey[], DatabaseError>;
+  create: (apiKey: NewApiKey) => Effect.Effect<ApiKey, DatabaseError>;
+  revoke: (
+    id: ApiKeyId,
+    replacedBy?: ApiKeyId,
+  ) => Effect.Effect<Option.Option<ApiKey>, DatabaseError>;
+  assignMissingRoles: (role: Role) => Effect.Effect<number, DatabaseError>;
+  assignMissingOwners: () => Effect.Effect<number, DatabaseError>;
+}
+
+export const ApiKeyRepository =
+  Context.GenericTag<ApiKeyRepository>("ApiKeyRepository");
+
+const WITHOUT_HASH = { projection: { hash: 0 } };
+
+const toApiKey = ({ hash: _hash, ...apiKey }: Document) =>
+  ({ ...apiKey, _id: apiKey._id.toString() }) as ApiKey;
+
+const make = Effect.gen(function* () {
+  const { db } = yield* MongoDB;
+  const collection = db.collection("api_keys");
+
+  const ensureIndexes = (): Effect.Effect<void, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.createIndex(
+          { hash: 1 },
+          { name: "api_keys_hash_unique", unique: true },
+        ),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to create API key hash index: ${error}`,
+        }),
+    }).pipe(Effect.asVoid);
+
+  const findById = (
+    id: ApiKeyId,
+  ): Effect.Effect<ApiKey, DatabaseError | NotFoundError> =>
+    Effect.tryPromise({
+      try: () => collection.findOne({ _id: new ObjectId(id) }, WITHOUT_HASH),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to find API key by id: ${error}` }),
+    }).pipe(
+      Effect.flatMap((apiKey) =>
+        apiKey
+          ? Effect.succeed(toApiKey(apiKey))
+          : Effect.fail(
+              new NotFoundError({ message: `API key with id ${id} not found` }),
+            ),
+      ),
+    );
+
+  // Revoked keys are found too, so callers can tell them from unknown ones
+  const findByHash = (
+    hash: string,
+  ): Effect.Effect<Option.Option<ApiKey>, DatabaseError> =>
+    Effect.tryPromise({
+      try: () => collection.findOne({ hash }, WITHOUT_HASH),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to find API key: ${error}` }),
+    }).pipe(
+      Effect.map((apiKey) => Option.map(Option.fromNullable(apiKey), toApiKey)),
+    );
+
+  const findByOwner = (
+    ownerId: ApiKeyId,
+  ): Effect.Effect<ApiKey[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection
+          .find({ ownerId }, WITHOUT_HASH)
+          .sort({ createdAt: 1 })
+          .toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find API keys by owner: ${error}`,
+        }),
+    }).pipe(Effect.map((apiKeys) => apiKeys.map(toApiKey)));
+
+  const create = (apiKey: NewApiKey): Effect.Effect<ApiKey, DatabaseError> =>
+    Effect.gen(function* () {
+      const _id = new ObjectId();
+      const apiKeyToInsert = {
+        ...apiKey,
+        ownerId: apiKey.ownerId ?? _id.toString(),
+        createdAt: new Date(),
+      };
+
+      yield* Effect.tryPromise({
+        try: () => collection.insertOne({ ...apiKeyToInsert, _id }),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to create API key: ${error}` }),
+      });
+
+      return toApiKey({ ...apiKeyToInsert, _id });
+    });
+
+  // None when the key does not exist or was already revoked
+  const revoke = (
+    id: ApiKeyId,
+    replacedBy?: ApiKeyId,
+  ): Effect.Effect<Option.Option<ApiKey>, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.findOneAndUpdate(
+          { _id: new ObjectId(id), revokedAt: null },
+          {
+            $set: {
+              revokedAt: new Date(),
+              ...(replacedBy !== undefined ? { replacedBy } : {}),
+            },
+          },
+          { ...WITHOUT_HASH, returnDocument: "after" },
+        ),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to revoke API key: ${error}` }),
+    }).pipe(
+      Effect.map((apiKey) => Option.map(Option.fromNullable(apiKey), toApiKey)),
+    );
+
+  // Keys issued before roles existed have none; returns how many were given `role`
+  const assignMissingRoles = (role: Role): Effect.Effect<number, DatabaseError> =>
+    Effect.tryPromise({
+      try: () => collection.updateMany({ role: null }, { $set: { role } }),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to assign roles to API keys: ${error}`,
+        }),
+    }).pipe(Effect.map((result) => result.modifiedCount));
+
+  /**
+   * Keys issued before owner ids existed were told apart by owner name, which
+   * anyone can be issued a key under; each becomes the first key of its own
+   * owner. Returns how many there were.
+   */
+  const assignMissingOwners = (): Effect.Effect<number, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.updateMany({ ownerId: null }, [
+          { $set: { ownerId: { $toString: "$_id" } } },
+        ]),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to assign owners to API keys: ${error}`,
+        }),
+    }).pipe(Effect.map((result) => result.modifiedCount));
+
+  return instrumentRepository("ApiKeyRepository", {
+    ensureIndexes,
+    findById,
+    findByHash,
+    findByOwner,
+    create,
+    revoke,
+    assignMissingRoles,
+    assignMissingOwners,
+  });
+});
+
+export const ApiKeyRepositoryLive = Layer.effect(ApiKeyRepository, make).pipe(
+  Layer.provide(MongoDBLive),
+);
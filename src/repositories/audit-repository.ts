@@ -0,0 +1,159 @@
+import { Context, Effect, Layer } from "effect";
+import { Document, Filter } from "mongodb";
+import { MongoDB, MongoDBLive, sessionOptions } from "../database";
+import { instrumentRepository } from "./instrumentation";
+import {
+  AuditEntity,
+  AuditEntry,
+  AuditFilter,
+  AuditListQuery,
+} from "../models/audit";
+import { DatabaseError } from "../errors";
+import { Page, makePage } from "../models/query";
+import { toMongoProjection, toMongoSort } from "./mongo-query";
+
+export interface AuditRepository {
+  ensureIndexes: () => Effect.Effect<void, DatabaseError>;
+  append: (
+    entry: Omit<AuditEntry, "_id">,
+  ) => Effect.Effect<AuditEntry, DatabaseError>;
+  findPage: (
+    query: AuditListQuery,
+    filter: AuditFilter,
+  ) => Effect.Effect<Page<Partial<AuditEntry>>, DatabaseError>;
+  findForEntity: (
+    entity: AuditEntity,
+    entityId: string,
+  ) => Effect.Effect<AuditEntry[], DatabaseError>;
+}
+
+export const AuditRepository =
+  Context.GenericTag<AuditRepository>("AuditRepository");
+
+const toAuditEntry = (entry: Document) =>
+  ({ ...entry, _id: entry._id.toString() }) as AuditEntry;
+
+const toMongoFilter = (filter: AuditFilter): Filter<Document> => {
+  const query: Filter<Document> = {};
+  if (filter.entity) query.entity = filter.entity;
+  if (filter.id) query.entityId = filter.id;
+  if (filter.actorId) query.actorId = filter.actorId;
+  if (filter.from || filter.to) {
+    query.timestamp = {
+      ...(filter.from ? { $gte: filter.from } : {}),
+      ...(filter.to ? { $lte: filter.to } : {}),
+    };
+  }
+  return query;
+};
+
+/**
+ * The audit log is append-only: entries are inserted and read, never
+ * updated or deleted, so this repository offers no way to do either.
+ */
+const make = Effect.gen(function* () {
+  const { db } = yield* MongoDB;
+  const collection = db.collection("audit_log");
+
+  const ensureIndexes = (): Effect.Effect<void, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.createIndexes([
+          {
+            key: { entity: 1, entityId: 1, timestamp: -1 },
+            name: "audit_entity",
+          },
+          {
+            key: { entity: 1, entityId: 1, version: -1, timestamp: -1 },
+            name: "audit_entity_version",
+          },
+          { key: { actorId: 1, timestamp: -1 }, name: "audit_actor_id" },
+          { key: { timestamp: -1 }, name: "audit_timestamp" },
+        ]),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to create audit log indexes: ${error}`,
+        }),
+    }).pipe(Effect.asVoid);
+
+  // Joins the transaction of the change the entry is for, if there is one
+  const append = (
+    entry: Omit<AuditEntry, "_id">,
+  ): Effect.Effect<AuditEntry, DatabaseError> =>
+    Effect.flatMap(sessionOptions, (options) =>
+      Effect.tryPromise({
+        try: () => collection.insertOne({ ...entry }, options),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to append audit entry: ${error}`,
+          }),
+      }),
+    ).pipe(
+      Effect.map((result) => ({ ...entry, _id: result.insertedId.toString() })),
+    );
+
+  // Newest first unless the query sorts otherwise
+  const findPage = (
+    query: AuditListQuery,
+    filter: AuditFilter,
+  ): Effect.Effect<Page<Partial<AuditEntry>>, DatabaseError> =>
+    Effect.gen(function* () {
+      const offset = query.cursor?.offset ?? 0;
+      const mongoFilter = toMongoFilter(filter);
+      const [entries, total] = yield* Effect.tryPromise({
+        try: () =>
+          Promise.all([
+            collection
+              .find(mongoFilter, { projection: toMongoProjection(query.fields) })
+              .sort(toMongoSort(query.sort ?? ["-timestamp"]))
+              .skip(offset)
+              .limit(query.limit)
+              .toArray(),
+            collection.countDocuments(mongoFilter),
+          ]),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to find page of audit entries: ${error}`,
+          }),
+      });
+
+      return makePage(
+        entries.map(
+          (entry) =>
+            ({ ...entry, _id: entry._id.toString() }) as Partial<AuditEntry>,
+        ),
+        total,
+        offset,
+        query.limit,
+      );
+    });
+
+  // Newest first by version, the order the writes were made in whatever their
+  // clocks said; entries of the same version keep the order they were written in
+  const findForEntity = (
+    entity: AuditEntity,
+    entityId: string,
+  ): Effect.Effect<AuditEntry[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection
+          .find({ entity, entityId })
+          .sort({ version: -1, timestamp: -1, _id: -1 })
+          .toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find audit entries of ${entity}: ${error}`,
+        }),
+    }).pipe(Effect.map((entries) => entries.map(toAuditEntry)));
+
+  return instrumentRepository("AuditRepository", {
+    ensureIndexes,
+    append,
+    findPage,
+    findForEntity,
+  });
+});
+
+export const AuditRepositoryLive = Layer.effect(AuditRepository, make).pipe(
+  Layer.provide(MongoDBLive),
+);
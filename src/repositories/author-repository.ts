@@ -1,38 +1,95 @@
-import { Context, Effect, Layer, Option } from "effect";
+import { Context, Effect, Layer, Option, Stream } from "effect";
 import { ObjectId } from "mongodb";
-import { MongoDB, MongoDBLive } from "../database";
+import { MongoDB, MongoDBLive, sessionOptions } from "../database";
+import { instrumentRepository } from "./instrumentation";
 import {
   Author,
   AuthorId,
+  AuthorListQuery,
   CreateAuthorRequest,
   UpdateAuthorRequest,
 } from "../models/author";
-import { DatabaseError, NotFoundError } from "../errors";
+import { Actor } from "../models/auth";
+import {
+  BusinessError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+} from "../errors";
+import { Page, makePage } from "../models/query";
+import {
+  NOT_DELETED,
+  Revision,
+  escapeRegExp,
+  revise,
+  toMongoProjection,
+  toMongoSort,
+  versionFilter,
+} from "./mongo-query";
 
 export interface AuthorRepository {
   findAll: () => Effect.Effect<Author[], DatabaseError>;
+  findPage: (
+    query: AuthorListQuery,
+  ) => Effect.Effect<Page<Partial<Author>>, DatabaseError>;
   findById: (id: AuthorId) => Effect.Effect<Author, DatabaseError | NotFoundError>;
   findByIds: (ids: AuthorId[]) => Effect.Effect<Author[], DatabaseError>;
   create: (author: CreateAuthorRequest) => Effect.Effect<Author, DatabaseError>;
   update: (
     id: AuthorId,
     author: UpdateAuthorRequest,
+    expectedVersion?: number,
+  ) => Effect.Effect<
+    Revision<Author>,
+    DatabaseError | NotFoundError | ConflictError
+  >;
+  delete: (
+    id: AuthorId,
+    actor: Actor,
+    expectedVersion?: number,
+  ) => Effect.Effect<
+    Revision<Author>,
+    DatabaseError | NotFoundError | ConflictError | BusinessError
+  >;
+  markMergeTarget: (
+    id: AuthorId,
+    sourceId: AuthorId,
+  ) => Effect.Effect<Author, DatabaseError | NotFoundError>;
+  unmarkMergeTarget: (
+    id: AuthorId,
+    sourceId: AuthorId,
+  ) => Effect.Effect<Author, DatabaseError | NotFoundError>;
+  findDeleted: () => Effect.Effect<Author[], DatabaseError>;
+  findDeletedById: (
+    id: AuthorId,
   ) => Effect.Effect<Author, DatabaseError | NotFoundError>;
-  delete: (id: AuthorId) => Effect.Effect<void, DatabaseError | NotFoundError>;
+  restore: (
+    id: AuthorId,
+  ) => Effect.Effect<Revision<Author>, DatabaseError | NotFoundError>;
+  // Yields the author as it was purged
+  purge: (id: AuthorId) => Effect.Effect<Author, DatabaseError | NotFoundError>;
   findByName: (name: string) => Effect.Effect<Author[], DatabaseError>;
+  findByFullName: (
+    fullName: string,
+  ) => Effect.Effect<Option.Option<Author>, DatabaseError>;
+  streamAll: () => Stream.Stream<Author, DatabaseError>;
   findByNationality: (nationality: string) => Effect.Effect<Author[], DatabaseError>;
 }
 
 export const AuthorRepository =
   Context.GenericTag<AuthorRepository>("AuthorRepository");
 
+// `mergingFrom` holds the ids of the authors being merged into an author
+const MERGE_TARGET = { "mergingFrom.0": { $exists: true } };
+const NOT_MERGE_TARGET = { "mergingFrom.0": { $exists: false } };
+
 const make = Effect.gen(function* () {
   const { db } = yield* MongoDB;
   const collection = db.collection("authors");
 
   const findAll = (): Effect.Effect<Author[], DatabaseError> =>
     Effect.tryPromise({
-      try: () => collection.find({}).toArray(),
+      try: () => collection.find(NOT_DELETED).toArray(),
       catch: (error) =>
         new DatabaseError({
           message: `Failed to find all authors: ${error}`,
@@ -45,11 +102,43 @@ const make = Effect.gen(function* () {
       ),
     );
 
+  const findPage = (
+    query: AuthorListQuery,
+  ): Effect.Effect<Page<Partial<Author>>, DatabaseError> =>
+    Effect.gen(function* () {
+      const offset = query.cursor?.offset ?? 0;
+      const [authors, total] = yield* Effect.tryPromise({
+        try: () =>
+          Promise.all([
+            collection
+              .find(NOT_DELETED, { projection: toMongoProjection(query.fields) })
+              .sort(toMongoSort(query.sort))
+              .skip(offset)
+              .limit(query.limit)
+              .toArray(),
+            collection.countDocuments(NOT_DELETED),
+          ]),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to find page of authors: ${error}`,
+          }),
+      });
+
+      return makePage(
+        authors.map(
+          (author) => ({ ...author, _id: author._id.toString() }) as Partial<Author>,
+        ),
+        total,
+        offset,
+        query.limit,
+      );
+    });
+
   const findById = (
     id: AuthorId,
   ): Effect.Effect<Author, DatabaseError | NotFoundError> =>
     Effect.tryPromise({
-      try: () => collection.findOne({ _id: new ObjectId(id) }),
+      try: () => collection.findOne({ _id: new ObjectId(id), ...NOT_DELETED }),
       catch: (error) =>
         new DatabaseError({
           message: `Failed to find author by id: ${error}`,
@@ -68,7 +157,7 @@ const make = Effect.gen(function* () {
     Effect.tryPromise({
       try: () =>
         collection
-          .find({ _id: { $in: ids.map((id) => new ObjectId(id)) } })
+          .find({ _id: { $in: ids.map((id) => new ObjectId(id)) }, ...NOT_DELETED })
           .toArray(),
       catch: (error) =>
         new DatabaseError({
@@ -89,18 +178,20 @@ const make = Effect.gen(function* () {
       const now = new Date();
       const authorToInsert = {
         ...authorData,
+        version: 1,
         createdAt: now,
         updatedAt: now,
       };
+      const options = yield* sessionOptions;
 
       const result = yield* Effect.tryPromise({
-        try: () => collection.insertOne(authorToInsert),
+        try: () => collection.insertOne(authorToInsert, options),
         catch: (error) =>
           new DatabaseError({ message: `Failed to create author: ${error}` }),
       });
 
       const insertedAuthor = yield* Effect.tryPromise({
-        try: () => collection.findOne({ _id: result.insertedId }),
+        try: () => collection.findOne({ _id: result.insertedId }, options),
         catch: (error) =>
           new DatabaseError({
             message: `Failed to find created author: ${error}`,
@@ -119,54 +210,328 @@ const make = Effect.gen(function* () {
       } as Author;
     });
 
+  // Tells a missing author apart from one that changed since expectedVersion
+  const notFoundOrConflict = (
+    id: AuthorId,
+    expectedVersion: number | undefined,
+  ): Effect.Effect<never, DatabaseError | NotFoundError | ConflictError> =>
+    Effect.gen(function* () {
+      const exists =
+        expectedVersion !== undefined &&
+        (yield* Effect.tryPromise({
+          try: () =>
+            collection.countDocuments(
+              { _id: new ObjectId(id), ...NOT_DELETED },
+              { limit: 1 },
+            ),
+          catch: (error) =>
+            new DatabaseError({ message: `Failed to find author: ${error}` }),
+        })) > 0;
+
+      return yield* exists
+        ? Effect.fail(
+            new ConflictError({
+              message: `Author with id ${id} was modified since version ${expectedVersion}`,
+            }),
+          )
+        : Effect.fail(
+            new NotFoundError({ message: `Author with id ${id} not found` }),
+          );
+    });
+
   const update = (
     id: AuthorId,
     updateData: UpdateAuthorRequest,
-  ): Effect.Effect<Author, DatabaseError | NotFoundError> =>
+    expectedVersion?: number,
+  ): Effect.Effect<
+    Revision<Author>,
+    DatabaseError | NotFoundError | ConflictError
+  > =>
     Effect.gen(function* () {
       const now = new Date();
+      const options = yield* sessionOptions;
       const result = yield* Effect.tryPromise({
         try: () =>
           collection.findOneAndUpdate(
-            { _id: new ObjectId(id) },
-            { $set: { ...updateData, updatedAt: now } },
-            { returnDocument: "after" },
+            {
+              _id: new ObjectId(id),
+              ...NOT_DELETED,
+              ...versionFilter(expectedVersion),
+            },
+            { $set: { ...updateData, updatedAt: now }, $inc: { version: 1 } },
+            { ...options, returnDocument: "before" },
           ),
         catch: (error) =>
           new DatabaseError({ message: `Failed to update author: ${error}` }),
       });
 
       if (!result) {
-        return yield* Effect.fail(
-          new NotFoundError({ message: `Author with id ${id} not found` }),
-        );
+        return yield* notFoundOrConflict(id, expectedVersion);
       }
 
-      return { ...result, _id: result._id.toString() } as Author;
+      return revise(
+        { ...result, _id: id } as Author,
+        updateData as Partial<Author>,
+        now,
+      );
     });
 
+  // Authors that other authors are being merged into; see markMergeTarget
+  const isMergeTarget = (id: AuthorId) =>
+    Effect.tryPromise({
+      try: () =>
+        collection.countDocuments(
+          { _id: new ObjectId(id), ...NOT_DELETED, ...MERGE_TARGET },
+          { limit: 1 },
+        ),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to find author: ${error}` }),
+    }).pipe(Effect.map((count) => count > 0));
+
+  // Moves the author to the trash; it stays there until restored or purged
   const deleteAuthor = (
     id: AuthorId,
-  ): Effect.Effect<void, DatabaseError | NotFoundError> =>
+    actor: Actor,
+    expectedVersion?: number,
+  ): Effect.Effect<
+    Revision<Author>,
+    DatabaseError | NotFoundError | ConflictError | BusinessError
+  > =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const options = yield* sessionOptions;
+      const result = yield* Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            {
+              _id: new ObjectId(id),
+              ...NOT_DELETED,
+              ...versionFilter(expectedVersion),
+              ...NOT_MERGE_TARGET,
+            },
+            {
+              $set: {
+                deletedAt: now,
+                deletedBy: actor.name,
+                deletedById: actor.ownerId,
+                updatedAt: now,
+              },
+              $inc: { version: 1 },
+            },
+            { ...options, returnDocument: "before" },
+          ),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to delete author: ${error}` }),
+      });
+
+      if (!result) {
+        if (yield* isMergeTarget(id)) {
+          return yield* Effect.fail(
+            new BusinessError({
+              message: `Author ${id} cannot be deleted while other authors are merged into it`,
+            }),
+          );
+        }
+        return yield* notFoundOrConflict(id, expectedVersion);
+      }
+
+      return revise(
+        { ...result, _id: id } as Author,
+        { deletedAt: now, deletedBy: actor.name, deletedById: actor.ownerId },
+        now,
+      );
+    });
+
+  /**
+   * Lists sourceId among the authors being merged into the author, which
+   * cannot be deleted until every one is unmarked again. Marking bumps the
+   * version, so a delete that read the author before fails as well.
+   */
+  const markMergeTarget = (
+    id: AuthorId,
+    sourceId: AuthorId,
+  ): Effect.Effect<Author, DatabaseError | NotFoundError> =>
     Effect.tryPromise({
-      try: () => collection.deleteOne({ _id: new ObjectId(id) }),
+      try: () =>
+        collection.findOneAndUpdate(
+          { _id: new ObjectId(id), ...NOT_DELETED },
+          {
+            $addToSet: { mergingFrom: sourceId },
+            $inc: { version: 1 },
+          },
+          { returnDocument: "after" },
+        ),
       catch: (error) =>
-        new DatabaseError({ message: `Failed to delete author: ${error}` }),
+        new DatabaseError({
+          message: `Failed to mark author as merge target: ${error}`,
+        }),
     }).pipe(
-      Effect.flatMap((result) =>
-        result.deletedCount > 0
-          ? Effect.succeed(undefined)
+      Effect.flatMap((author) =>
+        author
+          ? Effect.succeed({ ...author, _id: author._id.toString() } as Author)
+          : Effect.fail(
+              new NotFoundError({ message: `Author with id ${id} not found` }),
+            ),
+      ),
+    );
+
+  // The field is dropped with the last source, so that it only exists during a merge
+  const unmarkMergeTarget = (
+    id: AuthorId,
+    sourceId: AuthorId,
+  ): Effect.Effect<Author, DatabaseError | NotFoundError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.findOneAndUpdate(
+          { _id: new ObjectId(id) },
+          [
+            {
+              $set: {
+                mergingFrom: {
+                  $filter: {
+                    input: { $ifNull: ["$mergingFrom", []] },
+                    cond: { $ne: ["$$this", sourceId] },
+                  },
+                },
+              },
+            },
+            {
+              $set: {
+                mergingFrom: {
+                  $cond: [
+                    { $eq: [{ $size: "$mergingFrom" }, 0] },
+                    "$$REMOVE",
+                    "$mergingFrom",
+                  ],
+                },
+              },
+            },
+          ],
+          { returnDocument: "after" },
+        ),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to unmark author as merge target: ${error}`,
+        }),
+    }).pipe(
+      Effect.flatMap((author) =>
+        author
+          ? Effect.succeed({ ...author, _id: author._id.toString() } as Author)
           : Effect.fail(
               new NotFoundError({ message: `Author with id ${id} not found` }),
             ),
       ),
     );
 
+  const findDeleted = (): Effect.Effect<Author[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection
+          .find({ deletedAt: { $ne: null } })
+          .sort({ deletedAt: -1 })
+          .toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find deleted authors: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((authors) =>
+        authors.map((author) => ({ ...author, _id: author._id.toString() }) as Author),
+      ),
+    );
+
+  const findDeletedById = (
+    id: AuthorId,
+  ): Effect.Effect<Author, DatabaseError | NotFoundError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.findOne(
+          { _id: new ObjectId(id), deletedAt: { $ne: null } },
+        ),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find deleted author by id: ${error}`,
+        }),
+    }).pipe(
+      Effect.flatMap((author) =>
+        author
+          ? Effect.succeed({ ...author, _id: author._id.toString() } as Author)
+          : Effect.fail(
+              new NotFoundError({
+                message: `Author with id ${id} not found in trash`,
+              }),
+            ),
+      ),
+    );
+
+  const restore = (
+    id: AuthorId,
+  ): Effect.Effect<Revision<Author>, DatabaseError | NotFoundError> =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const options = yield* sessionOptions;
+      const result = yield* Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            { _id: new ObjectId(id), deletedAt: { $ne: null } },
+            {
+              $unset: { deletedAt: "", deletedBy: "", deletedById: "" },
+              $set: { updatedAt: now },
+              $inc: { version: 1 },
+            },
+            { ...options, returnDocument: "before" },
+          ),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to restore author: ${error}` }),
+      });
+
+      if (!result) {
+        return yield* Effect.fail(
+          new NotFoundError({
+            message: `Author with id ${id} not found in trash`,
+          }),
+        );
+      }
+
+      return revise({ ...result, _id: id } as Author, {}, now, [
+        "deletedAt",
+        "deletedBy",
+        "deletedById",
+      ]);
+    });
+
+  // Permanently removes a author; only authors already in the trash can be purged
+  const purge = (
+    id: AuthorId,
+  ): Effect.Effect<Author, DatabaseError | NotFoundError> =>
+    Effect.flatMap(sessionOptions, (options) =>
+      Effect.tryPromise({
+        try: () =>
+          collection.findOneAndDelete(
+            { _id: new ObjectId(id), deletedAt: { $ne: null } },
+            options,
+          ),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to purge author: ${error}` }),
+      }),
+    ).pipe(
+      Effect.flatMap((author) =>
+        author
+          ? Effect.succeed({ ...author, _id: id } as Author)
+          : Effect.fail(
+              new NotFoundError({
+                message: `Author with id ${id} not found in trash`,
+              }),
+            ),
+      ),
+    );
+
   const findByName = (name: string): Effect.Effect<Author[], DatabaseError> =>
     Effect.tryPromise({
       try: () =>
         collection
           .find({
+            ...NOT_DELETED,
             $or: [
               { firstName: new RegExp(name, "i") },
               { lastName: new RegExp(name, "i") },
@@ -186,13 +551,47 @@ const make = Effect.gen(function* () {
       ),
     );
 
+  // Exact match, ignoring case, as used for the duplicate name check
+  const findByFullName = (
+    fullName: string,
+  ): Effect.Effect<Option.Option<Author>, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.findOne({
+          ...NOT_DELETED,
+          fullName: new RegExp(`^${escapeRegExp(fullName)}$`, "i"),
+        }),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find author by full name: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((author) =>
+        Option.map(
+          Option.fromNullable(author),
+          (author) => ({ ...author, _id: author._id.toString() }) as Author,
+        ),
+      ),
+    );
+
+  const streamAll = (): Stream.Stream<Author, DatabaseError> =>
+    Stream.fromAsyncIterable(
+      collection.find(NOT_DELETED).sort({ _id: 1 }),
+      (error) =>
+        new DatabaseError({ message: `Failed to stream authors: ${error}` }),
+    ).pipe(
+      Stream.map(
+        (author) => ({ ...author, _id: author._id.toString() }) as Author,
+      ),
+    );
+
   const findByNationality = (
     nationality: string,
   ): Effect.Effect<Author[], DatabaseError> =>
     Effect.tryPromise({
       try: () =>
         collection
-          .find({ nationality: new RegExp(nationality, "i") })
+          .find({ ...NOT_DELETED, nationality: new RegExp(nationality, "i") })
           .toArray(),
       catch: (error) =>
         new DatabaseError({
@@ -206,16 +605,25 @@ const make = Effect.gen(function* () {
       ),
     );
 
-  return {
+  return instrumentRepository("AuthorRepository", {
     findAll,
+    findPage,
     findById,
     findByIds,
     create,
     update,
     delete: deleteAuthor,
+    markMergeTarget,
+    unmarkMergeTarget,
+    findDeleted,
+    findDeletedById,
+    restore,
+    purge,
     findByName,
+    findByFullName,
     findByNationality,
-  };
+    streamAll,
+  });
 });
 
 export const AuthorRepositoryLive = Layer.effect(AuthorRepository, make).pipe(
@@ -1,35 +1,388 @@
-import { Context, Effect, Layer, Option } from "effect";
-import { ObjectId } from "mongodb";
-import { MongoDB, MongoDBLive } from "../database";
+import { Context, Effect, Layer, Option, Stream } from "effect";
+import { Filter, Document, ObjectId } from "mongodb";
+import { MongoDB, MongoDBLive, sessionOptions } from "../database";
+import { instrumentRepository } from "./instrumentation";
 import {
   Book,
+  BookFilter,
   BookId,
+  BookListQuery,
   CreateBookRequest,
   UpdateBookRequest,
 } from "../models/book";
-import { DatabaseError, NotFoundError } from "../errors";
+import { AuthorId } from "../models/author";
+import { Actor } from "../models/auth";
+import {
+  Isbn,
+  IsbnMigration,
+  normalizeIsbn,
+  planIsbnMigration,
+} from "../models/isbn";
+import { STORE_CURRENCY, fromMajorUnits } from "../models/money";
+import {
+  StockChange,
+  StockMovement,
+  StockReconciliation,
+} from "../models/inventory";
+import {
+  BusinessError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+} from "../errors";
+import { Page, makePage } from "../models/query";
+import {
+  NOT_DELETED,
+  escapeRegExp,
+  isDuplicateKeyError,
+  Revision,
+  revise,
+  toMongoProjection,
+  toMongoSort,
+  toStoreMoney,
+  versionFilter,
+} from "./mongo-query";
+
+// What deleting or merging away an author does to the books that list them
+export interface AuthorshipChanges {
+  // Books to point at other authors
+  readonly reassign: ReadonlyArray<{
+    readonly book: Book;
+    readonly authorIds: ReadonlyArray<AuthorId>;
+  }>;
+  // Books the author wrote alone, to move to the trash
+  readonly trash: ReadonlyArray<Book>;
+}
 
 export interface BookRepository {
+  ensureIndexes: () => Effect.Effect<void, DatabaseError>;
+  migratePrices: () => Effect.Effect<number, DatabaseError>;
+  migrateStockMovements: () => Effect.Effect<number, DatabaseError>;
+  migrateIsbns: () => Effect.Effect<IsbnMigration, DatabaseError>;
   findAll: () => Effect.Effect<Book[], DatabaseError>;
+  findPage: (
+    query: BookListQuery,
+    filter?: BookFilter,
+  ) => Effect.Effect<Page<Partial<Book>>, DatabaseError>;
+  findByFilter: (filter: BookFilter) => Effect.Effect<Book[], DatabaseError>;
   findById: (id: BookId) => Effect.Effect<Book, DatabaseError | NotFoundError>;
-  create: (book: CreateBookRequest) => Effect.Effect<Book, DatabaseError>;
+  findByIds: (ids: BookId[]) => Effect.Effect<Book[], DatabaseError>;
+  findByIsbn: (isbn: Isbn) => Effect.Effect<Option.Option<Book>, DatabaseError>;
+  streamAll: () => Stream.Stream<Book, DatabaseError>;
+  create: (
+    book: CreateBookRequest,
+    actor: Actor,
+  ) => Effect.Effect<Book, DatabaseError | BusinessError>;
   update: (
     id: BookId,
     book: UpdateBookRequest,
+    actor: Actor,
+    expectedVersion?: number,
+  ) => Effect.Effect<
+    Revision<Book>,
+    DatabaseError | NotFoundError | ConflictError | BusinessError
+  >;
+  delete: (
+    id: BookId,
+    actor: Actor,
+    expectedVersion?: number,
+  ) => Effect.Effect<
+    Revision<Book>,
+    DatabaseError | NotFoundError | ConflictError
+  >;
+  findDeleted: () => Effect.Effect<Book[], DatabaseError>;
+  findDeletedById: (
+    id: BookId,
   ) => Effect.Effect<Book, DatabaseError | NotFoundError>;
-  delete: (id: BookId) => Effect.Effect<void, DatabaseError | NotFoundError>;
+  restore: (
+    id: BookId,
+  ) => Effect.Effect<
+    Revision<Book>,
+    DatabaseError | NotFoundError | BusinessError
+  >;
+  // Yields the book as it was purged
+  purge: (id: BookId) => Effect.Effect<Book, DatabaseError | NotFoundError>;
+  // Every book that lists the author, in the trash or not
+  findByAuthor: (authorId: AuthorId) => Effect.Effect<Book[], DatabaseError>;
+  // Writes every change in one bulk write, each provided the book is as it was read
+  changeAuthorship: (
+    changes: AuthorshipChanges,
+    actor: Actor,
+  ) => Effect.Effect<
+    { reassigned: Revision<Book>[]; trashed: Revision<Book>[] },
+    DatabaseError | ConflictError
+  >;
+  adjustStock: (
+    id: BookId,
+    delta: number,
+    change: StockChange,
+    expectedStock?: number,
+  ) => Effect.Effect<Option.Option<Book>, DatabaseError>;
+  // Stock coming back from an order, to a book in the trash as well; None once it is purged
+  returnStock: (
+    id: BookId,
+    quantity: number,
+    change: StockChange,
+  ) => Effect.Effect<Option.Option<Book>, DatabaseError>;
+  findStockHistory: (
+    id: BookId,
+  ) => Effect.Effect<StockMovement[], DatabaseError | NotFoundError>;
+  reconcileStock: (
+    id: BookId,
+  ) => Effect.Effect<StockReconciliation, DatabaseError | NotFoundError>;
+  findStockDrift: () => Effect.Effect<StockReconciliation[], DatabaseError>;
+  // Books outside the trash, and how many of them have no stock left
+  countStock: () => Effect.Effect<
+    { total: number; outOfStock: number },
+    DatabaseError
+  >;
 }
 
 export const BookRepository =
   Context.GenericTag<BookRepository>("BookRepository");
 
+const range = <A>(min: A | undefined, max: A | undefined) =>
+  min === undefined && max === undefined
+    ? undefined
+    : {
+        ...(min !== undefined ? { $gte: min } : {}),
+        ...(max !== undefined ? { $lte: max } : {}),
+      };
+
+// Stored prices are in minor units; price filters are given in major units
+const storeMinorUnits = (amount: number | undefined) =>
+  amount === undefined
+    ? undefined
+    : fromMajorUnits(amount, STORE_CURRENCY).amount;
+
+const toMongoFilter = (filter: BookFilter = {}): Filter<Document> => {
+  const query: Filter<Document> = { ...NOT_DELETED };
+
+  const price = range(
+    storeMinorUnits(filter.minPrice),
+    storeMinorUnits(filter.maxPrice),
+  );
+  if (price) query["price.amount"] = price;
+
+  const stock = range(filter.minStock, filter.maxStock);
+  if (stock) query.stock = stock;
+
+  const publishedDate = range(filter.publishedAfter, filter.publishedBefore);
+  if (publishedDate) query.publishedDate = publishedDate;
+
+  if (filter.genre && filter.genre.length > 0) {
+    // Genres are matched case-insensitively, like getBooksByGenre always has
+    query.genre = {
+      $in: filter.genre.map((genre) => new RegExp(`^${escapeRegExp(genre)}$`, "i")),
+    };
+  }
+
+  if (filter.authorIds && filter.authorIds.length > 0) {
+    query.authorIds = { $in: [...filter.authorIds] };
+  }
+
+  if (filter.isbnPrefix) {
+    // Stored ISBNs have no separators
+    const prefix = filter.isbnPrefix.replace(/[-\s]/g, "");
+    query.isbn = new RegExp(`^${escapeRegExp(prefix)}`);
+  }
+
+  return query;
+};
+
 const make = Effect.gen(function* () {
-  const { db } = yield* MongoDB;
+  const { db, transaction } = yield* MongoDB;
   const collection = db.collection("books");
+  const movements = db.collection("stock_movements");
+
+  // Books in the trash keep their ISBN, so uniqueness is on (isbn, deletedAt):
+  // live books all have no deletedAt and may not share an ISBN
+  const ensureIndexes = (): Effect.Effect<void, DatabaseError> =>
+    Effect.all([
+      Effect.tryPromise({
+        try: () =>
+          collection.createIndex(
+            { isbn: 1, deletedAt: 1 },
+            { name: "books_isbn_unique", unique: true },
+          ),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to create ISBN index: ${error}`,
+          }),
+      }),
+      Effect.tryPromise({
+        try: () =>
+          movements.createIndex(
+            { bookId: 1, createdAt: -1 },
+            { name: "stock_movements_book" },
+          ),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to create stock movement index: ${error}`,
+          }),
+      }),
+    ]).pipe(Effect.asVoid);
+
+  // Books saved before prices were Money hold a number of major units in the
+  // store currency; converts them in place and returns how many changed
+  const migratePrices = (): Effect.Effect<number, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.updateMany({ price: { $type: "number" } }, [
+          { $set: { price: toStoreMoney("$price") } },
+        ]),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to migrate book prices: ${error}`,
+        }),
+    }).pipe(Effect.map((result) => result.modifiedCount));
+
+  // Ledgers used to be embedded in the book as `stockMovements`; copies them
+  // into stock_movements, then drops them from the books that have one, so
+  // that it can be run again after an interruption. Returns how many books.
+  const migrateStockMovements = (): Effect.Effect<number, DatabaseError> =>
+    Effect.tryPromise({
+      try: async () => {
+        const embedded = { stockMovements: { $exists: true } };
+        await collection
+          .aggregate([
+            { $match: embedded },
+            { $unwind: "$stockMovements" },
+            {
+              $replaceRoot: {
+                newRoot: {
+                  $mergeObjects: [
+                    "$stockMovements",
+                    {
+                      _id: { $toObjectId: "$stockMovements._id" },
+                      bookId: { $toString: "$_id" },
+                    },
+                  ],
+                },
+              },
+            },
+            {
+              $merge: {
+                into: "stock_movements",
+                on: "_id",
+                whenMatched: "keepExisting",
+                whenNotMatched: "insert",
+              },
+            },
+          ])
+          .toArray();
+        return collection.updateMany(embedded, {
+          $unset: { stockMovements: "" },
+        });
+      },
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to migrate stock movements: ${error}`,
+        }),
+    }).pipe(Effect.map((result) => result.modifiedCount));
+
+  /**
+   * ISBNs used to be stored as given, so the unique index compared them as
+   * written. Run before ensureIndexes: stores every valid ISBN in its
+   * normalised form, and moves duplicates to the trash, each at its own
+   * moment, so that they no longer clash. Invalid ISBNs are left for an
+   * admin to correct.
+   */
+  const migrateIsbns = (): Effect.Effect<IsbnMigration, DatabaseError> =>
+    Effect.tryPromise({
+      try: async () => {
+        const books = await collection
+          .find({}, { projection: { isbn: 1, deletedAt: 1 } })
+          .sort({ _id: 1 })
+          .toArray();
+        const migration = planIsbnMigration(
+          books.map((book) => ({
+            id: book._id.toString(),
+            isbn: String(book.isbn ?? ""),
+            deletedAt: book.deletedAt ?? null,
+          })),
+        );
+
+        const now = Date.now();
+        // Duplicates leave their place first, so normalising never clashes
+        // with the unique index of an earlier run
+        const writes = [
+          ...migration.duplicates.map((book, i) => ({
+            updateOne: {
+              filter: { _id: new ObjectId(book.id) },
+              update: {
+                $set: {
+                  isbn: normalizeIsbn(book.isbn) ?? book.isbn,
+                  deletedAt: new Date(now + i),
+                  deletedBy: "ISBN migration",
+                  updatedAt: new Date(now),
+                },
+                $inc: { version: 1 },
+              },
+            },
+          })),
+          ...migration.normalized.map((book) => ({
+            updateOne: {
+              filter: { _id: new ObjectId(book.id) },
+              update: {
+                $set: { isbn: book.isbn, updatedAt: new Date(now) },
+                $inc: { version: 1 },
+              },
+            },
+          })),
+        ];
+        if (writes.length > 0) {
+          await collection.bulkWrite(writes);
+        }
+        return migration;
+      },
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to migrate ISBNs: ${error}`,
+        }),
+    });
+
+  /**
+   * A book's ledger is kept apart from it, so that it can grow without
+   * bound and outlives the book when it is purged. Every stock change runs
+   * in a transaction with its movement, so neither is kept without the other.
+   */
+  const recordMovement = (
+    bookId: string,
+    change: StockChange,
+    delta: number,
+    resultingStock: number,
+    createdAt: Date,
+  ) =>
+    Effect.gen(function* () {
+      const options = yield* sessionOptions;
+      const { actor, ...details } = change;
+      yield* Effect.tryPromise({
+        try: () =>
+          movements.insertOne(
+            {
+              bookId,
+              ...details,
+              actor: actor.name,
+              actorId: actor.ownerId,
+              keyId: actor.keyId,
+              delta,
+              resultingStock,
+              createdAt,
+            },
+            options,
+          ),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to record stock movement: ${error}`,
+          }),
+      });
+    });
 
   const findAll = (): Effect.Effect<Book[], DatabaseError> =>
     Effect.tryPromise({
-      try: () => collection.find({}).toArray(),
+      try: () =>
+        collection.find(NOT_DELETED).toArray(),
       catch: (error) =>
         new DatabaseError({
           message: `Failed to find all books: ${error}`,
@@ -40,11 +393,63 @@ const make = Effect.gen(function* () {
       ),
     );
 
+  const findPage = (
+    query: BookListQuery,
+    filter?: BookFilter,
+  ): Effect.Effect<Page<Partial<Book>>, DatabaseError> =>
+    Effect.gen(function* () {
+      const offset = query.cursor?.offset ?? 0;
+      const mongoFilter = toMongoFilter(filter);
+      const [books, total] = yield* Effect.tryPromise({
+        try: () =>
+          Promise.all([
+            collection
+              .find(mongoFilter, {
+                projection: toMongoProjection(query.fields),
+              })
+              .sort(toMongoSort(query.sort))
+              .skip(offset)
+              .limit(query.limit)
+              .toArray(),
+            collection.countDocuments(mongoFilter),
+          ]),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to find page of books: ${error}`,
+          }),
+      });
+
+      return makePage(
+        books.map(
+          (book) => ({ ...book, _id: book._id.toString() }) as Partial<Book>,
+        ),
+        total,
+        offset,
+        query.limit,
+      );
+    });
+
+  const findByFilter = (
+    filter: BookFilter,
+  ): Effect.Effect<Book[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () => collection.find(toMongoFilter(filter)).toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find books by filter: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((books) =>
+        books.map((book) => ({ ...book, _id: book._id.toString() }) as Book),
+      ),
+    );
+
   const findById = (
     id: BookId,
   ): Effect.Effect<Book, DatabaseError | NotFoundError> =>
     Effect.tryPromise({
-      try: () => collection.findOne({ _id: new ObjectId(id) }),
+      try: () =>
+        collection.findOne({ _id: new ObjectId(id), ...NOT_DELETED }),
       catch: (error) =>
         new DatabaseError({
           message: `Failed to find book by id: ${error}`,
@@ -59,90 +464,626 @@ const make = Effect.gen(function* () {
       ),
     );
 
+  const findByIds = (ids: BookId[]): Effect.Effect<Book[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection
+          .find({
+            _id: { $in: ids.map((id) => new ObjectId(id)) },
+            ...NOT_DELETED,
+          })
+          .toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find books by ids: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((books) =>
+        books.map((book) => ({ ...book, _id: book._id.toString() }) as Book),
+      ),
+    );
+
+  const findByIsbn = (
+    isbn: Isbn,
+  ): Effect.Effect<Option.Option<Book>, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.findOne({ isbn, ...NOT_DELETED }),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find book by ISBN: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((book) =>
+        Option.map(
+          Option.fromNullable(book),
+          (book) => ({ ...book, _id: book._id.toString() }) as Book,
+        ),
+      ),
+    );
+
+  // Reads the catalog in _id order without holding it all in memory
+  const streamAll = (): Stream.Stream<Book, DatabaseError> =>
+    Stream.fromAsyncIterable(
+      collection.find(NOT_DELETED).sort({ _id: 1 }),
+      (error) =>
+        new DatabaseError({ message: `Failed to stream books: ${error}` }),
+    ).pipe(
+      Stream.map((book) => ({ ...book, _id: book._id.toString() }) as Book),
+    );
+
   const create = (
     bookData: CreateBookRequest,
-  ): Effect.Effect<Book, DatabaseError> =>
+    actor: Actor,
+  ): Effect.Effect<Book, DatabaseError | BusinessError> =>
     Effect.gen(function* () {
       const now = new Date();
       const bookToInsert = {
         ...bookData,
+        version: 1,
         createdAt: now,
         updatedAt: now,
       };
 
+      const options = yield* sessionOptions;
       const result = yield* Effect.tryPromise({
-        try: () => collection.insertOne(bookToInsert),
+        try: () => collection.insertOne(bookToInsert, options),
         catch: (error) =>
-          new DatabaseError({ message: `Failed to create book: ${error}` }),
+          isDuplicateKeyError(error)
+            ? new BusinessError({
+                message: `Book with ISBN ${bookData.isbn} already exists`,
+              })
+            : new DatabaseError({ message: `Failed to create book: ${error}` }),
       });
 
+      yield* recordMovement(
+        result.insertedId.toString(),
+        { reason: "initial", actor },
+        bookData.stock,
+        bookData.stock,
+        now,
+      );
+
       const insertedBook = yield* Effect.tryPromise({
-        try: () => collection.findOne({ _id: result.insertedId }),
+        try: () => collection.findOne({ _id: result.insertedId }, options),
         catch: (error) =>
           new DatabaseError({
             message: `Failed to find created book: ${error}`,
           }),
       });
 
-      if (!insertedBook) {
-        return yield* Effect.fail(
-          new DatabaseError({ message: "Failed to create book" }),
-        );
+      if (insertedBook) {
+        return { ...insertedBook, _id: insertedBook._id.toString() } as Book;
       }
 
-      return { ...insertedBook!, _id: insertedBook!._id.toString() } as Book;
+      return yield* Effect.fail(
+        new DatabaseError({ message: "Failed to create book" }),
+      );
+    }).pipe(transaction);
+
+  // Tells a missing book apart from one that changed since expectedVersion
+  const notFoundOrConflict = (
+    id: BookId,
+    expectedVersion: number | undefined,
+  ): Effect.Effect<never, DatabaseError | NotFoundError | ConflictError> =>
+    Effect.gen(function* () {
+      const exists =
+        expectedVersion !== undefined &&
+        (yield* Effect.tryPromise({
+          try: () =>
+            collection.countDocuments(
+              { _id: new ObjectId(id), ...NOT_DELETED },
+              { limit: 1 },
+            ),
+          catch: (error) =>
+            new DatabaseError({ message: `Failed to find book: ${error}` }),
+        })) > 0;
+
+      return yield* exists
+        ? Effect.fail(
+            new ConflictError({
+              message: `Book with id ${id} was modified since version ${expectedVersion}`,
+            }),
+          )
+        : Effect.fail(
+            new NotFoundError({ message: `Book with id ${id} not found` }),
+          );
     });
 
   const update = (
     id: BookId,
     updateData: UpdateBookRequest,
+    actor: Actor,
+    expectedVersion?: number,
+  ): Effect.Effect<
+    Revision<Book>,
+    DatabaseError | NotFoundError | ConflictError | BusinessError
+  > =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const options = yield* sessionOptions;
+      // The book as it was, from which the stock change and the result follow
+      const result = yield* Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            {
+              _id: new ObjectId(id),
+              ...NOT_DELETED,
+              ...versionFilter(expectedVersion),
+            },
+            { $set: { ...updateData, updatedAt: now }, $inc: { version: 1 } },
+            { ...options, returnDocument: "before" },
+          ),
+        catch: (error) =>
+          isDuplicateKeyError(error)
+            ? new BusinessError({
+                message: `Book with ISBN ${updateData.isbn} already exists`,
+              })
+            : new DatabaseError({ message: `Failed to update book: ${error}` }),
+      });
+
+      if (!result) {
+        return yield* notFoundOrConflict(id, expectedVersion);
+      }
+
+      // Setting stock directly is recorded in the ledger as a correction
+      if (updateData.stock !== undefined) {
+        yield* recordMovement(
+          id,
+          { reason: "correction", actor },
+          updateData.stock - result.stock,
+          updateData.stock,
+          now,
+        );
+      }
+
+      return revise(
+        { ...result, _id: id } as Book,
+        updateData as Partial<Book>,
+        now,
+      );
+    }).pipe(transaction);
+
+  // Moves the book to the trash; it stays there until restored or purged
+  const deleteBook = (
+    id: BookId,
+    actor: Actor,
+    expectedVersion?: number,
+  ): Effect.Effect<
+    Revision<Book>,
+    DatabaseError | NotFoundError | ConflictError
+  > =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const options = yield* sessionOptions;
+      const result = yield* Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            {
+              _id: new ObjectId(id),
+              ...NOT_DELETED,
+              ...versionFilter(expectedVersion),
+            },
+            {
+              $set: {
+                deletedAt: now,
+                deletedBy: actor.name,
+                deletedById: actor.ownerId,
+                updatedAt: now,
+              },
+              $inc: { version: 1 },
+            },
+            { ...options, returnDocument: "before" },
+          ),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to delete book: ${error}` }),
+      });
+
+      if (!result) {
+        return yield* notFoundOrConflict(id, expectedVersion);
+      }
+
+      return revise(
+        { ...result, _id: id } as Book,
+        { deletedAt: now, deletedBy: actor.name, deletedById: actor.ownerId },
+        now,
+      );
+    });
+
+  const findDeleted = (): Effect.Effect<Book[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection
+          .find({ deletedAt: { $ne: null } })
+          .sort({ deletedAt: -1 })
+          .toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find deleted books: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((books) =>
+        books.map((book) => ({ ...book, _id: book._id.toString() }) as Book),
+      ),
+    );
+
+  const findDeletedById = (
+    id: BookId,
   ): Effect.Effect<Book, DatabaseError | NotFoundError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.findOne({ _id: new ObjectId(id), deletedAt: { $ne: null } }),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find deleted book by id: ${error}`,
+        }),
+    }).pipe(
+      Effect.flatMap((book) =>
+        book
+          ? Effect.succeed({ ...book, _id: book._id.toString() } as Book)
+          : Effect.fail(
+              new NotFoundError({
+                message: `Book with id ${id} not found in trash`,
+              }),
+            ),
+      ),
+    );
+
+  const restore = (
+    id: BookId,
+  ): Effect.Effect<
+    Revision<Book>,
+    DatabaseError | NotFoundError | BusinessError
+  > =>
     Effect.gen(function* () {
       const now = new Date();
+      const options = yield* sessionOptions;
       const result = yield* Effect.tryPromise({
         try: () =>
           collection.findOneAndUpdate(
-            { _id: new ObjectId(id) },
-            { $set: { ...updateData, updatedAt: now } },
-            { returnDocument: "after" },
+            { _id: new ObjectId(id), deletedAt: { $ne: null } },
+            {
+              $unset: { deletedAt: "", deletedBy: "", deletedById: "" },
+              $set: { updatedAt: now },
+              $inc: { version: 1 },
+            },
+            { ...options, returnDocument: "before" },
           ),
+        // Another book may have taken the ISBN while this one was in the trash
         catch: (error) =>
-          new DatabaseError({ message: `Failed to update book: ${error}` }),
+          isDuplicateKeyError(error)
+            ? new BusinessError({
+                message: `Another book already has the ISBN of book ${id}`,
+              })
+            : new DatabaseError({ message: `Failed to restore book: ${error}` }),
       });
 
       if (!result) {
         return yield* Effect.fail(
-          new NotFoundError({ message: `Book with id ${id} not found` }),
+          new NotFoundError({ message: `Book with id ${id} not found in trash` }),
         );
       }
 
-      return { ...result, _id: result._id.toString() } as Book;
+      return revise({ ...result, _id: id } as Book, {}, now, [
+        "deletedAt",
+        "deletedBy",
+        "deletedById",
+      ]);
     });
 
-  const deleteBook = (
+  // Permanently removes a book, but not its stock ledger; only books already in the trash can be purged
+  const purge = (
+    id: BookId,
+  ): Effect.Effect<Book, DatabaseError | NotFoundError> =>
+    Effect.flatMap(sessionOptions, (options) =>
+      Effect.tryPromise({
+        try: () =>
+          collection.findOneAndDelete(
+            { _id: new ObjectId(id), deletedAt: { $ne: null } },
+            options,
+          ),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to purge book: ${error}` }),
+      }),
+    ).pipe(
+      Effect.flatMap((book) =>
+        book
+          ? Effect.succeed({ ...book, _id: id } as Book)
+          : Effect.fail(
+              new NotFoundError({
+                message: `Book with id ${id} not found in trash`,
+              }),
+            ),
+      ),
+    );
+
+  const findByAuthor = (
+    authorId: AuthorId,
+  ): Effect.Effect<Book[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () => collection.find({ authorIds: authorId }).toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find books by author: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((books) =>
+        books.map((book) => ({ ...book, _id: book._id.toString() }) as Book),
+      ),
+    );
+
+  // Each book is matched on the authors and version it was read with, so
+  // the revisions built from the books as read are the ones written; a book
+  // that no longer matches fails the whole change, transaction and all
+  const changeAuthorship = (
+    { reassign, trash }: AuthorshipChanges,
+    actor: Actor,
+  ): Effect.Effect<
+    { reassigned: Revision<Book>[]; trashed: Revision<Book>[] },
+    DatabaseError | ConflictError
+  > =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const options = yield* sessionOptions;
+      const asRead = (book: Book) => ({
+        _id: new ObjectId(book._id),
+        authorIds: [...book.authorIds],
+        ...versionFilter(book.version),
+      });
+      const trashed = {
+        deletedAt: now,
+        deletedBy: actor.name,
+        deletedById: actor.ownerId,
+      };
+      const writes = [
+        ...reassign.map(({ book, authorIds }) => ({
+          updateOne: {
+            filter: asRead(book),
+            update: {
+              $set: { authorIds: [...authorIds], updatedAt: now },
+              $inc: { version: 1 },
+            },
+          },
+        })),
+        ...trash.map((book) => ({
+          updateOne: {
+            filter: { ...asRead(book), ...NOT_DELETED },
+            update: {
+              $set: { ...trashed, updatedAt: now },
+              $inc: { version: 1 },
+            },
+          },
+        })),
+      ];
+      if (writes.length > 0) {
+        const result = yield* Effect.tryPromise({
+          try: () => collection.bulkWrite(writes, options),
+          catch: (error) =>
+            new DatabaseError({
+              message: `Failed to change authors of books: ${error}`,
+            }),
+        });
+        if (result.matchedCount < writes.length) {
+          return yield* Effect.fail(
+            new ConflictError({
+              message: `${writes.length - result.matchedCount} of ${writes.length} book(s) changed since they were read`,
+            }),
+          );
+        }
+      }
+
+      return {
+        reassigned: reassign.map(({ book, authorIds }) =>
+          revise(book, { authorIds: [...authorIds] }, now),
+        ),
+        trashed: trash.map((book) => revise(book, trashed, now)),
+      };
+    });
+
+  // One conditional update of the book matching `filter`, and its movement
+  const changeStock = (
+    id: BookId,
+    filter: Filter<Document>,
+    delta: number,
+    change: StockChange,
+  ): Effect.Effect<Option.Option<Book>, DatabaseError> =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const options = yield* sessionOptions;
+      const book = yield* Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            { _id: new ObjectId(id), ...filter },
+            { $inc: { stock: delta, version: 1 }, $set: { updatedAt: now } },
+            { ...options, returnDocument: "after" },
+          ),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to adjust book stock: ${error}` }),
+      });
+      if (!book) {
+        return Option.none();
+      }
+
+      yield* recordMovement(id, change, delta, book.stock, now);
+      return Option.some({ ...book, _id: book._id.toString() } as Book);
+    }).pipe(transaction);
+
+  // Yields None when the book does not exist, the change would take its stock
+  // below zero, or its stock is not expectedStock
+  const adjustStock = (
+    id: BookId,
+    delta: number,
+    change: StockChange,
+    expectedStock?: number,
+  ): Effect.Effect<Option.Option<Book>, DatabaseError> =>
+    changeStock(
+      id,
+      {
+        ...NOT_DELETED,
+        stock:
+          expectedStock === undefined
+            ? { $gte: -delta }
+            : { $gte: -delta, $eq: expectedStock },
+      },
+      delta,
+      change,
+    );
+
+  const returnStock = (
     id: BookId,
-  ): Effect.Effect<void, DatabaseError | NotFoundError> =>
+    quantity: number,
+    change: StockChange,
+  ): Effect.Effect<Option.Option<Book>, DatabaseError> =>
+    changeStock(id, {}, quantity, change);
+
+  // Newest first; movements of the same moment keep the order they were written in
+  const findStockHistory = (
+    id: BookId,
+  ): Effect.Effect<StockMovement[], DatabaseError | NotFoundError> =>
+    Effect.gen(function* () {
+      yield* findById(id);
+      const history = yield* Effect.tryPromise({
+        try: () =>
+          movements
+            .find({ bookId: id }, { projection: { bookId: 0 } })
+            .sort({ createdAt: -1, _id: -1 })
+            .toArray(),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to find stock history: ${error}`,
+          }),
+      });
+      return history.map(
+        (movement) =>
+          ({ ...movement, _id: movement._id.toString() }) as StockMovement,
+      );
+    });
+
+  // Recomputes stock as the sum of ledger deltas and compares it with `stock`
+  const reconciliationPipeline = (match: Document) => [
+    { $match: match },
+    {
+      $lookup: {
+        from: "stock_movements",
+        let: { bookId: { $toString: "$_id" } },
+        pipeline: [
+          { $match: { $expr: { $eq: ["$bookId", "$$bookId"] } } },
+          {
+            $group: {
+              _id: null,
+              ledgerStock: { $sum: "$delta" },
+              movements: { $sum: 1 },
+            },
+          },
+        ],
+        as: "ledger",
+      },
+    },
+    {
+      $project: {
+        _id: 0,
+        bookId: { $toString: "$_id" },
+        title: 1,
+        stock: 1,
+        ledgerStock: {
+          $ifNull: [{ $arrayElemAt: ["$ledger.ledgerStock", 0] }, 0],
+        },
+        movements: { $ifNull: [{ $arrayElemAt: ["$ledger.movements", 0] }, 0] },
+      },
+    },
+    { $set: { drift: { $subtract: ["$stock", "$ledgerStock"] } } },
+  ];
+
+  const reconcileStock = (
+    id: BookId,
+  ): Effect.Effect<StockReconciliation, DatabaseError | NotFoundError> =>
     Effect.tryPromise({
-      try: () => collection.deleteOne({ _id: new ObjectId(id) }),
+      try: () =>
+        collection
+          .aggregate<StockReconciliation>(
+            reconciliationPipeline({ _id: new ObjectId(id), ...NOT_DELETED }),
+          )
+          .toArray(),
       catch: (error) =>
-        new DatabaseError({ message: `Failed to delete book: ${error}` }),
+        new DatabaseError({ message: `Failed to reconcile stock: ${error}` }),
     }).pipe(
-      Effect.flatMap((result) =>
-        result.deletedCount > 0
-          ? Effect.succeed(undefined)
+      Effect.flatMap(([reconciliation]) =>
+        reconciliation
+          ? Effect.succeed(reconciliation)
           : Effect.fail(
               new NotFoundError({ message: `Book with id ${id} not found` }),
             ),
       ),
     );
 
-  return {
+  const findStockDrift = (): Effect.Effect<
+    StockReconciliation[],
+    DatabaseError
+  > =>
+    Effect.tryPromise({
+      try: () =>
+        collection
+          .aggregate<StockReconciliation>([
+            ...reconciliationPipeline(NOT_DELETED),
+            { $match: { drift: { $ne: 0 } } },
+          ])
+          .toArray(),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to reconcile stock: ${error}` }),
+    });
+
+  const countStock = () =>
+    Effect.tryPromise({
+      try: () =>
+        collection
+          .aggregate<{ total: number; outOfStock: number }>([
+            { $match: NOT_DELETED },
+            {
+              $group: {
+                _id: null,
+                total: { $sum: 1 },
+                outOfStock: { $sum: { $cond: [{ $lte: ["$stock", 0] }, 1, 0] } },
+              },
+            },
+          ])
+          .toArray(),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to count books: ${error}` }),
+    }).pipe(
+      Effect.map(([counts]) => ({
+        total: counts?.total ?? 0,
+        outOfStock: counts?.outOfStock ?? 0,
+      })),
+    );
+
+  return instrumentRepository("BookRepository", {
+    ensureIndexes,
+    migratePrices,
+    migrateStockMovements,
+    migrateIsbns,
     findAll,
+    findPage,
+    findByFilter,
     findById,
+    findByIds,
+    findByIsbn,
+    streamAll,
     create,
     update,
     delete: deleteBook,
-  };
+    findDeleted,
+    findDeletedById,
+    restore,
+    purge,
+    findByAuthor,
+    changeAuthorship,
+    adjustStock,
+    returnStock,
+    findStockHistory,
+    reconcileStock,
+    findStockDrift,
+    countStock,
+  });
 });
 
 export const BookRepositoryLive = Layer.effect(BookRepository, make).pipe(
@@ -0,0 +1,53 @@
+import { Clock, Effect, Exit, Metric } from "effect";
+import { mongoOperationDuration } from "../metrics/metrics";
+
+// The first argument of most methods is the id of the record they act on
+const OBJECT_ID = /^[0-9a-f]{24}$/;
+
+/**
+ * Wraps each method of a repository that returns an Effect so that it runs
+ * in a span named `Repository.method`, carrying the id of the record it
+ * acts on, and its duration is recorded in mongoOperationDuration. Methods
+ * returning a Stream are left as they are: their work happens as the
+ * stream is read.
+ */
+export const instrumentRepository = <S extends object>(
+  repository: string,
+  service: S,
+): S =>
+  Object.fromEntries(
+    Object.entries(service).map(([method, run]) => [
+      method,
+      typeof run === "function"
+        ? (...args: ReadonlyArray<unknown>) => {
+            const result = run(...args);
+            if (!Effect.isEffect(result)) {
+              return result;
+            }
+            const timer = (exit: Exit.Exit<unknown, unknown>) =>
+              mongoOperationDuration.pipe(
+                Metric.tagged("repository", repository),
+                Metric.tagged("method", method),
+                Metric.tagged("outcome", Exit.isSuccess(exit) ? "success" : "failure"),
+              );
+            const [id] = args;
+            return Effect.flatMap(Clock.currentTimeNanos, (start) =>
+              Effect.onExit(result, (exit) =>
+                Effect.flatMap(Clock.currentTimeNanos, (end) =>
+                  Metric.update(timer(exit), Number(end - start) / 1e9),
+                ),
+              ),
+            ).pipe(
+              Effect.withSpan(`${repository}.${method}`, {
+                attributes: {
+                  "db.system": "mongodb",
+                  ...(typeof id === "string" && OBJECT_ID.test(id)
+                    ? { "entity.id": id }
+                    : {}),
+                },
+              }),
+            );
+          }
+        : run,
+    ]),
+  ) as S;
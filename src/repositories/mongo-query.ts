@@ -0,0 +1,86 @@
+import { Document, MongoServerError, Sort } from "mongodb";
+import { ListQuery } from "../models/query";
+import { STORE_CURRENCY, minorUnitDigits } from "../models/money";
+
+export const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Matches records that have not been moved to the trash
+export const NOT_DELETED = { deletedAt: null };
+
+// Always break ties on _id so that offsets stay stable between pages
+export const toMongoSort = (sort: ListQuery["sort"]): Sort => {
+  const spec: Record<string, 1 | -1> = {};
+  for (const key of sort ?? []) {
+    if (key.startsWith("-")) {
+      spec[key.slice(1)] = -1;
+    } else {
+      spec[key] = 1;
+    }
+  }
+  return { ...spec, _id: 1 };
+};
+
+export const toMongoProjection = (
+  fields: ListQuery["fields"],
+): Document | undefined =>
+  fields && fields.length > 0
+    ? Object.fromEntries(fields.map((field) => [field, 1]))
+    : undefined;
+
+// Restricts a write to the given version when the caller supplied one
+export const versionFilter = (expectedVersion: number | undefined) =>
+  expectedVersion === undefined ? {} : { version: expectedVersion };
+
+// A record as a write found it and as it left it, and when the write was made
+export interface Revision<A> {
+  readonly before: A;
+  readonly after: A;
+  readonly at: Date;
+}
+
+// The bookkeeping fields every write to a versioned record touches
+interface Versioned {
+  readonly version?: number;
+  readonly updatedAt?: Date;
+}
+
+/**
+ * What a write that found `before` (its `returnDocument: "before"`) did to
+ * it, given the fields it set and unset, so that the write can report both
+ * without reading the record again, which would race with other writes.
+ */
+export const revise = <A extends Versioned>(
+  before: A,
+  set: Partial<A>,
+  now: Date,
+  unset: ReadonlyArray<keyof A> = [],
+): Revision<A> => {
+  const after: Partial<A> = { ...before, ...set };
+  for (const field of unset) {
+    delete after[field];
+  }
+  return {
+    before,
+    after: { ...after, version: (before.version ?? 0) + 1, updatedAt: now } as A,
+    at: now,
+  };
+};
+
+// Raised by inserts and updates that would break a unique index
+export const isDuplicateKeyError = (error: unknown) =>
+  error instanceof MongoServerError && error.code === 11000;
+
+// Pipeline expression turning a number of major units in the store currency,
+// as amounts were stored before Money, into Money
+export const toStoreMoney = (majorUnits: unknown): Document => ({
+  amount: {
+    $toLong: {
+      $round: [
+        { $multiply: [majorUnits, 10 ** minorUnitDigits(STORE_CURRENCY)] },
+        0,
+      ],
+    },
+  },
+  currency: { $literal: STORE_CURRENCY },
+});
@@ -0,0 +1,195 @@
+import { Context, Effect, Layer, Option } from "effect";
+import { ObjectId } from "mongodb";
+import { MongoDB, MongoDBLive, sessionOptions } from "../database";
+import { instrumentRepository } from "./instrumentation";
+import {
+  Order,
+  OrderId,
+  OrderLine,
+  OrderListQuery,
+  OrderStatus,
+} from "../models/order";
+import { Money } from "../models/money";
+import { DatabaseError, NotFoundError } from "../errors";
+import { Page, makePage } from "../models/query";
+import { toMongoProjection, toMongoSort, toStoreMoney } from "./mongo-query";
+
+export interface NewOrder {
+  readonly _id: OrderId;
+  readonly items: ReadonlyArray<OrderLine>;
+  readonly itemCount: number;
+  readonly total: Money;
+  readonly couponCode?: string;
+}
+
+export interface OrderRepository {
+  // Taken before the order is saved, so that what is done for it can refer to it
+  newId: () => OrderId;
+  migratePrices: () => Effect.Effect<number, DatabaseError>;
+  findPage: (
+    query: OrderListQuery,
+  ) => Effect.Effect<Page<Partial<Order>>, DatabaseError>;
+  findById: (id: OrderId) => Effect.Effect<Order, DatabaseError | NotFoundError>;
+  create: (order: NewOrder) => Effect.Effect<Order, DatabaseError>;
+  transitionStatus: (
+    id: OrderId,
+    from: ReadonlyArray<OrderStatus>,
+    to: OrderStatus,
+  ) => Effect.Effect<Option.Option<Order>, DatabaseError>;
+}
+
+export const OrderRepository =
+  Context.GenericTag<OrderRepository>("OrderRepository");
+
+const make = Effect.gen(function* () {
+  const { db } = yield* MongoDB;
+  const collection = db.collection("orders");
+
+  // Converts orders whose amounts predate Money, like BookRepository.migratePrices
+  const migratePrices = (): Effect.Effect<number, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.updateMany({ total: { $type: "number" } }, [
+          {
+            $set: {
+              items: {
+                $map: {
+                  input: "$items",
+                  in: {
+                    $mergeObjects: [
+                      "$$this",
+                      {
+                        unitPrice: toStoreMoney("$$this.unitPrice"),
+                        lineTotal: toStoreMoney("$$this.lineTotal"),
+                      },
+                    ],
+                  },
+                },
+              },
+              total: toStoreMoney("$total"),
+            },
+          },
+        ]),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to migrate order amounts: ${error}`,
+        }),
+    }).pipe(Effect.map((result) => result.modifiedCount));
+
+  const findPage = (
+    query: OrderListQuery,
+  ): Effect.Effect<Page<Partial<Order>>, DatabaseError> =>
+    Effect.gen(function* () {
+      const offset = query.cursor?.offset ?? 0;
+      const [orders, total] = yield* Effect.tryPromise({
+        try: () =>
+          Promise.all([
+            collection
+              .find({}, { projection: toMongoProjection(query.fields) })
+              .sort(toMongoSort(query.sort))
+              .skip(offset)
+              .limit(query.limit)
+              .toArray(),
+            collection.countDocuments({}),
+          ]),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to find page of orders: ${error}`,
+          }),
+      });
+
+      return makePage(
+        orders.map(
+          (order) => ({ ...order, _id: order._id.toString() }) as Partial<Order>,
+        ),
+        total,
+        offset,
+        query.limit,
+      );
+    });
+
+  const findById = (
+    id: OrderId,
+  ): Effect.Effect<Order, DatabaseError | NotFoundError> =>
+    Effect.tryPromise({
+      try: () => collection.findOne({ _id: new ObjectId(id) }),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find order by id: ${error}`,
+        }),
+    }).pipe(
+      Effect.flatMap((order) =>
+        order
+          ? Effect.succeed({ ...order, _id: order._id.toString() } as Order)
+          : Effect.fail(
+              new NotFoundError({ message: `Order with id ${id} not found` }),
+            ),
+      ),
+    );
+
+  const newId = () => new ObjectId().toString() as OrderId;
+
+  const create = (orderData: NewOrder): Effect.Effect<Order, DatabaseError> =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const orderToInsert = {
+        ...orderData,
+        status: "pending" as const,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      yield* Effect.tryPromise({
+        try: () =>
+          collection.insertOne({
+            ...orderToInsert,
+            _id: new ObjectId(orderData._id),
+          }),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to create order: ${error}` }),
+      });
+
+      return orderToInsert as Order;
+    });
+
+  // Compare-and-set on status so concurrent transitions cannot both succeed
+  const transitionStatus = (
+    id: OrderId,
+    from: ReadonlyArray<OrderStatus>,
+    to: OrderStatus,
+  ): Effect.Effect<Option.Option<Order>, DatabaseError> =>
+    Effect.flatMap(sessionOptions, (options) =>
+      Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            { _id: new ObjectId(id), status: { $in: [...from] } },
+            { $set: { status: to, updatedAt: new Date() } },
+            { ...options, returnDocument: "after" },
+          ),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to update order status: ${error}`,
+          }),
+      }),
+    ).pipe(
+      Effect.map((order) =>
+        Option.map(
+          Option.fromNullable(order),
+          (order) => ({ ...order, _id: order._id.toString() }) as Order,
+        ),
+      ),
+    );
+
+  return instrumentRepository("OrderRepository", {
+    newId,
+    migratePrices,
+    findPage,
+    findById,
+    create,
+    transitionStatus,
+  });
+});
+
+export const OrderRepositoryLive = Layer.effect(OrderRepository, make).pipe(
+  Layer.provide(MongoDBLive),
+);
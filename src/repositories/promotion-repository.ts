@@ -0,0 +1,329 @@
+import { Context, Effect, Layer, Option } from "effect";
+import { Document, ObjectId } from "mongodb";
+import { MongoDB, MongoDBLive, sessionOptions } from "../database";
+import { instrumentRepository } from "./instrumentation";
+import {
+  CreatePromotionRequest,
+  Promotion,
+  PromotionId,
+  PromotionListQuery,
+  UpdatePromotionRequest,
+} from "../models/promotion";
+import {
+  BusinessError,
+  ConflictError,
+  DatabaseError,
+  NotFoundError,
+} from "../errors";
+import { Page, makePage } from "../models/query";
+import {
+  isDuplicateKeyError,
+  toMongoProjection,
+  toMongoSort,
+  versionFilter,
+} from "./mongo-query";
+
+export interface PromotionRepository {
+  ensureIndexes: () => Effect.Effect<void, DatabaseError>;
+  findPage: (
+    query: PromotionListQuery,
+  ) => Effect.Effect<Page<Partial<Promotion>>, DatabaseError>;
+  findById: (
+    id: PromotionId,
+  ) => Effect.Effect<Promotion, DatabaseError | NotFoundError>;
+  findRunning: (now: Date) => Effect.Effect<Promotion[], DatabaseError>;
+  findByCouponCode: (
+    code: string,
+  ) => Effect.Effect<Option.Option<Promotion>, DatabaseError>;
+  create: (
+    promotion: CreatePromotionRequest,
+  ) => Effect.Effect<Promotion, DatabaseError | BusinessError>;
+  update: (
+    id: PromotionId,
+    promotion: UpdatePromotionRequest,
+    expectedVersion?: number,
+  ) => Effect.Effect<
+    Promotion,
+    DatabaseError | NotFoundError | ConflictError | BusinessError
+  >;
+  delete: (
+    id: PromotionId,
+    expectedVersion?: number,
+  ) => Effect.Effect<void, DatabaseError | NotFoundError | ConflictError>;
+  redeem: (code: string) => Effect.Effect<boolean, DatabaseError>;
+  release: (code: string) => Effect.Effect<void, DatabaseError>;
+}
+
+export const PromotionRepository =
+  Context.GenericTag<PromotionRepository>("PromotionRepository");
+
+const toPromotion = (promotion: Document) =>
+  ({ ...promotion, _id: promotion._id.toString() }) as Promotion;
+
+// Matches promotions whose date window contains `now`
+const runningAt = (now: Date): Document => ({
+  $and: [
+    { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+    { $or: [{ endsAt: null }, { endsAt: { $gte: now } }] },
+  ],
+});
+
+const make = Effect.gen(function* () {
+  const { db } = yield* MongoDB;
+  const collection = db.collection("promotions");
+
+  // Sparse, so any number of promotions can have no coupon code
+  const ensureIndexes = (): Effect.Effect<void, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.createIndex(
+          { couponCode: 1 },
+          { name: "promotions_coupon_unique", unique: true, sparse: true },
+        ),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to create coupon code index: ${error}`,
+        }),
+    }).pipe(Effect.asVoid);
+
+  const findPage = (
+    query: PromotionListQuery,
+  ): Effect.Effect<Page<Partial<Promotion>>, DatabaseError> =>
+    Effect.gen(function* () {
+      const offset = query.cursor?.offset ?? 0;
+      const [promotions, total] = yield* Effect.tryPromise({
+        try: () =>
+          Promise.all([
+            collection
+              .find({}, { projection: toMongoProjection(query.fields) })
+              .sort(toMongoSort(query.sort))
+              .skip(offset)
+              .limit(query.limit)
+              .toArray(),
+            collection.countDocuments({}),
+          ]),
+        catch: (error) =>
+          new DatabaseError({
+            message: `Failed to find page of promotions: ${error}`,
+          }),
+      });
+
+      return makePage(
+        promotions.map(
+          (promotion) =>
+            ({ ...promotion, _id: promotion._id.toString() }) as Partial<Promotion>,
+        ),
+        total,
+        offset,
+        query.limit,
+      );
+    });
+
+  const findById = (
+    id: PromotionId,
+  ): Effect.Effect<Promotion, DatabaseError | NotFoundError> =>
+    Effect.tryPromise({
+      try: () => collection.findOne({ _id: new ObjectId(id) }),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find promotion by id: ${error}`,
+        }),
+    }).pipe(
+      Effect.flatMap((promotion) =>
+        promotion
+          ? Effect.succeed(toPromotion(promotion))
+          : Effect.fail(
+              new NotFoundError({ message: `Promotion with id ${id} not found` }),
+            ),
+      ),
+    );
+
+  const findRunning = (now: Date): Effect.Effect<Promotion[], DatabaseError> =>
+    Effect.tryPromise({
+      try: () => collection.find(runningAt(now)).toArray(),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find running promotions: ${error}`,
+        }),
+    }).pipe(Effect.map((promotions) => promotions.map(toPromotion)));
+
+  const findByCouponCode = (
+    code: string,
+  ): Effect.Effect<Option.Option<Promotion>, DatabaseError> =>
+    Effect.tryPromise({
+      try: () => collection.findOne({ couponCode: code }),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to find promotion by coupon code: ${error}`,
+        }),
+    }).pipe(
+      Effect.map((promotion) =>
+        Option.map(Option.fromNullable(promotion), toPromotion),
+      ),
+    );
+
+  const duplicateCoupon = (code: string | undefined) =>
+    new BusinessError({
+      message: `A promotion with coupon code ${code} already exists`,
+    });
+
+  const create = (
+    promotionData: CreatePromotionRequest,
+  ): Effect.Effect<Promotion, DatabaseError | BusinessError> =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const promotionToInsert = {
+        ...promotionData,
+        usageCount: 0,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const result = yield* Effect.tryPromise({
+        try: () => collection.insertOne({ ...promotionToInsert }),
+        catch: (error) =>
+          isDuplicateKeyError(error)
+            ? duplicateCoupon(promotionData.couponCode)
+            : new DatabaseError({
+                message: `Failed to create promotion: ${error}`,
+              }),
+      });
+
+      return toPromotion({ ...promotionToInsert, _id: result.insertedId });
+    });
+
+  // Tells a missing promotion apart from one that changed since expectedVersion
+  const notFoundOrConflict = (
+    id: PromotionId,
+    expectedVersion: number | undefined,
+  ): Effect.Effect<never, DatabaseError | NotFoundError | ConflictError> =>
+    Effect.gen(function* () {
+      const exists =
+        expectedVersion !== undefined &&
+        (yield* Effect.tryPromise({
+          try: () =>
+            collection.countDocuments({ _id: new ObjectId(id) }, { limit: 1 }),
+          catch: (error) =>
+            new DatabaseError({ message: `Failed to find promotion: ${error}` }),
+        })) > 0;
+
+      return yield* exists
+        ? Effect.fail(
+            new ConflictError({
+              message: `Promotion with id ${id} was modified since version ${expectedVersion}`,
+            }),
+          )
+        : Effect.fail(
+            new NotFoundError({ message: `Promotion with id ${id} not found` }),
+          );
+    });
+
+  const update = (
+    id: PromotionId,
+    updateData: UpdatePromotionRequest,
+    expectedVersion?: number,
+  ): Effect.Effect<
+    Promotion,
+    DatabaseError | NotFoundError | ConflictError | BusinessError
+  > =>
+    Effect.gen(function* () {
+      const result = yield* Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            { _id: new ObjectId(id), ...versionFilter(expectedVersion) },
+            {
+              $set: { ...updateData, updatedAt: new Date() },
+              $inc: { version: 1 },
+            },
+            { returnDocument: "after" },
+          ),
+        catch: (error) =>
+          isDuplicateKeyError(error)
+            ? duplicateCoupon(updateData.couponCode)
+            : new DatabaseError({
+                message: `Failed to update promotion: ${error}`,
+              }),
+      });
+
+      if (!result) {
+        return yield* notFoundOrConflict(id, expectedVersion);
+      }
+
+      return toPromotion(result);
+    });
+
+  const deletePromotion = (
+    id: PromotionId,
+    expectedVersion?: number,
+  ): Effect.Effect<void, DatabaseError | NotFoundError | ConflictError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.deleteOne({
+          _id: new ObjectId(id),
+          ...versionFilter(expectedVersion),
+        }),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to delete promotion: ${error}` }),
+    }).pipe(
+      Effect.flatMap((result) =>
+        result.deletedCount > 0
+          ? Effect.succeed(undefined)
+          : notFoundOrConflict(id, expectedVersion),
+      ),
+    );
+
+  // Counts one use of the coupon in a single conditional update; false when
+  // its usage limit has already been reached
+  const redeem = (code: string): Effect.Effect<boolean, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.updateOne(
+          {
+            couponCode: code,
+            $expr: {
+              $or: [
+                { $eq: [{ $ifNull: ["$usageLimit", null] }, null] },
+                { $lt: ["$usageCount", "$usageLimit"] },
+              ],
+            },
+          },
+          { $inc: { usageCount: 1 } },
+        ),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to redeem coupon: ${error}` }),
+    }).pipe(Effect.map((result) => result.modifiedCount > 0));
+
+  // Gives back a use of the coupon, e.g. when its order is cancelled
+  const release = (code: string): Effect.Effect<void, DatabaseError> =>
+    Effect.flatMap(sessionOptions, (options) =>
+      Effect.tryPromise({
+        try: () =>
+          collection.updateOne(
+            { couponCode: code, usageCount: { $gt: 0 } },
+            { $inc: { usageCount: -1 } },
+            options,
+          ),
+        catch: (error) =>
+          new DatabaseError({ message: `Failed to release coupon: ${error}` }),
+      }),
+    ).pipe(Effect.asVoid);
+
+  return instrumentRepository("PromotionRepository", {
+    ensureIndexes,
+    findPage,
+    findById,
+    findRunning,
+    findByCouponCode,
+    create,
+    update,
+    delete: deletePromotion,
+    redeem,
+    release,
+  });
+});
+
+export const PromotionRepositoryLive = Layer.effect(
+  PromotionRepository,
+  make,
+).pipe(Layer.provide(MongoDBLive));
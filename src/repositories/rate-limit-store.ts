@@ -0,0 +1,205 @@
+import { Context, Effect, Layer } from "effect";
+import { Document } from "mongodb";
+import { AppConfig } from "../config";
+import { MongoDB, MongoDBLive } from "../database";
+import { instrumentRepository } from "./instrumentation";
+import { Budget } from "../models/rate-limit";
+import {
+  Bucket,
+  fullAt,
+  take,
+  tokensPerMillisecond,
+} from "../rate-limit/token-bucket";
+import { DatabaseError } from "../errors";
+import { isDuplicateKeyError } from "./mongo-query";
+
+export interface RateLimitStore {
+  ensureIndexes: () => Effect.Effect<void, DatabaseError>;
+  // Takes a token from the bucket under `key`, creating it full if there is none
+  take: (
+    key: string,
+    budget: Budget,
+    now: Date,
+  ) => Effect.Effect<{ bucket: Bucket; allowed: boolean }, DatabaseError>;
+}
+
+export const RateLimitStore =
+  Context.GenericTag<RateLimitStore>("RateLimitStore");
+
+// Buckets that are full again are the same as no bucket, so they are swept once there are this many
+const MAX_IN_MEMORY_BUCKETS = 10_000;
+
+/**
+ * Buckets held by this process alone. Each server of several behind a load
+ * balancer would allow a client the whole budget.
+ */
+export const makeInMemoryRateLimitStore = (): RateLimitStore => {
+  const buckets = new Map<string, { bucket: Bucket; expiresAt: Date }>();
+
+  const sweep = (now: Date) => {
+    for (const [key, { expiresAt }] of buckets) {
+      if (expiresAt <= now) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  const takeToken = (key: string, budget: Budget, now: Date) =>
+    Effect.sync(() => {
+      const result = take(buckets.get(key)?.bucket, budget, now);
+      buckets.set(key, {
+        bucket: result.bucket,
+        expiresAt: fullAt(result.bucket, budget),
+      });
+      if (buckets.size > MAX_IN_MEMORY_BUCKETS) {
+        sweep(now);
+      }
+      return result;
+    });
+
+  return { ensureIndexes: () => Effect.void, take: takeToken };
+};
+
+export const InMemoryRateLimitStoreLive = Layer.sync(
+  RateLimitStore,
+  makeInMemoryRateLimitStore,
+);
+
+interface BucketDocument {
+  _id: string;
+  tokens: number;
+  updatedAt: Date;
+  // Whether the last request took a token
+  allowed: boolean;
+  expiresAt: Date;
+}
+
+// The pipeline form of take(): refill, then take a token if there is a whole one
+const takePipeline = (budget: Budget, now: Date): Document[] => [
+  {
+    $set: {
+      tokens: {
+        $min: [
+          budget.requests,
+          {
+            $add: [
+              { $ifNull: ["$tokens", budget.requests] },
+              {
+                $multiply: [
+                  {
+                    $max: [
+                      0,
+                      { $subtract: [now, { $ifNull: ["$updatedAt", now] }] },
+                    ],
+                  },
+                  tokensPerMillisecond(budget),
+                ],
+              },
+            ],
+          },
+        ],
+      },
+      updatedAt: { $literal: now },
+    },
+  },
+  { $set: { allowed: { $gte: ["$tokens", 1] } } },
+  {
+    $set: {
+      tokens: { $cond: ["$allowed", { $subtract: ["$tokens", 1] }, "$tokens"] },
+    },
+  },
+  // fullAt(): when the TTL index may remove the bucket
+  {
+    $set: {
+      expiresAt: {
+        $add: [
+          now,
+          {
+            $ceil: {
+              $divide: [
+                { $subtract: [budget.requests, "$tokens"] },
+                tokensPerMillisecond(budget),
+              ],
+            },
+          },
+        ],
+      },
+    },
+  },
+];
+
+/**
+ * Buckets shared by every server using the database. Each take is a single
+ * atomic update, and a TTL index removes buckets once they are full again.
+ */
+const makeMongo = Effect.gen(function* () {
+  const { db } = yield* MongoDB;
+  const collection = db.collection<BucketDocument>("rate_limits");
+
+  const ensureIndexes = (): Effect.Effect<void, DatabaseError> =>
+    Effect.tryPromise({
+      try: () =>
+        collection.createIndex(
+          { expiresAt: 1 },
+          { name: "rate_limits_expiry", expireAfterSeconds: 0 },
+        ),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to create rate limit expiry index: ${error}`,
+        }),
+    }).pipe(Effect.asVoid);
+
+  const takeToken = (key: string, budget: Budget, now: Date) =>
+    Effect.gen(function* () {
+      // Two first requests of a client can race to insert its bucket; the loser retries
+      const document = yield* Effect.tryPromise({
+        try: () =>
+          collection.findOneAndUpdate(
+            { _id: key },
+            takePipeline(budget, now),
+            { upsert: true, returnDocument: "after" },
+          ),
+        catch: (error) => error,
+      }).pipe(
+        Effect.retry({ times: 1, while: isDuplicateKeyError }),
+        Effect.mapError(
+          (error) =>
+            new DatabaseError({
+              message: `Failed to take a rate limit token: ${error}`,
+            }),
+        ),
+      );
+      if (!document) {
+        return yield* Effect.fail(
+          new DatabaseError({ message: "Failed to take a rate limit token" }),
+        );
+      }
+
+      return {
+        bucket: { tokens: document.tokens, updatedAt: document.updatedAt },
+        allowed: document.allowed,
+      };
+    });
+
+  return instrumentRepository("RateLimitStore", {
+    ensureIndexes,
+    take: takeToken,
+  });
+});
+
+export const MongoRateLimitStoreLive = Layer.effect(
+  RateLimitStore,
+  makeMongo,
+).pipe(Layer.provide(MongoDBLive));
+
+/**
+ * RATE_LIMIT_STORE=mongo shares buckets between servers through the
+ * database; otherwise each server keeps its own in memory.
+ */
+export const RateLimitStoreLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, ({ rateLimits }) =>
+    rateLimits.store === "mongo"
+      ? MongoRateLimitStoreLive
+      : InMemoryRateLimitStoreLive,
+  ),
+);
@@ -0,0 +1,175 @@
+import { Context, Effect, Layer } from "effect";
+import { Collection, Document, Filter } from "mongodb";
+import { MongoDB, MongoDBLive } from "../database";
+import { instrumentRepository } from "./instrumentation";
+import { Author } from "../models/author";
+import { Book } from "../models/book";
+import { ParsedQuery } from "../models/search";
+import { DatabaseError } from "../errors";
+import { NOT_DELETED, escapeRegExp } from "./mongo-query";
+
+// A document found by a search, with the relevance $text gave it; 0 when the query had only prefixes
+export interface Candidate<A> {
+  readonly document: A;
+  readonly textScore: number;
+}
+
+export interface SearchRepository {
+  ensureIndexes: () => Effect.Effect<void, DatabaseError>;
+  findBookCandidates: (
+    query: ParsedQuery,
+    limit: number,
+  ) => Effect.Effect<Candidate<Book>[], DatabaseError>;
+  findAuthorCandidates: (
+    query: ParsedQuery,
+    limit: number,
+  ) => Effect.Effect<Candidate<Author>[], DatabaseError>;
+}
+
+export const SearchRepository =
+  Context.GenericTag<SearchRepository>("SearchRepository");
+
+// Text index weights; the same fields are used for prefix matching
+export const BOOK_SEARCH_WEIGHTS = {
+  title: 10,
+  genre: 5,
+  description: 1,
+} as const;
+
+export const AUTHOR_SEARCH_WEIGHTS = {
+  fullName: 10,
+  firstName: 5,
+  lastName: 5,
+  nationality: 2,
+  biography: 1,
+} as const;
+
+const toTextSearch = (query: ParsedQuery) =>
+  [...query.terms, ...query.phrases.map((phrase) => `"${phrase}"`)].join(" ");
+
+/**
+ * Terms and phrases go through the $text index (terms OR-ed, phrases
+ * required); $text has no prefix operator, so every `prefix*` term must
+ * additionally match the start of a word in one of the searchable fields.
+ */
+const toCandidateFilter = (
+  query: ParsedQuery,
+  fields: ReadonlyArray<string>,
+): Filter<Document> => {
+  const filter: Filter<Document> = { ...NOT_DELETED };
+
+  const search = toTextSearch(query);
+  if (search.length > 0) {
+    filter.$text = { $search: search };
+  }
+
+  if (query.prefixes.length > 0) {
+    filter.$and = query.prefixes.map((prefix) => ({
+      $or: fields.map((field) => ({
+        [field]: new RegExp(`\\b${escapeRegExp(prefix)}`, "i"),
+      })),
+    }));
+  }
+
+  return filter;
+};
+
+const make = Effect.gen(function* () {
+  const { db } = yield* MongoDB;
+  const books = db.collection("books");
+  const authors = db.collection("authors");
+
+  const ensureTextIndex = (
+    collection: Collection,
+    name: string,
+    weights: Record<string, number>,
+  ) =>
+    Effect.tryPromise({
+      try: () =>
+        collection.createIndex(
+          Object.fromEntries(Object.keys(weights).map((field) => [field, "text"])),
+          { name, weights, default_language: "english" },
+        ),
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to create search index ${name}: ${error}`,
+        }),
+    });
+
+  const ensureIndexes = (): Effect.Effect<void, DatabaseError> =>
+    Effect.all([
+      ensureTextIndex(books, "books_search", BOOK_SEARCH_WEIGHTS),
+      ensureTextIndex(authors, "authors_search", AUTHOR_SEARCH_WEIGHTS),
+    ]).pipe(Effect.asVoid);
+
+  const findCandidates = (
+    collection: Collection,
+    query: ParsedQuery,
+    fields: ReadonlyArray<string>,
+    limit: number,
+  ) =>
+    Effect.tryPromise({
+      try: () => {
+        const filter = toCandidateFilter(query, fields);
+        if (!filter.$text) {
+          return collection.find(filter).limit(limit).toArray();
+        }
+        const textScore = { $meta: "textScore" };
+        return collection
+          .find(filter, { projection: { textScore } })
+          .sort({ textScore })
+          .limit(limit)
+          .toArray();
+      },
+      catch: (error) =>
+        new DatabaseError({
+          message: `Failed to search ${collection.collectionName}: ${error}`,
+        }),
+    });
+
+  const findBookCandidates = (
+    query: ParsedQuery,
+    limit: number,
+  ): Effect.Effect<Candidate<Book>[], DatabaseError> =>
+    findCandidates(
+      books,
+      query,
+      Object.keys(BOOK_SEARCH_WEIGHTS),
+      limit,
+    ).pipe(
+      Effect.map((books) =>
+        books.map(({ textScore = 0, ...book }) => ({
+          document: { ...book, _id: book._id.toString() } as Book,
+          textScore,
+        })),
+      ),
+    );
+
+  const findAuthorCandidates = (
+    query: ParsedQuery,
+    limit: number,
+  ): Effect.Effect<Candidate<Author>[], DatabaseError> =>
+    findCandidates(
+      authors,
+      query,
+      Object.keys(AUTHOR_SEARCH_WEIGHTS),
+      limit,
+    ).pipe(
+      Effect.map((authors) =>
+        authors.map(({ textScore = 0, ...author }) => ({
+          document: { ...author, _id: author._id.toString() } as Author,
+          textScore,
+        })),
+      ),
+    );
+
+  return instrumentRepository("SearchRepository", {
+    ensureIndexes,
+    findBookCandidates,
+    findAuthorCandidates,
+  });
+});
+
+export const SearchRepositoryLive = Layer.effect(SearchRepository, make).pipe(
+  Layer.provide(MongoDBLive),
+);
@@ -0,0 +1,100 @@
+import { Context, Effect, Layer } from "effect";
+import {
+  AuditRepository,
+  AuditRepositoryLive,
+} from "../repositories/audit-repository";
+import {
+  AuditChange,
+  AuditEntity,
+  AuditEntry,
+  AuditFilter,
+  AuditListQuery,
+} from "../models/audit";
+import { diffFields } from "../audit/changes";
+import { CurrentUser } from "../auth/current-user";
+import { Permissions, restrict } from "../auth/permissions";
+import { AppConfig } from "../config";
+import { AppError, DatabaseError } from "../errors";
+import { Page } from "../models/query";
+
+export interface AuditService {
+  record: (
+    change: AuditChange,
+  ) => Effect.Effect<void, DatabaseError, CurrentUser>;
+  listEntries: (
+    query: AuditListQuery,
+    filter: AuditFilter,
+  ) => Effect.Effect<Page<Partial<AuditEntry>>, AppError, CurrentUser>;
+  getEntriesFor: (
+    entity: AuditEntity,
+    id: string,
+  ) => Effect.Effect<AuditEntry[], AppError>;
+}
+
+export const AuditService = Context.GenericTag<AuditService>("AuditService");
+
+// The log names who changed what, so reading it is for admins
+export const AUDIT_PERMISSIONS: Permissions<AuditService> = {
+  listEntries: ["admin"],
+};
+
+const versionOf = (state: object | undefined) =>
+  (state as { version?: number } | undefined)?.version;
+
+const make = Effect.gen(function* () {
+  const auditRepository = yield* AuditRepository;
+  const { features } = yield* AppConfig;
+
+  /**
+   * Appends an entry for a change the caller has just written, in the
+   * transaction it was written in, so that neither is kept without the
+   * other. The entry is dated with the write and attributed to the current
+   * user by their ownerId and key, with their name to show. Writes that left
+   * every field as it was, such as an update with the values a record
+   * already had, are not recorded, nor is anything while FEATURE_AUDIT_LOG
+   * is off.
+   */
+  const record = ({ entity, entityId, action, before, after, at }: AuditChange) =>
+    Effect.gen(function* () {
+      const changes = diffFields(before, after);
+      if (!features.auditLog || changes.length === 0) {
+        return;
+      }
+
+      const { name, ownerId, keyId } = yield* CurrentUser;
+      // A purge leaves no record behind; its entry comes after the record's last one
+      const version =
+        after === undefined
+          ? (versionOf(before) ?? 0) + 1
+          : versionOf(after);
+      yield* auditRepository.append({
+        entity,
+        entityId,
+        action,
+        actor: name,
+        actorId: ownerId,
+        keyId,
+        changes,
+        ...(version !== undefined ? { version } : {}),
+        timestamp: at,
+      });
+    });
+
+  const listEntries = (query: AuditListQuery, filter: AuditFilter) =>
+    auditRepository.findPage(query, filter);
+
+  const getEntriesFor = (entity: AuditEntity, id: string) =>
+    auditRepository.findForEntity(entity, id);
+
+  const restricted = restrict(AUDIT_PERMISSIONS, "AuditService");
+
+  return {
+    record,
+    listEntries: restricted("listEntries", listEntries),
+    getEntriesFor,
+  };
+});
+
+export const AuditServiceLive = Layer.effect(AuditService, make).pipe(
+  Layer.provide(AuditRepositoryLive),
+);
@@ -0,0 +1,275 @@
+import { Context, Effect, Either, Layer, Option, Redacted } from "effect";
+import { createHash, randomBytes } from "crypto";
+import {
+  ApiKeyRepository,
+  ApiKeyRepositoryLive,
+} from "../repositories/api-key-repository";
+import {
+  AccessToken,
+  ApiKey,
+  ApiKeyId,
+  CreateApiKeyRequest,
+  IssuedApiKey,
+  Role,
+} from "../models/auth";
+import { signJwt, verifyJwt } from "../auth/jwt";
+import { CurrentUser } from "../auth/current-user";
+import { Permissions, restrict } from "../auth/permissions";
+import { AppConfig } from "../config";
+import {
+  AppError,
+  BusinessError,
+  DatabaseError,
+  NotFoundError,
+  UnauthorizedError,
+} from "../errors";
+
+// The raw Authorization and X-API-Key header values of a request
+export interface Credentials {
+  readonly authorization?: string;
+  readonly apiKey?: string;
+}
+
+export interface AuthService {
+  authenticate: (
+    credentials: Credentials,
+  ) => Effect.Effect<CurrentUser, UnauthorizedError | DatabaseError>;
+  login: (
+    apiKey: string,
+  ) => Effect.Effect<AccessToken, UnauthorizedError | DatabaseError>;
+  listApiKeys: () => Effect.Effect<ApiKey[], AppError, CurrentUser>;
+  createApiKey: (
+    request: CreateApiKeyRequest,
+  ) => Effect.Effect<IssuedApiKey, AppError, CurrentUser>;
+  rotateApiKey: (
+    id: ApiKeyId,
+  ) => Effect.Effect<IssuedApiKey, AppError, CurrentUser>;
+  revokeApiKey: (id: ApiKeyId) => Effect.Effect<ApiKey, AppError, CurrentUser>;
+  ensureBootstrapKey: (
+    key: string,
+    owner: string,
+  ) => Effect.Effect<boolean, DatabaseError>;
+}
+
+export const AuthService = Context.GenericTag<AuthService>("AuthService");
+
+// Anyone can rotate and revoke their own keys; issuing keys makes new callers
+export const AUTH_PERMISSIONS: Permissions<AuthService> = {
+  createApiKey: ["admin"],
+};
+
+export const TOKEN_TTL_SECONDS = 60 * 60;
+
+const hashKey = (key: string) =>
+  createHash("sha256").update(key).digest("hex");
+
+const generateKey = () => `bks_${randomBytes(24).toString("base64url")}`;
+
+const unauthorized = (message: string) => new UnauthorizedError({ message });
+
+// The role is read from the key on every request, so changing it takes effect at once
+const toCurrentUser = (
+  apiKey: ApiKey,
+  method: CurrentUser["method"],
+): CurrentUser => ({
+  name: apiKey.owner,
+  role: apiKey.role,
+  keyId: apiKey._id,
+  ownerId: apiKey.ownerId,
+  method,
+});
+
+export const makeAuthService = Effect.gen(function* () {
+  const apiKeyRepository = yield* ApiKeyRepository;
+  const { auth } = yield* AppConfig;
+
+  // Without JWT_SECRET, tokens are signed with a key that lasts until the process exits
+  const tokenSecret = Option.match(auth.jwtSecret, {
+    onNone: () => randomBytes(32).toString("hex"),
+    onSome: Redacted.value,
+  });
+
+  const verifyApiKey = (key: string) =>
+    Effect.gen(function* () {
+      const apiKey = yield* apiKeyRepository.findByHash(hashKey(key));
+      if (Option.isNone(apiKey)) {
+        return yield* Effect.fail(unauthorized("Invalid API key"));
+      }
+      if (apiKey.value.revokedAt !== undefined) {
+        return yield* Effect.fail(unauthorized("API key has been revoked"));
+      }
+      return apiKey.value;
+    });
+
+  const verifyToken = (token: string) =>
+    Effect.gen(function* () {
+      const claims = verifyJwt(token, tokenSecret, new Date());
+      if (Either.isLeft(claims)) {
+        return yield* Effect.fail(unauthorized(claims.left));
+      }
+      // Tokens live no longer than the key they were issued for
+      const apiKey = yield* apiKeyRepository
+        .findById(claims.right.kid as ApiKeyId)
+        .pipe(
+          Effect.catchTag("NotFoundError", () =>
+            Effect.fail(unauthorized("Invalid token")),
+          ),
+        );
+      if (apiKey.revokedAt !== undefined) {
+        return yield* Effect.fail(
+          unauthorized("The API key of this token has been revoked"),
+        );
+      }
+      return apiKey;
+    });
+
+  const authenticate = ({ authorization, apiKey }: Credentials) =>
+    Effect.gen(function* () {
+      if (authorization !== undefined) {
+        const [scheme, token] = authorization.trim().split(/\s+/);
+        if (scheme.toLowerCase() !== "bearer" || !token) {
+          return yield* Effect.fail(
+            unauthorized("Authorization must use the Bearer scheme"),
+          );
+        }
+        const key = yield* verifyToken(token);
+        return toCurrentUser(key, "token");
+      }
+      if (apiKey !== undefined) {
+        const key = yield* verifyApiKey(apiKey);
+        return toCurrentUser(key, "api-key");
+      }
+      return yield* Effect.fail(
+        unauthorized("Authentication required: send a Bearer token or an X-API-Key header"),
+      );
+    });
+
+  const login = (key: string) =>
+    Effect.gen(function* () {
+      const apiKey = yield* verifyApiKey(key);
+      const iat = Math.floor(Date.now() / 1000);
+      const accessToken = signJwt(
+        { sub: apiKey.owner, kid: apiKey._id, iat, exp: iat + TOKEN_TTL_SECONDS },
+        tokenSecret,
+      );
+      return {
+        accessToken,
+        tokenType: "Bearer" as const,
+        expiresIn: TOKEN_TTL_SECONDS,
+      };
+    });
+
+  // Without an ownerId the key is the first of a new owner
+  const issue = (name: string, owner: string, role: Role, ownerId?: ApiKeyId) =>
+    Effect.gen(function* () {
+      const key = generateKey();
+      const apiKey = yield* apiKeyRepository.create({
+        name,
+        owner,
+        ...(ownerId !== undefined ? { ownerId } : {}),
+        role,
+        hash: hashKey(key),
+        hint: key.slice(-4),
+      });
+      return { apiKey, key };
+    });
+
+  /**
+   * Callers can only manage their own keys, except admins, who manage
+   * everyone's. Keys are matched by owner id, not by owner name, which
+   * another caller may have been issued a key under.
+   */
+  const findManagedKey = (id: ApiKeyId) =>
+    Effect.gen(function* () {
+      const user = yield* CurrentUser;
+      const apiKey = yield* apiKeyRepository.findById(id);
+      if (apiKey.ownerId !== user.ownerId && user.role !== "admin") {
+        return yield* Effect.fail(
+          new NotFoundError({ message: `API key with id ${id} not found` }),
+        );
+      }
+      return apiKey;
+    });
+
+  const alreadyRevoked = (id: ApiKeyId) =>
+    new BusinessError({ message: `API key ${id} has already been revoked` });
+
+  const listApiKeys = () =>
+    Effect.flatMap(CurrentUser, (user) => apiKeyRepository.findByOwner(user.ownerId));
+
+  const createApiKey = (request: CreateApiKeyRequest) =>
+    Effect.flatMap(CurrentUser, (user) =>
+      request.owner !== undefined
+        ? issue(request.name, request.owner, request.role)
+        : issue(request.name, user.name, request.role, user.ownerId),
+    );
+
+  /**
+   * Issues a replacement with the same name and owner, then revokes the old
+   * key. Tokens issued for the old key stop working with it.
+   */
+  const rotateApiKey = (id: ApiKeyId) =>
+    Effect.gen(function* () {
+      const existing = yield* findManagedKey(id);
+      if (existing.revokedAt !== undefined) {
+        return yield* Effect.fail(alreadyRevoked(id));
+      }
+
+      const issued = yield* issue(
+        existing.name,
+        existing.owner,
+        existing.role,
+        existing.ownerId,
+      );
+      const revoked = yield* apiKeyRepository.revoke(id, issued.apiKey._id);
+      if (Option.isNone(revoked)) {
+        // Revoked concurrently: the replacement must not outlive the old key
+        yield* apiKeyRepository.revoke(issued.apiKey._id);
+        return yield* Effect.fail(alreadyRevoked(id));
+      }
+      return issued;
+    });
+
+  const revokeApiKey = (id: ApiKeyId) =>
+    Effect.gen(function* () {
+      yield* findManagedKey(id);
+      const revoked = yield* apiKeyRepository.revoke(id);
+      if (Option.isNone(revoked)) {
+        return yield* Effect.fail(alreadyRevoked(id));
+      }
+      return revoked.value;
+    });
+
+  // Stores the key unless it was stored before, even if it has since been revoked
+  const ensureBootstrapKey = (key: string, owner: string) =>
+    Effect.gen(function* () {
+      const hash = hashKey(key);
+      if (Option.isSome(yield* apiKeyRepository.findByHash(hash))) {
+        return false;
+      }
+      yield* apiKeyRepository.create({
+        name: "bootstrap",
+        owner,
+        role: "admin",
+        hash,
+        hint: key.slice(-4),
+      });
+      return true;
+    });
+
+  const restricted = restrict(AUTH_PERMISSIONS, "AuthService");
+
+  return {
+    authenticate,
+    login,
+    listApiKeys,
+    createApiKey: restricted("createApiKey", createApiKey),
+    rotateApiKey,
+    revokeApiKey,
+    ensureBootstrapKey,
+  };
+});
+
+export const AuthServiceLive = Layer.effect(AuthService, makeAuthService).pipe(
+  Layer.provide(ApiKeyRepositoryLive),
+);
@@ -1,26 +1,65 @@
-import { Context, Effect, Layer, Option } from "effect";
+import { Context, Effect, Layer } from "effect";
+import { MongoDB, MongoDBLive } from "../database";
 import {
   AuthorRepository,
   AuthorRepositoryLive,
 } from "../repositories/author-repository";
+import {
+  AuthorshipChanges,
+  BookRepository,
+  BookRepositoryLive,
+} from "../repositories/book-repository";
 import {
   Author,
+  AuthorDeleteStrategy,
   AuthorId,
+  AuthorListQuery,
   CreateAuthorRequest,
   UpdateAuthorRequest,
 } from "../models/author";
-import { AppError, BusinessError, NotFoundError } from "../errors";
+import { SearchService, SearchServiceLive } from "./search-service";
+import { AuditService, AuditServiceLive } from "./audit-service";
+import { Book } from "../models/book";
+import { Actor } from "../models/auth";
+import { CurrentUser } from "../auth/current-user";
+import { Permissions, restrict } from "../auth/permissions";
+import { trace } from "../tracing/spans";
+import {
+  AppError,
+  BusinessError,
+  ConflictError,
+  ValidationError,
+} from "../errors";
+import { Page } from "../models/query";
+import { Revision } from "../repositories/mongo-query";
 
 export interface AuthorService {
   getAllAuthors: () => Effect.Effect<Author[], AppError>;
+  listAuthors: (
+    query: AuthorListQuery,
+  ) => Effect.Effect<Page<Partial<Author>>, AppError>;
   getAuthorById: (id: AuthorId) => Effect.Effect<Author, AppError>;
   getAuthorsByIds: (ids: AuthorId[]) => Effect.Effect<Author[], AppError>;
-  createAuthor: (author: CreateAuthorRequest) => Effect.Effect<Author, AppError>;
+  createAuthor: (
+    author: CreateAuthorRequest,
+  ) => Effect.Effect<Author, AppError, CurrentUser>;
   updateAuthor: (
     id: AuthorId,
     author: UpdateAuthorRequest,
-  ) => Effect.Effect<Author, AppError>;
-  deleteAuthor: (id: AuthorId) => Effect.Effect<void, AppError>;
+    expectedVersion?: number,
+  ) => Effect.Effect<Author, AppError, CurrentUser>;
+  deleteAuthor: (
+    id: AuthorId,
+    strategy: AuthorDeleteStrategy,
+    expectedVersion?: number,
+  ) => Effect.Effect<void, AppError, CurrentUser>;
+  mergeAuthor: (
+    id: AuthorId,
+    targetId: AuthorId,
+  ) => Effect.Effect<Author, AppError, CurrentUser>;
+  getDeletedAuthors: () => Effect.Effect<Author[], AppError>;
+  restoreAuthor: (id: AuthorId) => Effect.Effect<Author, AppError, CurrentUser>;
+  purgeAuthor: (id: AuthorId) => Effect.Effect<void, AppError, CurrentUser>;
   searchAuthors: (query: string) => Effect.Effect<Author[], AppError>;
   getAuthorsByNationality: (
     nationality: string,
@@ -31,11 +70,78 @@ export interface AuthorService {
 
 export const AuthorService = Context.GenericTag<AuthorService>("AuthorService");
 
+// Merging removes the merged author, so it is restricted like deleting
+export const AUTHOR_PERMISSIONS: Permissions<AuthorService> = {
+  createAuthor: ["editor", "admin"],
+  updateAuthor: ["editor", "admin"],
+  deleteAuthor: ["admin"],
+  mergeAuthor: ["admin"],
+  restoreAuthor: ["editor", "admin"],
+  purgeAuthor: ["admin"],
+};
+
 const make = Effect.gen(function* () {
+  const { transaction } = yield* MongoDB;
   const authorRepository = yield* AuthorRepository;
+  const bookRepository = yield* BookRepository;
+  const searchService = yield* SearchService;
+  const auditService = yield* AuditService;
+
+  // A record changed between being read and written here; the caller named no version, so it may simply retry
+  const modifiedConcurrently = <A, E, R>(
+    effect: Effect.Effect<A, E, R>,
+    message: string,
+  ) =>
+    Effect.mapError(effect, (error) =>
+      error instanceof ConflictError ? new BusinessError({ message }) : error,
+    );
+
+  // Rewrites the books in one bulk write and records each change it made
+  const changeAuthorship = (
+    authorId: AuthorId,
+    changes: AuthorshipChanges,
+    actor: Actor,
+  ) =>
+    Effect.gen(function* () {
+      const { reassigned, trashed } = yield* modifiedConcurrently(
+        bookRepository.changeAuthorship(changes, actor),
+        `Books of author ${authorId} were modified concurrently, please retry`,
+      );
+      yield* Effect.forEach(
+        [
+          ...reassigned.map((revision) => ({
+            action: "update" as const,
+            revision,
+          })),
+          ...trashed.map((revision) => ({
+            action: "delete" as const,
+            revision,
+          })),
+        ],
+        ({ action, revision }) =>
+          auditService.record({
+            entity: "book",
+            entityId: revision.before._id!,
+            action,
+            ...revision,
+          }),
+        { discard: true },
+      );
+    });
+
+  const describeBooks = (books: ReadonlyArray<Book>) =>
+    books
+      .map(
+        (book) =>
+          `"${book.title}" (${book._id}${book.deletedAt ? ", in the trash" : ""})`,
+      )
+      .join(", ");
 
   const getAllAuthors = () => authorRepository.findAll();
 
+  const listAuthors = (query: AuthorListQuery) =>
+    authorRepository.findPage(query);
+
   const getAuthorById = (id: AuthorId) => authorRepository.findById(id);
 
   const getAuthorsByIds = (ids: AuthorId[]) => authorRepository.findByIds(ids);
@@ -59,10 +165,23 @@ const make = Effect.gen(function* () {
         );
       }
 
-      return yield* authorRepository.create(authorData);
-    });
+      const author = yield* authorRepository.create(authorData);
+      yield* Effect.annotateCurrentSpan("author.id", author._id!);
+      yield* auditService.record({
+        entity: "author",
+        entityId: author._id!,
+        action: "create",
+        after: author,
+        at: author.createdAt!,
+      });
+      return author;
+    }).pipe(transaction);
 
-  const updateAuthor = (id: AuthorId, updateData: UpdateAuthorRequest) =>
+  const updateAuthor = (
+    id: AuthorId,
+    updateData: UpdateAuthorRequest,
+    expectedVersion?: number,
+  ) =>
     Effect.gen(function* () {
       // If updating fullName, check for duplicates
       if (updateData.fullName) {
@@ -84,28 +203,208 @@ const make = Effect.gen(function* () {
         }
       }
 
-      return yield* authorRepository.update(id, updateData);
+      const revision = yield* authorRepository.update(
+        id,
+        updateData,
+        expectedVersion,
+      );
+      yield* auditService.record({
+        entity: "author",
+        entityId: id,
+        action: "update",
+        ...revision,
+      });
+      return revision.after;
+    }).pipe(transaction);
+
+  const recordDelete = (
+    revision: Revision<Author>,
+    action: "delete" | "merge",
+  ) =>
+    auditService.record({
+      entity: "author",
+      entityId: revision.before._id!,
+      action,
+      ...revision,
     });
 
-  const deleteAuthor = (id: AuthorId) => authorRepository.delete(id);
-
-  const searchAuthors = (query: string) =>
-    authorRepository
-      .findAll()
-      .pipe(
-        Effect.map((authors) =>
-          authors.filter(
-            (author) =>
-              author.firstName.toLowerCase().includes(query.toLowerCase()) ||
-              author.lastName.toLowerCase().includes(query.toLowerCase()) ||
-              author.fullName.toLowerCase().includes(query.toLowerCase()) ||
-              (author.biography &&
-                author.biography.toLowerCase().includes(query.toLowerCase())) ||
-              (author.nationality &&
-                author.nationality.toLowerCase().includes(query.toLowerCase())),
+  /**
+   * Books that still reference the author, including those in the trash,
+   * which could be restored, block the delete unless a strategy says what to
+   * do with them: `detach` removes the author from them, but refuses if the
+   * author wrote any alone, since every book needs an author; `cascade`
+   * moves the books the author wrote alone to the trash and detaches the
+   * rest. The books and the author are rewritten and recorded in one
+   * transaction, so a delete that fails leaves them all as they were.
+   */
+  const deleteAuthor = (
+    id: AuthorId,
+    strategy: AuthorDeleteStrategy,
+    expectedVersion?: number,
+  ) =>
+    Effect.gen(function* () {
+      // Check the version up front so a stale delete leaves the books untouched
+      const author = yield* authorRepository.findById(id);
+      if (expectedVersion !== undefined && author.version !== expectedVersion) {
+        return yield* Effect.fail(
+          new ConflictError({
+            message: `Author with id ${id} was modified since version ${expectedVersion}`,
+          }),
+        );
+      }
+
+      const books = yield* bookRepository.findByAuthor(id);
+      if (strategy === "restrict" && books.length > 0) {
+        return yield* Effect.fail(
+          new BusinessError({
+            message: `Author ${id} is referenced by ${books.length} book(s): ${describeBooks(books)}. Use strategy=detach or strategy=cascade to delete anyway`,
+          }),
+        );
+      }
+
+      const soleAuthored = books.filter((book) => book.authorIds.length === 1);
+      if (strategy === "detach" && soleAuthored.length > 0) {
+        return yield* Effect.fail(
+          new BusinessError({
+            message: `Author ${id} is the only author of ${soleAuthored.length} book(s): ${describeBooks(soleAuthored)}. Use strategy=cascade to move them to the trash`,
+          }),
+        );
+      }
+
+      const actor = yield* CurrentUser;
+      yield* changeAuthorship(
+        id,
+        {
+          reassign: books
+            .filter((book) => book.authorIds.length > 1)
+            .map((book) => ({
+              book,
+              authorIds: book.authorIds.filter((authorId) => authorId !== id),
+            })),
+          // Books already in the trash keep their author, who joins them there
+          trash: soleAuthored.filter((book) => !book.deletedAt),
+        },
+        actor,
+      );
+
+      // A merge into the author since it was read changes its version too
+      const deleted = authorRepository.delete(id, actor, author.version);
+      const revision = yield* expectedVersion === undefined
+        ? modifiedConcurrently(
+            deleted,
+            `Author ${id} was modified while it was being deleted, please retry`,
+          )
+        : deleted;
+      yield* recordDelete(revision, "delete");
+    }).pipe(transaction);
+
+  /**
+   * Points every book, in the trash or not, at targetId instead of id, then
+   * moves id to the trash. The target is marked for the duration, so that it
+   * cannot be deleted while books are moved to it. The books and the author
+   * are rewritten and recorded in one transaction, so a merge that fails
+   * leaves them all as they were.
+   */
+  const mergeAuthor = (id: AuthorId, targetId: AuthorId) =>
+    Effect.gen(function* () {
+      if (id === targetId) {
+        return yield* Effect.fail(
+          new ValidationError({ message: "Cannot merge an author into itself" }),
+        );
+      }
+
+      const author = yield* authorRepository.findById(id);
+      const actor = yield* CurrentUser;
+      yield* authorRepository.markMergeTarget(targetId, id);
+
+      const unmark = authorRepository.unmarkMergeTarget(targetId, id);
+      const merge = Effect.gen(function* () {
+        const books = yield* bookRepository.findByAuthor(id);
+        yield* changeAuthorship(
+          id,
+          {
+            reassign: books.map((book) => ({
+              book,
+              authorIds: book.authorIds.includes(targetId)
+                ? book.authorIds.filter((authorId) => authorId !== id)
+                : book.authorIds.map((authorId) =>
+                    authorId === id ? targetId : authorId,
+                  ),
+            })),
+            trash: [],
+          },
+          actor,
+        );
+        const revision = yield* modifiedConcurrently(
+          authorRepository.delete(id, actor, author.version),
+          `Author ${id} was modified while it was being merged, please retry`,
+        );
+        yield* recordDelete(revision, "merge");
+      }).pipe(transaction);
+
+      yield* merge.pipe(
+        Effect.onError(() =>
+          unmark.pipe(
+            Effect.tapErrorCause((cause) =>
+              Effect.logError(
+                `Failed to unmark author ${targetId} as the target of a merge`,
+                cause,
+              ),
+            ),
+            Effect.ignore,
           ),
         ),
       );
+      return yield* unmark;
+    });
+
+  const getDeletedAuthors = () => authorRepository.findDeleted();
+
+  const restoreAuthor = (id: AuthorId) =>
+    Effect.gen(function* () {
+      const deletedAuthor = yield* authorRepository.findDeletedById(id);
+
+      // Another author may have taken the name while this one was in the trash
+      const existingAuthors = yield* authorRepository.findByName(
+        deletedAuthor.fullName,
+      );
+      const duplicateAuthor = existingAuthors.find(
+        (author) =>
+          author.fullName.toLowerCase() ===
+          deletedAuthor.fullName.toLowerCase(),
+      );
+
+      if (duplicateAuthor) {
+        return yield* Effect.fail(
+          new BusinessError({
+            message: `Author with name "${deletedAuthor.fullName}" already exists`,
+          }),
+        );
+      }
+
+      const revision = yield* authorRepository.restore(id);
+      yield* auditService.record({
+        entity: "author",
+        entityId: id,
+        action: "restore",
+        ...revision,
+      });
+      return revision.after;
+    }).pipe(transaction);
+
+  const purgeAuthor = (id: AuthorId) =>
+    Effect.gen(function* () {
+      const before = yield* authorRepository.purge(id);
+      yield* auditService.record({
+        entity: "author",
+        entityId: id,
+        action: "purge",
+        before,
+        at: new Date(),
+      });
+    }).pipe(transaction);
+
+  const searchAuthors = (query: string) => searchService.searchAuthors(query);
 
   const getAuthorsByNationality = (nationality: string) =>
     authorRepository.findByNationality(nationality);
@@ -118,20 +417,66 @@ const make = Effect.gen(function* () {
 
   const getAuthorsByName = (name: string) => authorRepository.findByName(name);
 
+  const restricted = restrict(AUTHOR_PERMISSIONS, "AuthorService");
+  const traced = trace("AuthorService");
+  const byId = (id: AuthorId) => ({ "author.id": id });
+
   return {
-    getAllAuthors,
-    getAuthorById,
-    getAuthorsByIds,
-    createAuthor,
-    updateAuthor,
-    deleteAuthor,
-    searchAuthors,
-    getAuthorsByNationality,
-    validateAuthorExists,
-    getAuthorsByName,
+    getAllAuthors: traced("getAllAuthors", getAllAuthors),
+    listAuthors: traced("listAuthors", listAuthors),
+    getAuthorById: traced("getAuthorById", getAuthorById, byId),
+    getAuthorsByIds: traced("getAuthorsByIds", getAuthorsByIds, (ids) => ({
+      "author.ids": ids,
+    })),
+    createAuthor: restricted(
+      "createAuthor",
+      traced("createAuthor", createAuthor),
+    ),
+    updateAuthor: restricted(
+      "updateAuthor",
+      traced("updateAuthor", updateAuthor, byId),
+    ),
+    deleteAuthor: restricted(
+      "deleteAuthor",
+      traced("deleteAuthor", deleteAuthor, (id, strategy) => ({
+        "author.id": id,
+        "author.delete_strategy": strategy,
+      })),
+    ),
+    mergeAuthor: restricted(
+      "mergeAuthor",
+      traced("mergeAuthor", mergeAuthor, (id, targetId) => ({
+        "author.id": id,
+        "author.merge_target_id": targetId,
+      })),
+    ),
+    getDeletedAuthors: traced("getDeletedAuthors", getDeletedAuthors),
+    restoreAuthor: restricted(
+      "restoreAuthor",
+      traced("restoreAuthor", restoreAuthor, byId),
+    ),
+    purgeAuthor: restricted(
+      "purgeAuthor",
+      traced("purgeAuthor", purgeAuthor, byId),
+    ),
+    searchAuthors: traced("searchAuthors", searchAuthors),
+    getAuthorsByNationality: traced(
+      "getAuthorsByNationality",
+      getAuthorsByNationality,
+    ),
+    validateAuthorExists: traced(
+      "validateAuthorExists",
+      validateAuthorExists,
+      byId,
+    ),
+    getAuthorsByName: traced("getAuthorsByName", getAuthorsByName),
   };
 });
 
 export const AuthorServiceLive = Layer.effect(AuthorService, make).pipe(
   Layer.provide(AuthorRepositoryLive),
+  Layer.provide(BookRepositoryLive),
+  Layer.provide(SearchServiceLive),
+  Layer.provide(AuditServiceLive),
+  Layer.provide(MongoDBLive),
 );
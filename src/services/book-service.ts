@@ -1,43 +1,136 @@
 import { Context, Effect, Layer, Option } from "effect";
+import { MongoDB, MongoDBLive } from "../database";
 import {
   BookRepository,
   BookRepositoryLive,
 } from "../repositories/book-repository";
 import {
   Book,
+  BookFilter,
   BookId,
+  BookListQuery,
   CreateBookRequest,
   UpdateBookRequest,
 } from "../models/book";
 import { AuthorService, AuthorServiceLive } from "./author-service";
+import { SearchService, SearchServiceLive } from "./search-service";
 import { AuthorId } from "../models/author";
-import { AppError, BusinessError, NotFoundError, ValidationError } from "../errors";
+import {
+  StockMovement,
+  StockReconciliation,
+  UpdateStockRequest,
+} from "../models/inventory";
+import { AuditService, AuditServiceLive } from "./audit-service";
+import { rewind, stockChange } from "../audit/changes";
+import {
+  AppError,
+  BusinessError,
+  NotFoundError,
+  ValidationError,
+} from "../errors";
+import { Page } from "../models/query";
+import { CurrentUser } from "../auth/current-user";
+import { Permissions, restrict } from "../auth/permissions";
+import { trace } from "../tracing/spans";
 
 export interface BookService {
   getAllBooks: () => Effect.Effect<Book[], AppError>;
+  listBooks: (
+    query: BookListQuery,
+    filter?: BookFilter,
+  ) => Effect.Effect<Page<Partial<Book>>, AppError>;
   getBookById: (id: BookId) => Effect.Effect<Book, AppError>;
-  createBook: (book: CreateBookRequest) => Effect.Effect<Book, AppError>;
+  getBookAt: (
+    id: BookId,
+    at: Date,
+  ) => Effect.Effect<Book, AppError, CurrentUser>;
+  createBook: (
+    book: CreateBookRequest,
+  ) => Effect.Effect<Book, AppError, CurrentUser>;
   updateBook: (
     id: BookId,
     book: UpdateBookRequest,
-  ) => Effect.Effect<Book, AppError>;
-  deleteBook: (id: BookId) => Effect.Effect<void, AppError>;
+    expectedVersion?: number,
+  ) => Effect.Effect<Book, AppError, CurrentUser>;
+  deleteBook: (
+    id: BookId,
+    expectedVersion?: number,
+  ) => Effect.Effect<void, AppError, CurrentUser>;
+  getDeletedBooks: () => Effect.Effect<Book[], AppError>;
+  restoreBook: (id: BookId) => Effect.Effect<Book, AppError, CurrentUser>;
+  purgeBook: (id: BookId) => Effect.Effect<void, AppError, CurrentUser>;
   searchBooks: (query: string) => Effect.Effect<Book[], AppError>;
   getBooksByGenre: (genre: string) => Effect.Effect<Book[], AppError>;
   getBooksByAuthor: (authorName: string) => Effect.Effect<Book[], AppError>;
-  updateStock: (id: BookId, quantity: number) => Effect.Effect<Book, AppError>;
+  updateStock: (
+    id: BookId,
+    request: UpdateStockRequest,
+  ) => Effect.Effect<Book, AppError, CurrentUser>;
+  getStockHistory: (id: BookId) => Effect.Effect<StockMovement[], AppError>;
+  reconcileStock: (id: BookId) => Effect.Effect<StockReconciliation, AppError>;
+  getStockDrift: () => Effect.Effect<StockReconciliation[], AppError>;
 }
 
 export const BookService = Context.GenericTag<BookService>("BookService");
 
+// Reads are open to everyone, except history, which shows what the audit log
+// does and is for admins like it; clerks may only adjust stock
+export const BOOK_PERMISSIONS: Permissions<BookService> = {
+  getBookAt: ["admin"],
+  createBook: ["editor", "admin"],
+  updateBook: ["editor", "admin"],
+  deleteBook: ["admin"],
+  restoreBook: ["editor", "admin"],
+  purgeBook: ["admin"],
+  updateStock: ["clerk", "admin"],
+};
+
 const make = Effect.gen(function* () {
+  const { transaction } = yield* MongoDB;
   const bookRepository = yield* BookRepository;
   const authorService = yield* AuthorService;
+  const searchService = yield* SearchService;
+  const auditService = yield* AuditService;
 
   const getAllBooks = () => bookRepository.findAll();
 
+  const listBooks = (query: BookListQuery, filter?: BookFilter) =>
+    bookRepository.findPage(query, filter);
+
   const getBookById = (id: BookId) => bookRepository.findById(id);
 
+  /**
+   * Rewinds the book, from the trash if need be, through the audit entries
+   * made after `at`. Books that have been purged are rebuilt from their
+   * entries alone.
+   */
+  const getBookAt = (id: BookId, at: Date) =>
+    Effect.gen(function* () {
+      const current = yield* bookRepository.findById(id).pipe(
+        Effect.catchTag("NotFoundError", () =>
+          bookRepository.findDeletedById(id),
+        ),
+        Effect.map((book): Book | undefined => book),
+        Effect.catchTag("NotFoundError", () => Effect.succeed(undefined)),
+      );
+      const entries = yield* auditService.getEntriesFor("book", id);
+      if (current === undefined && entries.length === 0) {
+        return yield* Effect.fail(
+          new NotFoundError({ message: `Book with id ${id} not found` }),
+        );
+      }
+
+      const state = rewind(current, entries, at);
+      if (state === undefined) {
+        return yield* Effect.fail(
+          new NotFoundError({
+            message: `Book with id ${id} did not exist at ${at.toISOString()}`,
+          }),
+        );
+      }
+      return { ...state, _id: id } as Book;
+    });
+
   const createBook = (bookData: CreateBookRequest) =>
     Effect.gen(function* () {
       // Validate that all author IDs exist
@@ -53,24 +146,25 @@ const make = Effect.gen(function* () {
         }
       }
 
-      const existingBook = yield* bookRepository
-        .findAll()
-        .pipe(
-          Effect.map((books) => books.find((b) => b.isbn === bookData.isbn)),
-        );
+      // ISBN uniqueness is enforced by the repository's unique index
+      const actor = yield* CurrentUser;
+      const book = yield* bookRepository.create(bookData, actor);
+      yield* Effect.annotateCurrentSpan("book.id", book._id!);
+      yield* auditService.record({
+        entity: "book",
+        entityId: book._id!,
+        action: "create",
+        after: book,
+        at: book.createdAt!,
+      });
+      return book;
+    }).pipe(transaction);
 
-      if (existingBook) {
-        return yield* Effect.fail(
-          new BusinessError({
-            message: `Book with ISBN ${bookData.isbn} already exists`,
-          }),
-        );
-      }
-
-      return yield* bookRepository.create(bookData);
-    });
-
-  const updateBook = (id: BookId, updateData: UpdateBookRequest) =>
+  const updateBook = (
+    id: BookId,
+    updateData: UpdateBookRequest,
+    expectedVersion?: number,
+  ) =>
     Effect.gen(function* () {
       // Validate author IDs if they are being updated
       if (updateData.authorIds) {
@@ -87,55 +181,77 @@ const make = Effect.gen(function* () {
         }
       }
 
-      return yield* bookRepository.update(id, updateData);
-    });
-
-  const deleteBook = (id: BookId) => bookRepository.delete(id);
+      const actor = yield* CurrentUser;
+      const revision = yield* bookRepository.update(
+        id,
+        updateData,
+        actor,
+        expectedVersion,
+      );
+      yield* auditService.record({
+        entity: "book",
+        entityId: id,
+        action: "update",
+        ...revision,
+      });
+      return revision.after;
+    }).pipe(transaction);
 
-  const searchBooks = (query: string) =>
+  const deleteBook = (id: BookId, expectedVersion?: number) =>
     Effect.gen(function* () {
-      const books = yield* bookRepository.findAll();
-      const filteredBooks = [];
-
-      for (const book of books) {
-        // Check title and genre
-        if (
-          book.title.toLowerCase().includes(query.toLowerCase()) ||
-          book.genre.toLowerCase().includes(query.toLowerCase())
-        ) {
-          filteredBooks.push(book);
-          continue;
-        }
+      const actor = yield* CurrentUser;
+      const revision = yield* bookRepository.delete(id, actor, expectedVersion);
+      yield* auditService.record({
+        entity: "book",
+        entityId: id,
+        action: "delete",
+        ...revision,
+      });
+    }).pipe(transaction);
 
-        // Check authors by getting author details
-        const authors = yield* authorService.getAuthorsByIds([
-          ...book.authorIds,
-        ]);
-        const authorMatch = authors.some(
-          (author) =>
-            author.firstName.toLowerCase().includes(query.toLowerCase()) ||
-            author.lastName.toLowerCase().includes(query.toLowerCase()) ||
-            author.fullName.toLowerCase().includes(query.toLowerCase()),
-        );
+  const getDeletedBooks = () => bookRepository.findDeleted();
 
-        if (authorMatch) {
-          filteredBooks.push(book);
-        }
+  const restoreBook = (id: BookId) =>
+    Effect.gen(function* () {
+      const deleted = yield* bookRepository.findDeletedById(id);
+      // Authors deleted along with the book must come back first
+      const authors = yield* authorService.getAuthorsByIds([...deleted.authorIds]);
+      const missing = deleted.authorIds.filter(
+        (authorId) => !authors.some((author) => author._id === authorId),
+      );
+      if (missing.length > 0) {
+        return yield* Effect.fail(
+          new BusinessError({
+            message: `Book ${id} lists authors that are not in the catalog: ${missing.join(", ")}. Restore them first`,
+          }),
+        );
       }
+      const revision = yield* bookRepository.restore(id);
+      yield* auditService.record({
+        entity: "book",
+        entityId: id,
+        action: "restore",
+        ...revision,
+      });
+      return revision.after;
+    }).pipe(transaction);
 
-      return filteredBooks;
-    });
+  const purgeBook = (id: BookId) =>
+    Effect.gen(function* () {
+      const before = yield* bookRepository.purge(id);
+      yield* auditService.record({
+        entity: "book",
+        entityId: id,
+        action: "purge",
+        before,
+        at: new Date(),
+      });
+    }).pipe(transaction);
+
+  const searchBooks = (query: string) => searchService.searchBooks(query);
 
   const getBooksByGenre = (genre: string) =>
-    bookRepository
-      .findAll()
-      .pipe(
-        Effect.map((books) =>
-          books.filter(
-            (book) => book.genre.toLowerCase() === genre.toLowerCase(),
-          ),
-        ),
-      );
+    bookRepository.findByFilter({ genre: [genre] });
 
   const getBooksByAuthor = (authorName: string) =>
     Effect.gen(function* () {
@@ -150,41 +266,92 @@ const make = Effect.gen(function* () {
       }
 
       // Then find books by those author IDs
-      const allBooks = yield* bookRepository.findAll();
-      return allBooks.filter((book) =>
-        book.authorIds.some((authorId) => authorIds.includes(authorId)),
-      );
+      return yield* bookRepository.findByFilter({ authorIds });
     });
 
-  const updateStock = (id: BookId, quantity: number) =>
+  const updateStock = (id: BookId, request: UpdateStockRequest) =>
     Effect.gen(function* () {
-      const book = yield* bookRepository.findById(id);
-      const currentBook = book;
-      const newStock = currentBook.stock + quantity;
+      const { quantity, expectedStock, reason, note } = request;
+      const actor = yield* CurrentUser;
+      const updated = yield* bookRepository.adjustStock(
+        id,
+        quantity,
+        { reason, actor, note },
+        expectedStock,
+      );
+      if (Option.isSome(updated)) {
+        yield* auditService.record(stockChange(updated.value, quantity));
+        return updated.value;
+      }
 
-      if (newStock < 0) {
+      // The update was rejected atomically; read the book only to explain why
+      const book = yield* bookRepository.findById(id);
+      if (expectedStock !== undefined && book.stock !== expectedStock) {
         return yield* Effect.fail(
-          new BusinessError({ message: "Insufficient stock" }),
+          new BusinessError({
+            message: `Stock for book ${id} is ${book.stock}, expected ${expectedStock}`,
+          }),
         );
       }
 
-      return yield* bookRepository.update(id, { stock: newStock });
-    });
+      return yield* Effect.fail(
+        new BusinessError({ message: "Insufficient stock" }),
+      );
+    }).pipe(transaction);
+
+  const getStockHistory = (id: BookId) => bookRepository.findStockHistory(id);
+
+  const reconcileStock = (id: BookId) => bookRepository.reconcileStock(id);
+
+  const getStockDrift = () => bookRepository.findStockDrift();
+
+  const restricted = restrict(BOOK_PERMISSIONS, "BookService");
+  const traced = trace("BookService");
+  const byId = (id: BookId) => ({ "book.id": id });
 
   return {
-    getAllBooks,
-    getBookById,
-    createBook,
-    updateBook,
-    deleteBook,
-    searchBooks,
-    getBooksByGenre,
-    getBooksByAuthor,
-    updateStock,
+    getAllBooks: traced("getAllBooks", getAllBooks),
+    listBooks: traced("listBooks", listBooks),
+    getBookById: traced("getBookById", getBookById, byId),
+    getBookAt: restricted(
+      "getBookAt",
+      traced("getBookAt", getBookAt, (id, at) => ({
+        "book.id": id,
+        "book.at": at.toISOString(),
+      })),
+    ),
+    createBook: restricted("createBook", traced("createBook", createBook)),
+    updateBook: restricted(
+      "updateBook",
+      traced("updateBook", updateBook, byId),
+    ),
+    deleteBook: restricted(
+      "deleteBook",
+      traced("deleteBook", deleteBook, byId),
+    ),
+    getDeletedBooks: traced("getDeletedBooks", getDeletedBooks),
+    restoreBook: restricted(
+      "restoreBook",
+      traced("restoreBook", restoreBook, byId),
+    ),
+    purgeBook: restricted("purgeBook", traced("purgeBook", purgeBook, byId)),
+    searchBooks: traced("searchBooks", searchBooks),
+    getBooksByGenre: traced("getBooksByGenre", getBooksByGenre),
+    getBooksByAuthor: traced("getBooksByAuthor", getBooksByAuthor),
+    updateStock: restricted(
+      "updateStock",
+      traced("updateStock", updateStock, byId),
+    ),
+    getStockHistory: traced("getStockHistory", getStockHistory, byId),
+    reconcileStock: traced("reconcileStock", reconcileStock, byId),
+    getStockDrift: traced("getStockDrift", getStockDrift),
   };
 });
 
 export const BookServiceLive = Layer.effect(BookService, make).pipe(
   Layer.provide(BookRepositoryLive),
   Layer.provide(AuthorServiceLive),
+  Layer.provide(SearchServiceLive),
+  Layer.provide(AuditServiceLive),
+  Layer.provide(MongoDBLive),
 );
@@ -0,0 +1,386 @@
+import {
+  Chunk,
+  Context,
+  Effect,
+  Either,
+  Layer,
+  Option,
+  Schema,
+  Stream,
+} from "effect";
+import {
+  AuthorRepository,
+  AuthorRepositoryLive,
+} from "../repositories/author-repository";
+import {
+  BookRepository,
+  BookRepositoryLive,
+} from "../repositories/book-repository";
+import { AuthorService, AuthorServiceLive } from "./author-service";
+import { BookService, BookServiceLive } from "./book-service";
+import { PopulationService, PopulationServiceLive } from "./population-service";
+import { CurrentUser } from "../auth/current-user";
+import { Permissions, restrict } from "../auth/permissions";
+import { Author, AuthorId, CreateAuthorRequest } from "../models/author";
+import { Book } from "../models/book";
+import { toMajorUnits } from "../models/money";
+import {
+  AUTHOR_CSV_COLUMNS,
+  AuthorExportRow,
+  AuthorImportRow,
+  BOOK_CSV_COLUMNS,
+  BookCsvRow,
+  BookExportRow,
+  BookImportRow,
+  CatalogFormat,
+  CatalogType,
+  ImportReport,
+  ImportRowResult,
+} from "../models/catalog";
+import {
+  OnixProduct,
+  ONIX_FOOTER,
+  onixHeader,
+  parseProduct,
+  splitProducts,
+  toOnixProduct,
+} from "../formats/onix";
+import { parseCsvObjects, toCsvLine } from "../formats/csv";
+import { AppError, ValidationError, fromParseError } from "../errors";
+
+export interface CatalogService {
+  importCatalog: (
+    input: Stream.Stream<Uint8Array, AppError>,
+    format: CatalogFormat,
+    type: CatalogType,
+  ) => Effect.Effect<ImportReport, AppError, CurrentUser>;
+  exportCatalog: (
+    format: CatalogFormat,
+    type: CatalogType,
+  ) => Effect.Effect<Stream.Stream<string, AppError>, AppError>;
+}
+
+export const CatalogService =
+  Context.GenericTag<CatalogService>("CatalogService");
+
+// Imports create and update records, so they need the roles that may; rows
+// are checked again as they are written
+export const CATALOG_PERMISSIONS: Permissions<CatalogService> = {
+  importCatalog: ["editor", "admin"],
+};
+
+// Books populated with their authors per batch while exporting
+const EXPORT_BATCH_SIZE = 100;
+
+interface Imported {
+  readonly status: "created" | "updated";
+  readonly id?: string;
+}
+
+const decodeRow =
+  <A, I>(schema: Schema.Schema<A, I>) =>
+  (data: unknown) =>
+    Schema.decodeUnknown(schema, { errors: "all" })(data).pipe(
+      Effect.mapError((error) => fromParseError("Invalid record", error)),
+    );
+
+// Each record as parsed from the file, or why it could not be read
+const readRecords = <E>(
+  text: Stream.Stream<string, E>,
+  format: CatalogFormat,
+): Stream.Stream<Either.Either<unknown, ValidationError>, E> => {
+  switch (format) {
+    case "csv":
+      return parseCsvObjects(text).pipe(Stream.map(Either.right));
+    case "ndjson":
+      return text.pipe(
+        Stream.splitLines,
+        Stream.filter((line) => line.trim() !== ""),
+        Stream.map((line) =>
+          Either.try({
+            try: (): unknown => JSON.parse(line),
+            catch: (error) =>
+              new ValidationError({ message: `Invalid JSON: ${error}` }),
+          }),
+        ),
+      );
+    case "onix":
+      return splitProducts(text).pipe(
+        Stream.map((xml) =>
+          Either.try({
+            try: (): unknown => parseProduct(xml),
+            catch: (error) =>
+              new ValidationError({
+                message: `Invalid ONIX product: ${error}`,
+              }),
+          }),
+        ),
+      );
+  }
+};
+
+const toCsvCell = (value: unknown) =>
+  value === undefined || value === null
+    ? ""
+    : Array.isArray(value)
+      ? value.join("; ")
+      : String(value);
+
+const make = Effect.gen(function* () {
+  const bookService = yield* BookService;
+  const authorService = yield* AuthorService;
+  const bookRepository = yield* BookRepository;
+  const authorRepository = yield* AuthorRepository;
+  const population = yield* PopulationService;
+
+  const resolveAuthor = (name: string) =>
+    authorRepository.findByFullName(name).pipe(
+      Effect.flatMap(
+        Option.match({
+          onNone: () =>
+            Effect.fail(
+              new ValidationError({ message: `Unknown author "${name}"` }),
+            ),
+          onSome: (author) => Effect.succeed(author._id!),
+        }),
+      ),
+    );
+
+  // Books are matched on ISBN: an existing book is updated, otherwise one is created
+  const importBook = (row: BookImportRow) =>
+    Effect.gen(function* () {
+      const { authors, ...fields } = row;
+      const resolved = yield* Effect.forEach(authors, resolveAuthor);
+      const book = {
+        ...fields,
+        authorIds: [...new Set<AuthorId>([...fields.authorIds, ...resolved])],
+      };
+
+      const existing = yield* bookRepository.findByIsbn(book.isbn);
+      if (Option.isSome(existing)) {
+        // Leave stock alone when it has not changed, so no ledger entry is recorded
+        const { stock, ...rest } = book;
+        const updated = yield* bookService.updateBook(
+          existing.value._id!,
+          stock === existing.value.stock ? rest : book,
+        );
+        return { status: "updated", id: updated._id } satisfies Imported;
+      }
+
+      const created = yield* bookService.createBook(book);
+      return { status: "created", id: created._id } satisfies Imported;
+    });
+
+  // Authors are matched on full name, like the duplicate check on create
+  const importAuthor = (row: CreateAuthorRequest) =>
+    Effect.gen(function* () {
+      const existing = yield* authorRepository.findByFullName(row.fullName);
+      if (Option.isSome(existing)) {
+        const updated = yield* authorService.updateAuthor(
+          existing.value._id!,
+          row,
+        );
+        return { status: "updated", id: updated._id } satisfies Imported;
+      }
+
+      const created = yield* authorService.createAuthor(row);
+      return { status: "created", id: created._id } satisfies Imported;
+    });
+
+  // Contributors are created when missing but never overwrite existing authors
+  const importOnixProduct = (product: OnixProduct) =>
+    Effect.gen(function* () {
+      const book = yield* decodeRow(BookImportRow)(product.book);
+      const contributors = yield* Effect.forEach(
+        product.contributors,
+        decodeRow(AuthorImportRow),
+      );
+
+      yield* Effect.forEach(contributors, (contributor) =>
+        authorRepository.findByFullName(contributor.fullName).pipe(
+          Effect.flatMap(
+            Option.match({
+              onNone: () => authorService.createAuthor(contributor),
+              onSome: Effect.succeed,
+            }),
+          ),
+        ),
+      );
+
+      return yield* importBook(book);
+    });
+
+  const importRecord = (
+    format: CatalogFormat,
+    type: CatalogType,
+  ): ((record: unknown) => Effect.Effect<Imported, AppError, CurrentUser>) => {
+    if (format === "onix") {
+      return (record) => importOnixProduct(record as OnixProduct);
+    }
+    if (type === "authors") {
+      return (record) =>
+        decodeRow(AuthorImportRow)(record).pipe(Effect.flatMap(importAuthor));
+    }
+    if (format === "csv") {
+      return (record) =>
+        decodeRow(BookCsvRow)(record).pipe(Effect.flatMap(importBook));
+    }
+    return (record) =>
+      decodeRow(BookImportRow)(record).pipe(Effect.flatMap(importBook));
+  };
+
+  /**
+   * Records are imported one at a time in file order, so a record repeated
+   * later in the same file updates the one created earlier. Records that
+   * fail validation or a business rule are reported and skipped; database
+   * failures abort the import.
+   */
+  const importCatalog = (
+    input: Stream.Stream<Uint8Array, AppError>,
+    format: CatalogFormat,
+    type: CatalogType,
+  ) =>
+    Effect.gen(function* () {
+      const importOne = importRecord(format, type);
+
+      const results = yield* readRecords(
+        input.pipe(Stream.decodeText()),
+        format,
+      ).pipe(
+        Stream.zipWithIndex,
+        Stream.mapEffect(([record, index]) =>
+          Effect.flatMap(record, importOne).pipe(
+            Effect.map((imported): ImportRowResult => ({
+              row: index + 1,
+              ...imported,
+            })),
+            Effect.catchIf(
+              (error) => error._tag !== "DatabaseError",
+              (error) =>
+                Effect.succeed<ImportRowResult>({
+                  row: index + 1,
+                  status: "rejected",
+                  message: error.message,
+                  issues:
+                    error._tag === "ValidationError" ? error.issues : undefined,
+                }),
+            ),
+          ),
+        ),
+        Stream.runCollect,
+        Effect.map(Chunk.toReadonlyArray),
+      );
+
+      const count = (status: ImportRowResult["status"]) =>
+        results.filter((result) => result.status === status).length;
+
+      return {
+        format,
+        type: format === "onix" ? "books" : type,
+        created: count("created"),
+        updated: count("updated"),
+        rejected: count("rejected"),
+        rows: results,
+      } satisfies ImportReport;
+    });
+
+  const booksWithAuthors = () =>
+    bookRepository.streamAll().pipe(
+      Stream.rechunk(EXPORT_BATCH_SIZE),
+      Stream.mapChunksEffect((books) =>
+        population
+          .withAuthors(Chunk.toReadonlyArray(books))
+          .pipe(Effect.map(Chunk.fromIterable)),
+      ),
+    );
+
+  const toBookRecord = (
+    book: Book & { readonly authors: ReadonlyArray<Author> },
+  ) =>
+    Schema.encodeSync(BookExportRow)({
+      ...book,
+      authors: book.authors.map((author) => author.fullName),
+    });
+
+  const exportBooks = (
+    format: CatalogFormat,
+  ): Stream.Stream<string, AppError> => {
+    switch (format) {
+      case "csv":
+        return Stream.make(toCsvLine(BOOK_CSV_COLUMNS)).pipe(
+          Stream.concat(
+            booksWithAuthors().pipe(
+              Stream.map((book) => {
+                const record: Record<string, unknown> = {
+                  ...toBookRecord(book),
+                  price: toMajorUnits(book.price),
+                };
+                return toCsvLine(
+                  BOOK_CSV_COLUMNS.map((column) => toCsvCell(record[column])),
+                );
+              }),
+            ),
+          ),
+        );
+      case "ndjson":
+        return booksWithAuthors().pipe(
+          Stream.map((book) => `${JSON.stringify(toBookRecord(book))}\n`),
+        );
+      case "onix":
+        return Stream.suspend(() => Stream.make(onixHeader(new Date()))).pipe(
+          Stream.concat(booksWithAuthors().pipe(Stream.map(toOnixProduct))),
+          Stream.concat(Stream.make(ONIX_FOOTER)),
+        );
+    }
+  };
+
+  const exportAuthors = (
+    format: CatalogFormat,
+  ): Stream.Stream<string, AppError> => {
+    const records = authorRepository
+      .streamAll()
+      .pipe(Stream.map((author) => Schema.encodeSync(AuthorExportRow)(author)));
+
+    return format === "csv"
+      ? Stream.make(toCsvLine(AUTHOR_CSV_COLUMNS)).pipe(
+          Stream.concat(
+            records.pipe(
+              Stream.map((record: Record<string, unknown>) =>
+                toCsvLine(
+                  AUTHOR_CSV_COLUMNS.map((column) => toCsvCell(record[column])),
+                ),
+              ),
+            ),
+          ),
+        )
+      : records.pipe(Stream.map((record) => `${JSON.stringify(record)}\n`));
+  };
+
+  // Fails before anything is streamed, so the caller can still report the error
+  const exportCatalog = (format: CatalogFormat, type: CatalogType) =>
+    type === "authors" && format === "onix"
+      ? Effect.fail(
+          new ValidationError({
+            message:
+              "ONIX exports describe books; export authors as csv or ndjson",
+          }),
+        )
+      : Effect.succeed(
+          type === "books" ? exportBooks(format) : exportAuthors(format),
+        );
+
+  const restricted = restrict(CATALOG_PERMISSIONS, "CatalogService");
+
+  return {
+    importCatalog: restricted("importCatalog", importCatalog),
+    exportCatalog,
+  };
+});
+
+export const CatalogServiceLive = Layer.effect(CatalogService, make).pipe(
+  Layer.provide(BookServiceLive),
+  Layer.provide(AuthorServiceLive),
+  Layer.provide(BookRepositoryLive),
+  Layer.provide(AuthorRepositoryLive),
+  Layer.provide(PopulationServiceLive),
+);
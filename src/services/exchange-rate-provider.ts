@@ -0,0 +1,79 @@
+import { Context, Effect, Layer, Option, Schema } from "effect";
+import { readFile } from "node:fs/promises";
+import {
+  CurrencyCode,
+  ExchangeRateTable,
+  STORE_CURRENCY,
+} from "../models/money";
+import { AppConfig } from "../config";
+import { ValidationError } from "../errors";
+
+export interface ExchangeRateProvider {
+  // Units of `to` that one unit of `from` buys
+  getRate: (
+    from: CurrencyCode,
+    to: CurrencyCode,
+  ) => Effect.Effect<number, ValidationError>;
+}
+
+export const ExchangeRateProvider = Context.GenericTag<ExchangeRateProvider>(
+  "ExchangeRateProvider",
+);
+
+// Rates between any two currencies of the table are derived through its base
+export const makeStaticExchangeRates = (
+  table: ExchangeRateTable,
+): ExchangeRateProvider => {
+  const rates: Partial<Record<CurrencyCode, number>> = {
+    ...table.rates,
+    [table.base]: 1,
+  };
+
+  const getRate = (from: CurrencyCode, to: CurrencyCode) => {
+    const fromRate = rates[from];
+    const toRate = rates[to];
+    return from === to
+      ? Effect.succeed(1)
+      : fromRate === undefined || toRate === undefined
+        ? Effect.fail(
+            new ValidationError({
+              message: `No exchange rate from ${from} to ${to}`,
+            }),
+          )
+        : Effect.succeed(toRate / fromRate);
+  };
+
+  return { getRate };
+};
+
+export const StaticExchangeRatesLive = (table: ExchangeRateTable) =>
+  Layer.succeed(ExchangeRateProvider, makeStaticExchangeRates(table));
+
+// A JSON file shaped like ExchangeRateTable, read once when the layer is built
+export const FileExchangeRatesLive = (path: string) =>
+  Layer.effect(
+    ExchangeRateProvider,
+    Effect.tryPromise(() => readFile(path, "utf8")).pipe(
+      Effect.flatMap((json) =>
+        Schema.decodeUnknown(Schema.parseJson(ExchangeRateTable))(json),
+      ),
+      Effect.map(makeStaticExchangeRates),
+      Effect.mapError(
+        (error) => new Error(`Failed to load exchange rates from ${path}: ${error}`),
+      ),
+      Effect.orDie,
+    ),
+  );
+
+/**
+ * Rates come from the file named by EXCHANGE_RATES_FILE. Without one, only
+ * the store currency and books' own list prices are available.
+ */
+export const ExchangeRateProviderLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, ({ exchangeRatesFile }) =>
+    Option.match(exchangeRatesFile, {
+      onNone: () => StaticExchangeRatesLive({ base: STORE_CURRENCY, rates: {} }),
+      onSome: FileExchangeRatesLive,
+    }),
+  ),
+);
@@ -0,0 +1,66 @@
+import { Context, Duration, Effect, Either, Layer, Ref } from "effect";
+import { MongoDB, MongoDBLive } from "../database";
+import { AppConfig } from "../config";
+import { HealthCheck, Readiness } from "../models/health";
+import { DatabaseError } from "../errors";
+
+export interface HealthService {
+  // Whether the API can serve requests; never fails, a failed check is reported in the result
+  checkReadiness: () => Effect.Effect<Readiness>;
+  // From then on the API reports itself unavailable, so that traffic moves elsewhere while it drains
+  beginShutdown: () => Effect.Effect<void>;
+  isShuttingDown: () => Effect.Effect<boolean>;
+}
+
+export const HealthService = Context.GenericTag<HealthService>("HealthService");
+
+const make = Effect.gen(function* () {
+  const { db } = yield* MongoDB;
+  const { database } = yield* AppConfig;
+  const shuttingDown = yield* Ref.make(false);
+
+  // A server that cannot be reached holds a ping until server selection times out, so it is cut short
+  const pingMongo = (): Effect.Effect<HealthCheck> =>
+    Effect.tryPromise({
+      try: () => db.command({ ping: 1 }),
+      catch: (error) =>
+        new DatabaseError({ message: `Failed to ping MongoDB: ${error}` }),
+    }).pipe(
+      Effect.timeoutFail({
+        duration: database.pingTimeout,
+        onTimeout: () =>
+          new DatabaseError({
+            message: `MongoDB did not answer a ping within ${Duration.format(database.pingTimeout)}`,
+          }),
+      }),
+      Effect.either,
+      Effect.timed,
+      Effect.map(([duration, result]): HealthCheck => {
+        const latencyMs = Math.round(Duration.toMillis(duration));
+        return Either.match(result, {
+          onLeft: (error) => ({ status: "down", latencyMs, error: error.message }),
+          onRight: () => ({ status: "up", latencyMs }),
+        });
+      }),
+    );
+
+  const checkReadiness = () =>
+    Effect.zipWith(
+      pingMongo(),
+      Ref.get(shuttingDown),
+      (mongodb, draining): Readiness => ({
+        status: mongodb.status === "up" && !draining ? "ready" : "unavailable",
+        checks: { mongodb },
+      }),
+    );
+
+  const beginShutdown = () => Ref.set(shuttingDown, true);
+
+  const isShuttingDown = () => Ref.get(shuttingDown);
+
+  return { checkReadiness, beginShutdown, isShuttingDown };
+});
+
+export const HealthServiceLive = Layer.effect(HealthService, make).pipe(
+  Layer.provide(MongoDBLive),
+);
@@ -0,0 +1,45 @@
+import { Context, Effect, Layer, Metric, MetricPair } from "effect";
+import {
+  BookRepository,
+  BookRepositoryLive,
+} from "../repositories/book-repository";
+import { booksOutOfStock, booksTotal } from "../metrics/metrics";
+import { toPrometheus } from "../metrics/prometheus";
+import { DatabaseError } from "../errors";
+
+export interface MetricsService {
+  // Every metric in the Prometheus text format, with the catalog gauges counted afresh
+  render: () => Effect.Effect<string, DatabaseError>;
+}
+
+export const MetricsService = Context.GenericTag<MetricsService>("MetricsService");
+
+// Effect's own fiber metrics say little about the API, and it records some gauges as counters
+const isApplicationMetric = (pair: MetricPair.MetricPair.Untyped) =>
+  !pair.metricKey.name.startsWith("effect_");
+
+const make = Effect.gen(function* () {
+  const bookRepository = yield* BookRepository;
+
+  // Counted on each scrape rather than kept up to date by every write, so they cannot drift
+  const updateCatalogGauges = () =>
+    Effect.flatMap(bookRepository.countStock(), ({ total, outOfStock }) =>
+      Effect.zipRight(
+        Metric.set(booksTotal, total),
+        Metric.set(booksOutOfStock, outOfStock),
+      ),
+    );
+
+  const render = () =>
+    Effect.zipRight(updateCatalogGauges(), Metric.snapshot).pipe(
+      Effect.map((snapshot) =>
+        toPrometheus(snapshot.filter(isApplicationMetric)),
+      ),
+    );
+
+  return { render };
+});
+
+export const MetricsServiceLive = Layer.effect(MetricsService, make).pipe(
+  Layer.provide(BookRepositoryLive),
+);
@@ -0,0 +1,297 @@
+import { Context, Effect, Layer, Option } from "effect";
+import { MongoDB, MongoDBLive } from "../database";
+import {
+  OrderRepository,
+  OrderRepositoryLive,
+} from "../repositories/order-repository";
+import {
+  BookRepository,
+  BookRepositoryLive,
+} from "../repositories/book-repository";
+import {
+  CreateOrderRequest,
+  ORDER_TRANSITIONS,
+  Order,
+  OrderId,
+  OrderLine,
+  OrderListQuery,
+  OrderStatus,
+} from "../models/order";
+import {
+  PromotionRepository,
+  PromotionRepositoryLive,
+} from "../repositories/promotion-repository";
+import { PromotionService, PromotionServiceLive } from "./promotion-service";
+import { AuditService, AuditServiceLive } from "./audit-service";
+import { stockChange } from "../audit/changes";
+import { CurrentUser } from "../auth/current-user";
+import { Permissions, restrict } from "../auth/permissions";
+import { BookId } from "../models/book";
+import { CartItem } from "../pricing/promotions";
+import { StockChange } from "../models/inventory";
+import { Page } from "../models/query";
+import { AppError, BusinessError, ValidationError } from "../errors";
+
+export interface OrderService {
+  listOrders: (
+    query: OrderListQuery,
+  ) => Effect.Effect<Page<Partial<Order>>, AppError>;
+  getOrderById: (id: OrderId) => Effect.Effect<Order, AppError>;
+  createOrder: (
+    order: CreateOrderRequest,
+  ) => Effect.Effect<Order, AppError, CurrentUser>;
+  updateOrderStatus: (
+    id: OrderId,
+    status: OrderStatus,
+  ) => Effect.Effect<Order, AppError, CurrentUser>;
+  cancelOrder: (id: OrderId) => Effect.Effect<Order, AppError, CurrentUser>;
+}
+
+export const OrderService = Context.GenericTag<OrderService>("OrderService");
+
+// Any authenticated caller may place an order; moving it along is fulfilment work
+export const ORDER_PERMISSIONS: Permissions<OrderService> = {
+  updateOrderStatus: ["clerk", "admin"],
+  cancelOrder: ["clerk", "admin"],
+};
+
+const make = Effect.gen(function* () {
+  const { transaction } = yield* MongoDB;
+  const orderRepository = yield* OrderRepository;
+  const bookRepository = yield* BookRepository;
+  const promotionRepository = yield* PromotionRepository;
+  const promotionService = yield* PromotionService;
+  const auditService = yield* AuditService;
+
+  const listOrders = (query: OrderListQuery) =>
+    orderRepository.findPage(query);
+
+  const getOrderById = (id: OrderId) => orderRepository.findById(id);
+
+  // Stock moved by orders is audited like any other stock change
+  const adjustStock = (bookId: BookId, delta: number, change: StockChange) =>
+    bookRepository.adjustStock(bookId, delta, change).pipe(
+      Effect.tap((updated) =>
+        Option.isSome(updated)
+          ? auditService.record(stockChange(updated.value, delta))
+          : Effect.void,
+      ),
+      transaction,
+    );
+
+  // Stock goes back to books in the trash too; only a purged book cannot take it
+  const restoreStock = (lines: ReadonlyArray<OrderLine>, change: StockChange) =>
+    Effect.forEach(
+      lines,
+      (line) =>
+        Effect.gen(function* () {
+          const returned = yield* bookRepository.returnStock(
+            line.bookId,
+            line.quantity,
+            change,
+          );
+          if (Option.isNone(returned)) {
+            return yield* Effect.fail(
+              new BusinessError({
+                message: `Cannot return stock of "${line.title}": book ${line.bookId} has been purged`,
+              }),
+            );
+          }
+          yield* auditService.record(stockChange(returned.value, line.quantity));
+        }).pipe(transaction),
+      { discard: true },
+    );
+
+  /**
+   * Every line is reserved with a conditional decrement. If any line cannot
+   * be reserved, or the order cannot be saved, the lines reserved so far are
+   * released again, so an order either holds stock for all lines or none.
+   * A coupon is only redeemed when it lowered the price of some line, and
+   * is released along with the stock. The order's id is taken up front and
+   * every movement of the reservation refers to it, so the ledger can be
+   * reconciled against orders, including those that were never placed.
+   */
+  const createOrder = (orderData: CreateOrderRequest) =>
+    Effect.gen(function* () {
+      // Combine repeated lines for the same book
+      const quantities = new Map<BookId, number>();
+      for (const item of orderData.items) {
+        quantities.set(
+          item.bookId,
+          (quantities.get(item.bookId) ?? 0) + item.quantity,
+        );
+      }
+
+      const books = yield* bookRepository.findByIds([...quantities.keys()]);
+      const items: CartItem[] = [];
+      for (const [bookId, quantity] of quantities) {
+        const book = books.find((b) => b._id === bookId);
+        if (!book) {
+          return yield* Effect.fail(
+            new ValidationError({
+              message: `Book with ID ${bookId} does not exist`,
+            }),
+          );
+        }
+        items.push({ book, quantity });
+      }
+
+      // Prices are captured now, with the promotions running at this moment
+      const cart = yield* promotionService.priceCart(items, orderData.couponCode);
+      const lines: OrderLine[] = cart.lines.map((line, i) => ({
+        bookId: line.bookId,
+        title: items[i].book.title,
+        quantity: line.quantity,
+        unitPrice: line.listPrice,
+        ...(line.discounts.length > 0 ? { discounts: line.discounts } : {}),
+        lineTotal: line.lineTotal,
+      }));
+
+      const actor = yield* CurrentUser;
+      const orderId = orderRepository.newId();
+      const reserved: OrderLine[] = [];
+      let redeemed = false;
+      const reserveAndSave = Effect.gen(function* () {
+        for (const line of lines) {
+          const updated = yield* adjustStock(
+            line.bookId,
+            -line.quantity,
+            { reason: "order", actor, reference: orderId },
+          );
+          if (Option.isNone(updated)) {
+            return yield* Effect.fail(
+              new BusinessError({
+                message: `Insufficient stock for "${line.title}" (book ${line.bookId})`,
+              }),
+            );
+          }
+          reserved.push(line);
+        }
+
+        if (cart.couponCode !== undefined) {
+          redeemed = yield* promotionRepository.redeem(cart.couponCode);
+          if (!redeemed) {
+            return yield* Effect.fail(
+              new BusinessError({
+                message: `Coupon ${cart.couponCode} has reached its usage limit`,
+              }),
+            );
+          }
+        }
+
+        return yield* orderRepository.create({
+          _id: orderId,
+          items: lines,
+          itemCount: lines.reduce((count, line) => count + line.quantity, 0),
+          total: cart.total,
+          ...(cart.couponCode !== undefined ? { couponCode: cart.couponCode } : {}),
+        });
+      });
+
+      // A release that fails leaves stock or a coupon use held, which only the log will tell
+      const release = <E, R>(what: string, effect: Effect.Effect<unknown, E, R>) =>
+        effect.pipe(
+          Effect.tapErrorCause((cause) =>
+            Effect.logError(
+              `Failed to release ${what} held for order ${orderId}`,
+              cause,
+            ),
+          ),
+          Effect.ignore,
+        );
+
+      return yield* reserveAndSave.pipe(
+        Effect.onError(() =>
+          Effect.all([
+            release(
+              "the stock",
+              restoreStock(reserved, {
+                reason: "order",
+                actor,
+                reference: orderId,
+                note: "Released after the order could not be placed",
+              }),
+            ),
+            redeemed && cart.couponCode !== undefined
+              ? release(
+                  `coupon ${cart.couponCode}`,
+                  promotionRepository.release(cart.couponCode),
+                )
+              : Effect.void,
+          ]),
+        ),
+      );
+    });
+
+  const transition = (id: OrderId, status: OrderStatus) =>
+    Effect.gen(function* () {
+      const order = yield* orderRepository.findById(id);
+
+      if (!ORDER_TRANSITIONS[order.status].includes(status)) {
+        return yield* Effect.fail(
+          new BusinessError({
+            message: `Cannot change order ${id} from ${order.status} to ${status}`,
+          }),
+        );
+      }
+
+      const updated = yield* orderRepository.transitionStatus(
+        id,
+        [order.status],
+        status,
+      );
+      if (Option.isNone(updated)) {
+        return yield* Effect.fail(
+          new BusinessError({
+            message: `Order ${id} was modified concurrently, please retry`,
+          }),
+        );
+      }
+
+      return updated.value;
+    });
+
+  /**
+   * The status change, the stock and the coupon use are given back in one
+   * transaction: a concurrent cancel finds the order already cancelled and
+   * restores nothing, and one that fails part way leaves the order as it
+   * was, so it can be retried.
+   */
+  const cancelOrder = (id: OrderId) =>
+    Effect.gen(function* () {
+      const order = yield* transition(id, "cancelled");
+      const actor = yield* CurrentUser;
+      yield* restoreStock(order.items, {
+        reason: "order",
+        actor,
+        reference: id,
+        note: "Order cancelled",
+      });
+      if (order.couponCode !== undefined) {
+        yield* promotionRepository.release(order.couponCode);
+      }
+      return order;
+    }).pipe(transaction);
+
+  const updateOrderStatus = (id: OrderId, status: OrderStatus) =>
+    status === "cancelled" ? cancelOrder(id) : transition(id, status);
+
+  const restricted = restrict(ORDER_PERMISSIONS, "OrderService");
+
+  return {
+    listOrders,
+    getOrderById,
+    createOrder,
+    updateOrderStatus: restricted("updateOrderStatus", updateOrderStatus),
+    cancelOrder: restricted("cancelOrder", cancelOrder),
+  };
+});
+
+export const OrderServiceLive = Layer.effect(OrderService, make).pipe(
+  Layer.provide(OrderRepositoryLive),
+  Layer.provide(BookRepositoryLive),
+  Layer.provide(PromotionRepositoryLive),
+  Layer.provide(PromotionServiceLive),
+  Layer.provide(AuditServiceLive),
+  Layer.provide(MongoDBLive),
+);
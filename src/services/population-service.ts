@@ -0,0 +1,142 @@
+import { Context, Effect, Layer, Option, Request, RequestResolver } from "effect";
+import {
+  AuthorRepository,
+  AuthorRepositoryLive,
+} from "../repositories/author-repository";
+import {
+  BookRepository,
+  BookRepositoryLive,
+} from "../repositories/book-repository";
+import { Author, AuthorId } from "../models/author";
+import { Book } from "../models/book";
+import { AppError, DatabaseError } from "../errors";
+
+export interface PopulationService {
+  withAuthors: <B extends { readonly authorIds?: ReadonlyArray<AuthorId> }>(
+    books: ReadonlyArray<B>,
+  ) => Effect.Effect<Array<B & { authors: Author[] }>, AppError>;
+  withBooks: <A extends { readonly _id?: AuthorId }>(
+    authors: ReadonlyArray<A>,
+  ) => Effect.Effect<Array<A & { books: Book[] }>, AppError>;
+}
+
+export const PopulationService =
+  Context.GenericTag<PopulationService>("PopulationService");
+
+interface GetAuthor extends Request.Request<Option.Option<Author>, DatabaseError> {
+  readonly _tag: "GetAuthor";
+  readonly id: AuthorId;
+}
+
+const GetAuthor = Request.tagged<GetAuthor>("GetAuthor");
+
+interface GetBooksByAuthor extends Request.Request<Book[], DatabaseError> {
+  readonly _tag: "GetBooksByAuthor";
+  readonly authorId: AuthorId;
+}
+
+const GetBooksByAuthor = Request.tagged<GetBooksByAuthor>("GetBooksByAuthor");
+
+/**
+ * Lookups are modelled as Effect requests so that everything requested
+ * while populating one response is resolved by a single query per
+ * collection, however many books or authors the response contains.
+ */
+const make = Effect.gen(function* () {
+  const authorRepository = yield* AuthorRepository;
+  const bookRepository = yield* BookRepository;
+
+  const AuthorResolver = RequestResolver.makeBatched(
+    (requests: ReadonlyArray<GetAuthor>) =>
+      authorRepository
+        .findByIds([...new Set(requests.map((request) => request.id))])
+        .pipe(
+          Effect.flatMap((authors) => {
+            const byId = new Map(authors.map((author) => [author._id!, author]));
+            return Effect.forEach(
+              requests,
+              (request) =>
+                Request.succeed(request, Option.fromNullable(byId.get(request.id))),
+              { discard: true },
+            );
+          }),
+          Effect.catchAll((error) =>
+            Effect.forEach(requests, (request) => Request.fail(request, error), {
+              discard: true,
+            }),
+          ),
+        ),
+  );
+
+  const BooksByAuthorResolver = RequestResolver.makeBatched(
+    (requests: ReadonlyArray<GetBooksByAuthor>) =>
+      bookRepository
+        .findByFilter({
+          authorIds: [...new Set(requests.map((request) => request.authorId))],
+        })
+        .pipe(
+          Effect.flatMap((books) =>
+            Effect.forEach(
+              requests,
+              (request) =>
+                Request.succeed(
+                  request,
+                  books.filter((book) => book.authorIds.includes(request.authorId)),
+                ),
+              { discard: true },
+            ),
+          ),
+          Effect.catchAll((error) =>
+            Effect.forEach(requests, (request) => Request.fail(request, error), {
+              discard: true,
+            }),
+          ),
+        ),
+  );
+
+  // Authors keep the order of authorIds; ids of missing or deleted authors are skipped
+  const withAuthors = <B extends { readonly authorIds?: ReadonlyArray<AuthorId> }>(
+    books: ReadonlyArray<B>,
+  ) =>
+    Effect.forEach(
+      books,
+      (book) =>
+        Effect.forEach(
+          book.authorIds ?? [],
+          (id) => Effect.request(GetAuthor({ id }), AuthorResolver),
+          { batching: true },
+        ).pipe(
+          Effect.map((authors) => ({
+            ...book,
+            authors: authors.flatMap(Option.toArray),
+          })),
+        ),
+      { batching: true },
+    );
+
+  const withBooks = <A extends { readonly _id?: AuthorId }>(
+    authors: ReadonlyArray<A>,
+  ) =>
+    Effect.forEach(
+      authors,
+      (author) =>
+        (author._id
+          ? Effect.request(
+              GetBooksByAuthor({ authorId: author._id }),
+              BooksByAuthorResolver,
+            )
+          : Effect.succeed([])
+        ).pipe(Effect.map((books) => ({ ...author, books }))),
+      { batching: true },
+    );
+
+  return {
+    withAuthors,
+    withBooks,
+  };
+});
+
+export const PopulationServiceLive = Layer.effect(PopulationService, make).pipe(
+  Layer.provide(AuthorRepositoryLive),
+  Layer.provide(BookRepositoryLive),
+);
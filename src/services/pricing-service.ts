@@ -0,0 +1,70 @@
+import { Context, Effect, Layer } from "effect";
+import {
+  ExchangeRateProvider,
+  ExchangeRateProviderLive,
+} from "./exchange-rate-provider";
+import {
+  CurrencyCode,
+  Money,
+  fromMajorUnits,
+  toMajorUnits,
+} from "../models/money";
+import { AppError } from "../errors";
+
+export interface PricingService {
+  convert: (money: Money, currency: CurrencyCode) => Effect.Effect<Money, AppError>;
+  withPricesIn: <
+    B extends {
+      readonly price?: Money;
+      readonly listPrices?: ReadonlyArray<Money>;
+    },
+  >(
+    books: ReadonlyArray<B>,
+    currency: CurrencyCode,
+  ) => Effect.Effect<Array<B>, AppError>;
+}
+
+export const PricingService =
+  Context.GenericTag<PricingService>("PricingService");
+
+const make = Effect.gen(function* () {
+  const exchangeRates = yield* ExchangeRateProvider;
+
+  const convert = (money: Money, currency: CurrencyCode) =>
+    money.currency === currency
+      ? Effect.succeed(money)
+      : exchangeRates
+          .getRate(money.currency, currency)
+          .pipe(
+            Effect.map((rate) =>
+              fromMajorUnits(toMajorUnits(money) * rate, currency),
+            ),
+          );
+
+  // A book's list price in the currency wins over converting its price;
+  // books read without their price are left as they are
+  const withPricesIn = <
+    B extends {
+      readonly price?: Money;
+      readonly listPrices?: ReadonlyArray<Money>;
+    },
+  >(
+    books: ReadonlyArray<B>,
+    currency: CurrencyCode,
+  ) =>
+    Effect.forEach(books, (book) => {
+      if (!book.price) return Effect.succeed(book);
+      const listPrice = book.listPrices?.find(
+        (price) => price.currency === currency,
+      );
+      return (listPrice ? Effect.succeed(listPrice) : convert(book.price, currency)).pipe(
+        Effect.map((price) => ({ ...book, price })),
+      );
+    });
+
+  return { convert, withPricesIn };
+});
+
+export const PricingServiceLive = Layer.effect(PricingService, make).pipe(
+  Layer.provide(ExchangeRateProviderLive),
+);
@@ -0,0 +1,159 @@
+import { Context, Effect, Layer, Option } from "effect";
+import {
+  PromotionRepository,
+  PromotionRepositoryLive,
+} from "../repositories/promotion-repository";
+import {
+  BookRepository,
+  BookRepositoryLive,
+} from "../repositories/book-repository";
+import {
+  CartPrice,
+  CreatePromotionRequest,
+  PriceBreakdown,
+  Promotion,
+  PromotionId,
+  PromotionListQuery,
+  UpdatePromotionRequest,
+} from "../models/promotion";
+import { BookId } from "../models/book";
+import { CartItem, isRunning, priceBook, priceCart } from "../pricing/promotions";
+import { Page } from "../models/query";
+import { AppError, BusinessError, ValidationError } from "../errors";
+import { CurrentUser } from "../auth/current-user";
+import { Permissions, restrict } from "../auth/permissions";
+
+export interface PromotionService {
+  listPromotions: (
+    query: PromotionListQuery,
+  ) => Effect.Effect<Page<Partial<Promotion>>, AppError>;
+  getPromotionById: (id: PromotionId) => Effect.Effect<Promotion, AppError>;
+  createPromotion: (
+    promotion: CreatePromotionRequest,
+  ) => Effect.Effect<Promotion, AppError, CurrentUser>;
+  updatePromotion: (
+    id: PromotionId,
+    promotion: UpdatePromotionRequest,
+    expectedVersion?: number,
+  ) => Effect.Effect<Promotion, AppError, CurrentUser>;
+  deletePromotion: (
+    id: PromotionId,
+    expectedVersion?: number,
+  ) => Effect.Effect<void, AppError, CurrentUser>;
+  getBookPrice: (
+    id: BookId,
+    couponCode?: string,
+  ) => Effect.Effect<PriceBreakdown, AppError>;
+  priceCart: (
+    items: ReadonlyArray<CartItem>,
+    couponCode?: string,
+  ) => Effect.Effect<CartPrice, AppError>;
+}
+
+export const PromotionService =
+  Context.GenericTag<PromotionService>("PromotionService");
+
+export const PROMOTION_PERMISSIONS: Permissions<PromotionService> = {
+  createPromotion: ["editor", "admin"],
+  updatePromotion: ["editor", "admin"],
+  deletePromotion: ["admin"],
+};
+
+const make = Effect.gen(function* () {
+  const promotionRepository = yield* PromotionRepository;
+  const bookRepository = yield* BookRepository;
+
+  const listPromotions = (query: PromotionListQuery) =>
+    promotionRepository.findPage(query);
+
+  const getPromotionById = (id: PromotionId) =>
+    promotionRepository.findById(id);
+
+  const createPromotion = (promotionData: CreatePromotionRequest) =>
+    promotionRepository.create(promotionData);
+
+  const updatePromotion = (
+    id: PromotionId,
+    promotionData: UpdatePromotionRequest,
+    expectedVersion?: number,
+  ) =>
+    Effect.gen(function* () {
+      // The window check on the request only sees the dates it contains
+      if (promotionData.startsAt !== undefined || promotionData.endsAt !== undefined) {
+        const existing = yield* promotionRepository.findById(id);
+        const startsAt = promotionData.startsAt ?? existing.startsAt;
+        const endsAt = promotionData.endsAt ?? existing.endsAt;
+        if (startsAt !== undefined && endsAt !== undefined && startsAt > endsAt) {
+          return yield* Effect.fail(
+            new ValidationError({
+              message: "Invalid request data",
+              issues: [{ path: ["endsAt"], message: "must not be earlier than startsAt" }],
+            }),
+          );
+        }
+      }
+
+      return yield* promotionRepository.update(id, promotionData, expectedVersion);
+    });
+
+  const deletePromotion = (id: PromotionId, expectedVersion?: number) =>
+    promotionRepository.delete(id, expectedVersion);
+
+  // A coupon must exist, be running and have uses left to be accepted
+  const findCoupon = (code: string, now: Date) =>
+    Effect.gen(function* () {
+      const coupon = yield* promotionRepository.findByCouponCode(code);
+      if (Option.isNone(coupon) || !isRunning(coupon.value, now)) {
+        return yield* Effect.fail(
+          new ValidationError({ message: `Coupon ${code} is not valid` }),
+        );
+      }
+      const { usageLimit, usageCount } = coupon.value;
+      if (usageLimit !== undefined && usageCount >= usageLimit) {
+        return yield* Effect.fail(
+          new BusinessError({
+            message: `Coupon ${code} has reached its usage limit`,
+          }),
+        );
+      }
+      return coupon.value;
+    });
+
+  const pricingOptions = (couponCode: string | undefined) =>
+    Effect.gen(function* () {
+      const now = new Date();
+      const promotions = yield* promotionRepository.findRunning(now);
+      const coupon =
+        couponCode === undefined ? undefined : yield* findCoupon(couponCode, now);
+      return { promotions, options: { now, coupon } };
+    });
+
+  const getBookPrice = (id: BookId, couponCode?: string) =>
+    Effect.gen(function* () {
+      const book = yield* bookRepository.findById(id);
+      const { promotions, options } = yield* pricingOptions(couponCode);
+      return priceBook(book, promotions, options);
+    });
+
+  const priceCartItems = (items: ReadonlyArray<CartItem>, couponCode?: string) =>
+    Effect.map(pricingOptions(couponCode), ({ promotions, options }) =>
+      priceCart(items, promotions, options),
+    );
+
+  const restricted = restrict(PROMOTION_PERMISSIONS, "PromotionService");
+
+  return {
+    listPromotions,
+    getPromotionById,
+    createPromotion: restricted("createPromotion", createPromotion),
+    updatePromotion: restricted("updatePromotion", updatePromotion),
+    deletePromotion: restricted("deletePromotion", deletePromotion),
+    getBookPrice,
+    priceCart: priceCartItems,
+  };
+});
+
+export const PromotionServiceLive = Layer.effect(PromotionService, make).pipe(
+  Layer.provide(PromotionRepositoryLive),
+  Layer.provide(BookRepositoryLive),
+);
@@ -0,0 +1,61 @@
+import { Context, Effect, Layer } from "effect";
+import {
+  RateLimitStore,
+  RateLimitStoreLive,
+} from "../repositories/rate-limit-store";
+import { Budget, RateLimitStatus, RouteClass } from "../models/rate-limit";
+import { retryAfterSeconds, toStatus } from "../rate-limit/token-bucket";
+import { AppConfig } from "../config";
+import { DatabaseError, RateLimitError } from "../errors";
+
+export interface RateLimiter {
+  // Counts one request of `client` against its budget for `routeClass`
+  consume: (
+    routeClass: RouteClass,
+    client: string,
+  ) => Effect.Effect<RateLimitStatus, RateLimitError | DatabaseError>;
+}
+
+export const RateLimiter = Context.GenericTag<RateLimiter>("RateLimiter");
+
+export const makeRateLimiter = (
+  budgets: { readonly [C in RouteClass]: Budget },
+) =>
+  Effect.gen(function* () {
+    const store = yield* RateLimitStore;
+
+    const consume = (routeClass: RouteClass, client: string) =>
+      Effect.gen(function* () {
+        const budget = budgets[routeClass];
+        const now = new Date();
+        const { bucket, allowed } = yield* store.take(
+          `${routeClass}:${client}`,
+          budget,
+          now,
+        );
+        const status = toStatus(bucket, budget, now);
+        if (!allowed) {
+          const retryAfter = retryAfterSeconds(bucket, budget);
+          return yield* Effect.fail(
+            new RateLimitError({
+              message: `Rate limit of ${budget.requests} requests per ${budget.perSeconds} seconds exceeded for ${routeClass} routes; retry in ${retryAfter}s`,
+              limit: status.limit,
+              resetSeconds: status.resetSeconds,
+              retryAfter,
+            }),
+          );
+        }
+        return status;
+      });
+
+    return { consume };
+  });
+
+const make = Effect.gen(function* () {
+  const { rateLimits } = yield* AppConfig;
+  return yield* makeRateLimiter(rateLimits);
+});
+
+export const RateLimiterLive = Layer.effect(RateLimiter, make).pipe(
+  Layer.provide(RateLimitStoreLive),
+);
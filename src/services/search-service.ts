@@ -0,0 +1,328 @@
+import { Context, Effect, Layer } from "effect";
+import {
+  AUTHOR_SEARCH_WEIGHTS,
+  BOOK_SEARCH_WEIGHTS,
+  Candidate,
+  SearchRepository,
+  SearchRepositoryLive,
+} from "../repositories/search-repository";
+import {
+  BookRepository,
+  BookRepositoryLive,
+} from "../repositories/book-repository";
+import { escapeRegExp } from "../repositories/mongo-query";
+import { Author, AuthorId } from "../models/author";
+import { Book, BookId } from "../models/book";
+import {
+  Highlights,
+  ParsedQuery,
+  SearchHit,
+  SearchHitType,
+  SearchParams,
+  SearchResult,
+  isEmptyQuery,
+  parseSearchQuery,
+} from "../models/search";
+import { AppError, ValidationError } from "../errors";
+
+export interface SearchService {
+  search: (params: SearchParams) => Effect.Effect<SearchResult, AppError>;
+  searchBooks: (query: string) => Effect.Effect<Book[], AppError>;
+  searchAuthors: (query: string) => Effect.Effect<Author[], AppError>;
+}
+
+export const SearchService = Context.GenericTag<SearchService>("SearchService");
+
+// Upper bound on documents fetched from each collection before ranking
+const CANDIDATE_LIMIT = 200;
+// Share of an author's name score credited to each of their books
+const AUTHOR_MATCH_FACTOR = 0.5;
+// Phrase matches count more than the same words found separately
+const PHRASE_BOOST = 2;
+const SNIPPET_LENGTH = 160;
+
+const AUTHOR_NAME_WEIGHTS = {
+  fullName: AUTHOR_SEARCH_WEIGHTS.fullName,
+  firstName: AUTHOR_SEARCH_WEIGHTS.firstName,
+  lastName: AUTHOR_SEARCH_WEIGHTS.lastName,
+};
+
+interface Pattern {
+  readonly regex: RegExp;
+  readonly boost: number;
+}
+
+interface Range {
+  readonly start: number;
+  readonly end: number;
+}
+
+interface Scored {
+  readonly score: number;
+  readonly highlights: Record<string, string>;
+}
+
+const WORD_CHAR = "[\\p{L}\\p{N}]";
+
+// Bare terms match any word they start, which approximates the stemming done by $text
+const toPatterns = (query: ParsedQuery): Pattern[] => [
+  ...[...query.terms, ...query.prefixes].map((word) => ({
+    regex: new RegExp(`(?<!${WORD_CHAR})${escapeRegExp(word)}${WORD_CHAR}*`, "giu"),
+    boost: 1,
+  })),
+  ...query.phrases.map((phrase) => ({
+    regex: new RegExp(phrase.split(" ").map(escapeRegExp).join("\\s+"), "giu"),
+    boost: PHRASE_BOOST,
+  })),
+];
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const mergeRanges = (ranges: Range[]): Range[] =>
+  [...ranges]
+    .sort((a, b) => a.start - b.start)
+    .reduce<Range[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        merged[merged.length - 1] = {
+          start: last.start,
+          end: Math.max(last.end, range.end),
+        };
+      } else {
+        merged.push(range);
+      }
+      return merged;
+    }, []);
+
+// Escapes the text and wraps matches in <mark>, windowed around the first match
+const highlight = (text: string, matches: Range[]): string => {
+  const ranges = mergeRanges(matches);
+  let start = 0;
+  let end = text.length;
+
+  if (text.length > SNIPPET_LENGTH) {
+    start = Math.max(0, ranges[0].start - SNIPPET_LENGTH / 4);
+    end = Math.min(text.length, start + SNIPPET_LENGTH);
+  }
+
+  let snippet = start > 0 ? "…" : "";
+  let position = start;
+  for (const range of ranges) {
+    if (range.start >= end) break;
+    const rangeEnd = Math.min(range.end, end);
+    snippet +=
+      escapeHtml(text.slice(position, range.start)) +
+      `<mark>${escapeHtml(text.slice(range.start, rangeEnd))}</mark>`;
+    position = rangeEnd;
+  }
+  snippet += escapeHtml(text.slice(position, end));
+
+  return end < text.length ? `${snippet}…` : snippet;
+};
+
+const scoreFields = (
+  document: Record<string, unknown>,
+  weights: Record<string, number>,
+  patterns: ReadonlyArray<Pattern>,
+): Scored => {
+  let score = 0;
+  const highlights: Record<string, string> = {};
+
+  for (const [field, weight] of Object.entries(weights)) {
+    const value = document[field];
+    if (typeof value !== "string") continue;
+
+    let hits = 0;
+    const matches: Range[] = [];
+    for (const { regex, boost } of patterns) {
+      for (const match of value.matchAll(regex)) {
+        hits += boost;
+        matches.push({ start: match.index, end: match.index + match[0].length });
+      }
+    }
+
+    if (hits > 0) {
+      score += weight * hits;
+      highlights[field] = highlight(value, matches);
+    }
+  }
+
+  return { score, highlights };
+};
+
+/**
+ * The patterns do not stem, so a document $text matched only through
+ * stemming, e.g. "story" for "stories", scores nothing by them; it is ranked
+ * by its text score instead, without highlights.
+ */
+const scoreCandidate = <A extends object>(
+  candidate: Candidate<A>,
+  weights: Record<string, number>,
+  patterns: ReadonlyArray<Pattern>,
+): Scored => {
+  const document = candidate.document as Record<string, unknown>;
+  const scored = scoreFields(document, weights, patterns);
+  return scored.score > 0
+    ? scored
+    : { score: candidate.textScore, highlights: {} };
+};
+
+const byScore = (a: SearchHit, b: SearchHit) => b.score - a.score;
+
+const make = Effect.gen(function* () {
+  const searchRepository = yield* SearchRepository;
+  const bookRepository = yield* BookRepository;
+
+  const rankAuthors = (
+    candidates: ReadonlyArray<Candidate<Author>>,
+    patterns: ReadonlyArray<Pattern>,
+  ): SearchHit[] =>
+    candidates
+      .map((candidate) => ({
+        author: candidate.document,
+        ...scoreCandidate(candidate, AUTHOR_SEARCH_WEIGHTS, patterns),
+      }))
+      .filter(({ score }) => score > 0)
+      .map(({ author, score, highlights }) => ({
+        type: "author" as const,
+        id: author._id!,
+        score,
+        highlights: highlights as Highlights,
+        author,
+      }))
+      .sort(byScore);
+
+  // Books are ranked on their own fields plus credit for authors whose names matched
+  const rankBooks = (
+    query: ParsedQuery,
+    authors: ReadonlyArray<Author>,
+    patterns: ReadonlyArray<Pattern>,
+  ) =>
+    Effect.gen(function* () {
+      const authorMatches = new Map<AuthorId, { author: Author } & Scored>();
+      for (const author of authors) {
+        const scored = scoreFields(author, AUTHOR_NAME_WEIGHTS, patterns);
+        if (scored.score > 0) {
+          authorMatches.set(author._id!, { author, ...scored });
+        }
+      }
+
+      const candidates = yield* searchRepository.findBookCandidates(
+        query,
+        CANDIDATE_LIMIT,
+      );
+      const byAuthor =
+        authorMatches.size > 0
+          ? yield* bookRepository.findByFilter({
+              authorIds: [...authorMatches.keys()],
+            })
+          : [];
+
+      // Books found only through their authors had no part in the $text query
+      const books = new Map<BookId, Candidate<Book>>();
+      for (const book of byAuthor) {
+        books.set(book._id!, { document: book, textScore: 0 });
+      }
+      for (const candidate of candidates) {
+        books.set(candidate.document._id!, candidate);
+      }
+
+      const hits: SearchHit[] = [];
+      for (const candidate of books.values()) {
+        const book = candidate.document;
+        const own = scoreCandidate(candidate, BOOK_SEARCH_WEIGHTS, patterns);
+        const matchedAuthors = book.authorIds
+          .map((id) => authorMatches.get(id))
+          .filter((match) => match !== undefined);
+        const authorScore = Math.max(0, ...matchedAuthors.map((m) => m.score));
+        const score = own.score + AUTHOR_MATCH_FACTOR * authorScore;
+        if (score <= 0) continue;
+
+        const highlights: Record<string, string> = { ...own.highlights };
+        if (matchedAuthors.length > 0) {
+          highlights.authors = matchedAuthors
+            .map((m) => m.highlights.fullName ?? escapeHtml(m.author.fullName))
+            .join(", ");
+        }
+
+        hits.push({ type: "book", id: book._id!, score, highlights, book });
+      }
+
+      return hits.sort(byScore);
+    });
+
+  const rank = (input: string, types: ReadonlyArray<SearchHitType>) =>
+    Effect.gen(function* () {
+      const query = parseSearchQuery(input);
+      if (isEmptyQuery(query)) {
+        return [];
+      }
+
+      const patterns = toPatterns(query);
+      const authors = yield* searchRepository.findAuthorCandidates(
+        query,
+        CANDIDATE_LIMIT,
+      );
+
+      const authorHits = types.includes("author")
+        ? rankAuthors(authors, patterns)
+        : [];
+      const bookHits = types.includes("book")
+        ? yield* rankBooks(
+            query,
+            authors.map((candidate) => candidate.document),
+            patterns,
+          )
+        : [];
+
+      return [...authorHits, ...bookHits].sort(byScore);
+    });
+
+  const search = (params: SearchParams) =>
+    Effect.gen(function* () {
+      if (isEmptyQuery(parseSearchQuery(params.q))) {
+        return yield* Effect.fail(
+          new ValidationError({
+            message: `Search query "${params.q}" contains no searchable terms`,
+          }),
+        );
+      }
+
+      const hits = yield* rank(params.q, params.type ?? ["book", "author"]);
+      return {
+        query: params.q,
+        total: hits.length,
+        hits: hits.slice(0, params.limit),
+      };
+    });
+
+  const searchBooks = (query: string) =>
+    rank(query, ["book"]).pipe(
+      Effect.map((hits) =>
+        hits.flatMap((hit) => (hit.type === "book" ? [hit.book] : [])),
+      ),
+    );
+
+  const searchAuthors = (query: string) =>
+    rank(query, ["author"]).pipe(
+      Effect.map((hits) =>
+        hits.flatMap((hit) => (hit.type === "author" ? [hit.author] : [])),
+      ),
+    );
+
+  return {
+    search,
+    searchBooks,
+    searchAuthors,
+  };
+});
+
+export const SearchServiceLive = Layer.effect(SearchService, make).pipe(
+  Layer.provide(SearchRepositoryLive),
+  Layer.provide(BookRepositoryLive),
+);
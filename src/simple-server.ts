@@ -1,386 +1,460 @@
-import express from "express";
-import cors from "cors";
-import { Effect, Layer, Cause, Exit, Schema } from "effect";
+import { createServer, Server } from "http";
+import {
+  Effect,
+  Layer,
+  Cause,
+  ConfigError,
+  Duration,
+  Exit,
+  Logger,
+  ManagedRuntime,
+  Option,
+  Redacted,
+} from "effect";
+import { HttpApiBuilder } from "@effect/platform";
+import * as NodeHttpServer from "@effect/platform-node/NodeHttpServer";
+import { AppConfig, AppConfigLive, describeConfigError } from "./config";
 import { MongoDBLive } from "./database";
-import { BookRepositoryLive } from "./repositories/book-repository";
+import {
+  BookRepository,
+  BookRepositoryLive,
+} from "./repositories/book-repository";
 import { BookServiceLive } from "./services/book-service";
-import { BookService } from "./services/book-service";
 import { AuthorRepositoryLive } from "./repositories/author-repository";
 import { AuthorServiceLive } from "./services/author-service";
-import { AuthorService } from "./services/author-service";
-import { BookId, CreateBookRequest, UpdateBookRequest } from "./models/book";
 import {
-  AuthorId,
-  CreateAuthorRequest,
-  UpdateAuthorRequest,
-} from "./models/author";
-import { AppError, ValidationError } from "./errors";
-
-const app = express();
-
-// Enable CORS for all routes
-app.use(cors());
-app.use(express.json());
-
-// Serve static files from public directory
-app.use(express.static("public"));
+  SearchRepository,
+  SearchRepositoryLive,
+} from "./repositories/search-repository";
+import { SearchServiceLive } from "./services/search-service";
+import { OrderServiceLive } from "./services/order-service";
+import { PopulationServiceLive } from "./services/population-service";
+import { CatalogServiceLive } from "./services/catalog-service";
+import { PricingServiceLive } from "./services/pricing-service";
+import {
+  PromotionRepository,
+  PromotionRepositoryLive,
+} from "./repositories/promotion-repository";
+import { PromotionServiceLive } from "./services/promotion-service";
+import {
+  OrderRepository,
+  OrderRepositoryLive,
+} from "./repositories/order-repository";
+import {
+  ApiKeyRepository,
+  ApiKeyRepositoryLive,
+} from "./repositories/api-key-repository";
+import { AuthService, AuthServiceLive } from "./services/auth-service";
+import {
+  AuditRepository,
+  AuditRepositoryLive,
+} from "./repositories/audit-repository";
+import { AuditServiceLive } from "./services/audit-service";
+import { RateLimiterLive } from "./services/rate-limiter";
+import { HealthService, HealthServiceLive } from "./services/health-service";
+import { MetricsServiceLive } from "./services/metrics-service";
+import { LoggerLive } from "./logging/logger";
+import { TracingLive } from "./tracing/tracing";
+import {
+  RateLimitStore,
+  RateLimitStoreLive,
+} from "./repositories/rate-limit-store";
+import { BookstoreApi } from "./api/api";
+import { AuthenticationLive } from "./http/authentication";
+import { MiddlewareLive } from "./http/middleware";
+import { BooksLive } from "./http/books-handlers";
+import { AuthorsLive } from "./http/authors-handlers";
+import { OrdersLive } from "./http/orders-handlers";
+import { PromotionsLive } from "./http/promotions-handlers";
+import { AuthLive } from "./http/auth-handlers";
+import { AuditLive } from "./http/audit-handlers";
+import { TrashLive } from "./http/trash-handlers";
+import { CatalogLive } from "./http/catalog-handlers";
+import { SearchLive } from "./http/search-handlers";
+import { HealthLive } from "./http/health-handlers";
+import { SiteLive } from "./http/site-handlers";
+
+// Every log, the server's and Effect's own such as MongoDB connection warnings, at LOG_LEVEL
+// and above in LOG_FORMAT; provided to the other layers so that it applies while they are built too
+const LogLevelLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, ({ logLevel }) => Logger.minimumLogLevel(logLevel)),
+);
 
-// Create the runtime with all layers
+// All layers, built once into the runtime below
 const AppLive = Layer.mergeAll(
   MongoDBLive,
   BookRepositoryLive,
   BookServiceLive,
   AuthorRepositoryLive,
   AuthorServiceLive,
+  SearchRepositoryLive,
+  SearchServiceLive,
+  OrderRepositoryLive,
+  OrderServiceLive,
+  PopulationServiceLive,
+  CatalogServiceLive,
+  PricingServiceLive,
+  PromotionRepositoryLive,
+  PromotionServiceLive,
+  ApiKeyRepositoryLive,
+  AuthServiceLive,
+  AuditRepositoryLive,
+  AuditServiceLive,
+  RateLimitStoreLive,
+  RateLimiterLive,
+  HealthServiceLive,
+  MetricsServiceLive,
+).pipe(
+  Layer.provide(Layer.mergeAll(LogLevelLive, LoggerLive, TracingLive)),
+  Layer.provideMerge(AppConfigLive),
 );
 
-// Helper function to run Effect programs
-const runEffect = <A, E, R>(effect: Effect.Effect<A, E, R>) => {
-  return Effect.runPromiseExit(Effect.provide(effect, AppLive as Layer.Layer<R>));
-};
-
-// =============================================================================
-// BOOK ROUTES
-// =============================================================================
-
-app.get("/api/books", async (req, res, next) => {
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    return yield* bookService.getAllBooks();
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.get("/api/books/:id", async (req, res, next) => {
-  const id = req.params.id as BookId;
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    return yield* bookService.getBookById(id);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.post("/api/books", async (req, res, next) => {
-  const effect = Effect.gen(function* () {
-    // Validate request body
-    const bookData = yield* Effect.try({
-      try: () => Schema.decodeUnknownSync(CreateBookRequest)(req.body),
-      catch: (error) => new ValidationError({ message: `Invalid request data: ${error}` }),
-    });
-    
-    const bookService = yield* BookService;
-    return yield* bookService.createBook(bookData);
-  });
-
-  runEffect(effect).then(handleResponse(res, next, 201));
-});
-
-app.put("/api/books/:id", async (req, res, next) => {
-  const id = req.params.id as BookId;
-  const effect = Effect.gen(function* () {
-    // Validate request body
-    const updateData = yield* Effect.try({
-      try: () => Schema.decodeUnknownSync(UpdateBookRequest)(req.body),
-      catch: (error) => new ValidationError({ message: `Invalid request data: ${error}` }),
-    });
-    
-    const bookService = yield* BookService;
-    return yield* bookService.updateBook(id, updateData);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.delete("/api/books/:id", async (req, res, next) => {
-  const id = req.params.id as BookId;
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    return yield* bookService.deleteBook(id);
-  });
-
-  runEffect(effect).then(handleResponse(res, next, 200, { message: "Book deleted successfully" }));
-});
-
-app.get("/api/books/search/:query", async (req, res, next) => {
-  const query = req.params.query;
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    return yield* bookService.searchBooks(query);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.get("/api/books/genre/:genre", async (req, res, next) => {
-  const genre = req.params.genre;
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    return yield* bookService.getBooksByGenre(genre);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.get("/api/books/author/:author", async (req, res, next) => {
-  const author = req.params.author;
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    return yield* bookService.getBooksByAuthor(author);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.patch("/api/books/:id/stock", async (req, res, next) => {
-  const id = req.params.id as BookId;
-  const { quantity } = req.body as { quantity: number };
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    return yield* bookService.updateStock(id, quantity);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-// =============================================================================
-// AUTHOR ROUTES
-// =============================================================================
-
-app.get("/api/authors", async (req, res, next) => {
-  const effect = Effect.gen(function* () {
-    const authorService = yield* AuthorService;
-    return yield* authorService.getAllAuthors();
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.get("/api/authors/:id", async (req, res, next) => {
-  const id = req.params.id as AuthorId;
-  const effect = Effect.gen(function* () {
-    const authorService = yield* AuthorService;
-    return yield* authorService.getAuthorById(id);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.post("/api/authors", async (req, res, next) => {
-  try {
-    // Validate request body first
-    const authorData = Schema.decodeUnknownSync(CreateAuthorRequest)(req.body);
-    
-    const effect = Effect.gen(function* () {
-      const authorService = yield* AuthorService;
-      return yield* authorService.createAuthor(authorData);
-    });
+// Built by the first effect it runs, loading the configuration at startup, and shared
+// by every request after that; disposing it closes the MongoDB client
+const runtime = ManagedRuntime.make(AppLive);
+
+// Helper function to run Effect programs on the runtime, outside any request
+const runEffect = <A, E, R extends Layer.Layer.Success<typeof AppLive>>(
+  effect: Effect.Effect<A, E, R>,
+) => runtime.runPromiseExit(effect);
+
+// Logs from outside any request, such as startup and shutdown, in LOG_FORMAT like the rest
+const log = (effect: Effect.Effect<void>) => runtime.runPromise(effect);
+
+// BookstoreApi with the handlers of every group and what they need beyond the services
+const ApiLive = HttpApiBuilder.api(BookstoreApi).pipe(
+  Layer.provide([
+    BooksLive,
+    AuthorsLive,
+    OrdersLive,
+    PromotionsLive,
+    AuthLive,
+    AuditLive,
+    TrashLive,
+    CatalogLive,
+    SearchLive,
+    HealthLive,
+    SiteLive,
+  ]),
+  Layer.provide(AuthenticationLive),
+);
 
-    runEffect(effect).then(handleResponse(res, next, 201));
-  } catch (error) {
-    // Send validation error directly
-    console.log('Validation error caught:', error);
-    res.status(400).json({ error: `Missing required fields` });
+// The API served on `server`, which is created here so that shutdown() can drain its connections
+const HttpLive = (server: Server, port: number) =>
+  HttpApiBuilder.serve().pipe(
+    Layer.provide(MiddlewareLive),
+    Layer.provide(ApiLive),
+    Layer.provide(NodeHttpServer.layer(() => server, { port })),
+  );
+
+/**
+ * Stops accepting connections, waits for in-flight requests to finish, at
+ * most for `timeout`, then disposes the runtime, which closes MongoDB.
+ */
+const shutdown = async (
+  server: Server,
+  timeout: Duration.Duration,
+  signal: NodeJS.Signals,
+) => {
+  // From here on readiness fails and responses ask clients to close their connections
+  const alreadyShuttingDown = await runtime.runPromise(
+    Effect.flatMap(HealthService, (health) =>
+      Effect.zipLeft(health.isShuttingDown(), health.beginShutdown()),
+    ),
+  );
+  if (alreadyShuttingDown) {
+    return;
   }
-});
-
-app.put("/api/authors/:id", async (req, res, next) => {
-  const id = req.params.id as AuthorId;
-  const effect = Effect.gen(function* () {
-    // Validate request body
-    const updateData = yield* Effect.try({
-      try: () => Schema.decodeUnknownSync(UpdateAuthorRequest)(req.body),
-      catch: (error) => new ValidationError({ message: `Invalid request data: ${error}` }),
-    });
-    
-    const authorService = yield* AuthorService;
-    return yield* authorService.updateAuthor(id, updateData);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.delete("/api/authors/:id", async (req, res, next) => {
-  const id = req.params.id as AuthorId;
-  const effect = Effect.gen(function* () {
-    const authorService = yield* AuthorService;
-    return yield* authorService.deleteAuthor(id);
-  });
-
-  runEffect(effect).then(handleResponse(res, next, 200, { message: "Author deleted successfully" }));
-});
-
-app.get("/api/authors/search/:query", async (req, res, next) => {
-  const query = req.params.query;
-  const effect = Effect.gen(function* () {
-    const authorService = yield* AuthorService;
-    return yield* authorService.searchAuthors(query);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.get("/api/authors/nationality/:nationality", async (req, res, next) => {
-  const nationality = req.params.nationality;
-  const effect = Effect.gen(function* () {
-    const authorService = yield* AuthorService;
-    return yield* authorService.getAuthorsByNationality(nationality);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-app.get("/api/authors/name/:name", async (req, res, next) => {
-  const name = req.params.name;
-  const effect = Effect.gen(function* () {
-    const authorService = yield* AuthorService;
-    return yield* authorService.getAuthorsByName(name);
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-// =============================================================================
-// UTILITY ROUTES
-// =============================================================================
-
-// Get books with populated author details
-app.get("/api/books-with-authors", async (req, res, next) => {
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    const authorService = yield* AuthorService;
-
-    const books = yield* bookService.getAllBooks();
-    const result = [];
+  await log(Effect.logInfo(`${signal} received, draining in-flight requests`));
+
+  const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+  server.closeIdleConnections();
+  const deadline = setTimeout(() => {
+    runtime.runFork(
+      Effect.logWarning(
+        `Requests still in flight after ${Duration.format(timeout)}, closing their connections`,
+      ),
+    );
+    server.closeAllConnections();
+  }, Duration.toMillis(timeout));
+
+  await closed;
+  clearTimeout(deadline);
+  // Closes MongoDB and flushes the spans not yet exported
+  await runtime.dispose();
+  process.exit(0);
+};
 
-    for (const book of books) {
-      const authors = yield* authorService.getAuthorsByIds([...book.authorIds]);
-      result.push({
-        ...book,
-        authors: authors,
-      });
+async function startServer() {
+  try {
+    // Every missing or malformed setting is reported before anything else starts
+    const loaded = await runEffect(AppConfig);
+    if (Exit.isFailure(loaded)) {
+      const error = Cause.squash(loaded.cause);
+      if (ConfigError.isConfigError(error)) {
+        console.error("Invalid configuration:");
+        for (const line of describeConfigError(error)) {
+          console.error(`  - ${line}`);
+        }
+        process.exit(1);
+      }
+      throw error;
+    }
+    const { http, auth, logFormat } = loaded.value;
+    await log(Effect.logInfo("Starting Bookstore Management API"));
+
+    // ISBNs stored as given are normalised before the unique index is built
+    const isbns = await runEffect(
+      Effect.flatMap(BookRepository, (repository) => repository.migrateIsbns()),
+    );
+    if (Exit.isFailure(isbns)) {
+      throw Cause.squash(isbns.cause);
+    }
+    const { normalized, invalid, duplicates } = isbns.value;
+    if (normalized.length > 0) {
+      await log(Effect.logInfo(`Normalised the ISBNs of ${normalized.length} books`));
+    }
+    for (const book of duplicates) {
+      await log(
+        Effect.logWarning(
+          `Moved book ${book.id} to the trash: its ISBN ${book.isbn} is that of book ${book.isbnOf}`,
+        ),
+      );
+    }
+    for (const book of invalid) {
+      await log(
+        Effect.logWarning(
+          `Book ${book.id} has an invalid ISBN "${book.isbn}"; correct it with PUT /api/books/${book.id}`,
+        ),
+      );
     }
 
-    return result;
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-// Get specific book with populated author details
-app.get("/api/books-with-authors/:id", async (req, res, next) => {
-  const id = req.params.id as BookId;
-  const effect = Effect.gen(function* () {
-    const bookService = yield* BookService;
-    const authorService = yield* AuthorService;
-
-    const book = yield* bookService.getBookById(id);
-    const authors = yield* authorService.getAuthorsByIds([...book.authorIds]);
-
-    return {
-      ...book,
-      authors: authors,
-    };
-  });
-
-  runEffect(effect).then(handleResponse(res, next));
-});
-
-// =============================================================================
-// ERROR HANDLING
-// =============================================================================
-
-const handleResponse = <A>(res: express.Response, next: express.NextFunction, status = 200, successMessage?: any) => (exit: Exit.Exit<A, AppError>) => {
-  if (Exit.isSuccess(exit)) {
-    res.status(status).json(successMessage ?? exit.value);
-  } else {
-    const error = Cause.failureOption(exit.cause);
-    if (error._tag === "Some") {
-      next(error.value);
-    } else {
-      next(new Error("Unknown error"));
+    const indexes = await runEffect(
+      Effect.all([
+        Effect.flatMap(SearchRepository, (repository) =>
+          repository.ensureIndexes(),
+        ),
+        Effect.flatMap(BookRepository, (repository) =>
+          repository.ensureIndexes(),
+        ),
+        Effect.flatMap(PromotionRepository, (repository) =>
+          repository.ensureIndexes(),
+        ),
+        Effect.flatMap(ApiKeyRepository, (repository) =>
+          repository.ensureIndexes(),
+        ),
+        Effect.flatMap(AuditRepository, (repository) =>
+          repository.ensureIndexes(),
+        ),
+        Effect.flatMap(RateLimitStore, (store) => store.ensureIndexes()),
+      ]),
+    );
+    if (Exit.isFailure(indexes)) {
+      throw Cause.squash(indexes.cause);
     }
-  }
-};
 
-// 404 handler
-app.use((req, res) => {
-  res.status(404).json({ error: "Not Found" });
-});
+    // Prices stored as plain numbers before Money are converted once
+    const migrated = await runEffect(
+      Effect.all([
+        Effect.flatMap(BookRepository, (repository) =>
+          repository.migratePrices(),
+        ),
+        Effect.flatMap(OrderRepository, (repository) =>
+          repository.migratePrices(),
+        ),
+      ]),
+    );
+    if (Exit.isFailure(migrated)) {
+      throw Cause.squash(migrated.cause);
+    }
+    const [books, orders] = migrated.value;
+    if (books + orders > 0) {
+      await log(
+        Effect.logInfo(`Migrated prices of ${books} books and ${orders} orders to Money`),
+      );
+    }
 
-// Error handler
-app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  // Handle JSON parsing errors
-  if (err instanceof SyntaxError && 'body' in err) {
-    return res.status(400).json({ error: "Invalid JSON payload" });
-  }
+    const moved = await runEffect(
+      Effect.flatMap(BookRepository, (repository) =>
+        repository.migrateStockMovements(),
+      ),
+    );
+    if (Exit.isFailure(moved)) {
+      throw Cause.squash(moved.cause);
+    }
+    if (moved.value > 0) {
+      await log(
+        Effect.logInfo(
+          `Moved the stock ledgers of ${moved.value} books into stock_movements`,
+        ),
+      );
+    }
 
-  // Handle our custom error types
-  if (err._tag) {
-    switch (err._tag) {
-      case "NotFoundError":
-        res.status(404).json({ error: err.message });
-        break;
-      case "ValidationError":
-        res.status(400).json({ error: err.message });
-        break;
-      case "DatabaseError":
-        res.status(500).json({ error: err.message });
-        break;
-      case "BusinessError":
-        res.status(409).json({ error: err.message });
-        break;
-      default:
-        res.status(500).json({ error: "Internal Server Error" });
+    // API keys issued before roles existed keep the full access they had
+    const assigned = await runEffect(
+      Effect.flatMap(ApiKeyRepository, (repository) =>
+        repository.assignMissingRoles("admin"),
+      ),
+    );
+    if (Exit.isFailure(assigned)) {
+      throw Cause.squash(assigned.cause);
+    }
+    if (assigned.value > 0) {
+      await log(
+        Effect.logInfo(
+          `Gave the admin role to ${assigned.value} API keys issued before roles`,
+        ),
+      );
     }
-  } else {
-    res.status(500).json({ error: "Internal Server Error" });
-  }
-});
 
-const PORT = process.env.PORT || 3000;
+    const owned = await runEffect(
+      Effect.flatMap(ApiKeyRepository, (repository) =>
+        repository.assignMissingOwners(),
+      ),
+    );
+    if (Exit.isFailure(owned)) {
+      throw Cause.squash(owned.cause);
+    }
+    if (owned.value > 0) {
+      await log(
+        Effect.logInfo(
+          `Gave owner ids to ${owned.value} API keys issued before owner ids`,
+        ),
+      );
+    }
 
-async function startServer() {
-  try {
-    console.log("Starting Bookstore Management API...");
+    // Without any key nobody could create one, so the first comes from the environment
+    if (Option.isSome(auth.bootstrapApiKey)) {
+      const key = Redacted.value(auth.bootstrapApiKey.value);
+      const bootstrapped = await runEffect(
+        Effect.flatMap(AuthService, (authService) =>
+          authService.ensureBootstrapKey(key, "admin"),
+        ),
+      );
+      if (Exit.isFailure(bootstrapped)) {
+        throw Cause.squash(bootstrapped.cause);
+      }
+      if (bootstrapped.value) {
+        await log(Effect.logInfo("Stored the bootstrap API key for admin"));
+      }
+    }
+    if (Option.isNone(auth.jwtSecret)) {
+      await log(
+        Effect.logWarning(
+          "JWT_SECRET is not set: tokens are signed with a random secret and stop working on restart",
+        ),
+      );
+    }
 
-    app.listen(PORT, () => {
-      console.log(`Server running on http://localhost:${PORT}`);
+    const server = createServer();
+    server.once("listening", () => {
+      runtime.runFork(
+        Effect.logInfo(`Server running on http://localhost:${http.port}`),
+      );
+      // The list of endpoints is for people; log collectors get the one line above
+      if (logFormat === "json") {
+        return;
+      }
       console.log("");
       console.log("=== BOOK ENDPOINTS ===");
-      console.log(`  GET    http://localhost:${PORT}/api/books`);
-      console.log(`  GET    http://localhost:${PORT}/api/books/:id`);
-      console.log(`  POST   http://localhost:${PORT}/api/books`);
-      console.log(`  PUT    http://localhost:${PORT}/api/books/:id`);
-      console.log(`  DELETE http://localhost:${PORT}/api/books/:id`);
-      console.log(`  GET    http://localhost:${PORT}/api/books/search/:query`);
-      console.log(`  GET    http://localhost:${PORT}/api/books/genre/:genre`);
-      console.log(`  GET    http://localhost:${PORT}/api/books/author/:author`);
-      console.log(`  PATCH  http://localhost:${PORT}/api/books/:id/stock`);
+      console.log(`  GET    http://localhost:${http.port}/api/books`);
+      console.log(`  GET    http://localhost:${http.port}/api/books/:id`);
+      console.log(`  POST   http://localhost:${http.port}/api/books`);
+      console.log(`  PUT    http://localhost:${http.port}/api/books/:id`);
+      console.log(`  DELETE http://localhost:${http.port}/api/books/:id`);
+      console.log(`  GET    http://localhost:${http.port}/api/books/search/:query`);
+      console.log(`  GET    http://localhost:${http.port}/api/books/genre/:genre`);
+      console.log(`  GET    http://localhost:${http.port}/api/books/author/:author`);
+      console.log(`  PATCH  http://localhost:${http.port}/api/books/:id/stock`);
+      console.log(`  GET    http://localhost:${http.port}/api/books/:id/stock/history`);
+      console.log(`  GET    http://localhost:${http.port}/api/books/:id/price`);
+      console.log(`  GET    http://localhost:${http.port}/api/books/:id/history?at=`);
+      console.log(
+        `  GET    http://localhost:${http.port}/api/books/:id/stock/reconciliation`,
+      );
+      console.log(`  GET    http://localhost:${http.port}/api/inventory/reconciliation`);
       console.log("");
       console.log("=== AUTHOR ENDPOINTS ===");
-      console.log(`  GET    http://localhost:${PORT}/api/authors`);
-      console.log(`  GET    http://localhost:${PORT}/api/authors/:id`);
-      console.log(`  POST   http://localhost:${PORT}/api/authors`);
-      console.log(`  PUT    http://localhost:${PORT}/api/authors/:id`);
-      console.log(`  DELETE http://localhost:${PORT}/api/authors/:id`);
+      console.log(`  GET    http://localhost:${http.port}/api/authors`);
+      console.log(`  GET    http://localhost:${http.port}/api/authors/:id`);
+      console.log(`  POST   http://localhost:${http.port}/api/authors`);
+      console.log(`  PUT    http://localhost:${http.port}/api/authors/:id`);
+      console.log(`  DELETE http://localhost:${http.port}/api/authors/:id`);
+      console.log(
+        `  POST   http://localhost:${http.port}/api/authors/:id/merge-into/:targetId`,
+      );
+      console.log(
+        `  GET    http://localhost:${http.port}/api/authors/search/:query`,
+      );
       console.log(
-        `  GET    http://localhost:${PORT}/api/authors/search/:query`,
+        `  GET    http://localhost:${http.port}/api/authors/nationality/:nationality`,
       );
+      console.log(`  GET    http://localhost:${http.port}/api/authors/name/:name`);
+      console.log("");
+      console.log("=== ORDER ENDPOINTS ===");
+      console.log(`  GET    http://localhost:${http.port}/api/orders`);
+      console.log(`  GET    http://localhost:${http.port}/api/orders/:id`);
+      console.log(`  POST   http://localhost:${http.port}/api/orders`);
+      console.log(`  PATCH  http://localhost:${http.port}/api/orders/:id/status`);
+      console.log(`  POST   http://localhost:${http.port}/api/orders/:id/cancel`);
+      console.log("");
+      console.log("=== PROMOTION ENDPOINTS ===");
+      console.log(`  GET    http://localhost:${http.port}/api/promotions`);
+      console.log(`  GET    http://localhost:${http.port}/api/promotions/:id`);
+      console.log(`  POST   http://localhost:${http.port}/api/promotions`);
+      console.log(`  PUT    http://localhost:${http.port}/api/promotions/:id`);
+      console.log(`  DELETE http://localhost:${http.port}/api/promotions/:id`);
+      console.log("");
+      console.log("=== AUTH ENDPOINTS ===");
+      console.log(`  POST   http://localhost:${http.port}/api/auth/login`);
+      console.log(`  GET    http://localhost:${http.port}/api/auth/me`);
+      console.log(`  GET    http://localhost:${http.port}/api/auth/keys`);
+      console.log(`  POST   http://localhost:${http.port}/api/auth/keys`);
+      console.log(`  POST   http://localhost:${http.port}/api/auth/keys/:id/rotate`);
+      console.log(`  DELETE http://localhost:${http.port}/api/auth/keys/:id`);
+      console.log("");
+      console.log("=== AUDIT ENDPOINTS ===");
       console.log(
-        `  GET    http://localhost:${PORT}/api/authors/nationality/:nationality`,
+        `  GET    http://localhost:${http.port}/api/audit?entity=&id=&actorId=&from=&to=`,
       );
-      console.log(`  GET    http://localhost:${PORT}/api/authors/name/:name`);
+      console.log("");
+      console.log("=== TRASH ENDPOINTS ===");
+      console.log(`  GET    http://localhost:${http.port}/api/trash`);
+      console.log(`  POST   http://localhost:${http.port}/api/books/:id/restore`);
+      console.log(`  POST   http://localhost:${http.port}/api/authors/:id/restore`);
+      console.log(`  DELETE http://localhost:${http.port}/api/trash/books/:id`);
+      console.log(`  DELETE http://localhost:${http.port}/api/trash/authors/:id`);
+      console.log("");
+      console.log("=== CATALOG ENDPOINTS ===");
+      console.log(`  POST   http://localhost:${http.port}/api/import?format=&type=`);
+      console.log(`  GET    http://localhost:${http.port}/api/export?format=&type=`);
       console.log("");
       console.log("=== UTILITY ENDPOINTS ===");
-      console.log(`  GET    http://localhost:${PORT}/api/books-with-authors`);
+      console.log(`  GET    http://localhost:${http.port}/api/search?q=`);
+      console.log(`  GET    http://localhost:${http.port}/api/books-with-authors`);
       console.log(
-        `  GET    http://localhost:${PORT}/api/books-with-authors/:id`,
+        `  GET    http://localhost:${http.port}/api/books-with-authors/:id`,
       );
       console.log("");
+      console.log("=== HEALTH AND METRICS ENDPOINTS ===");
+      console.log(`  GET    http://localhost:${http.port}/health/live`);
+      console.log(`  GET    http://localhost:${http.port}/health/ready`);
+      console.log(`  GET    http://localhost:${http.port}/metrics`);
+      console.log("");
       console.log("Ready to accept requests!");
     });
+
+    // Serves until the runtime is disposed; failing to listen, e.g. on a port in use, ends the process
+    runEffect(Layer.launch(HttpLive(server, http.port))).then((exit) => {
+      if (Exit.isFailure(exit) && !Exit.isInterrupted(exit)) {
+        console.error("Failed to start server:", Cause.squash(exit.cause));
+        process.exit(1);
+      }
+    });
+
+    for (const signal of ["SIGTERM", "SIGINT"] as const) {
+      process.once(signal, () => shutdown(server, http.shutdownTimeout, signal));
+    }
   } catch (error) {
     console.error("Failed to start server:", error);
     process.exit(1);
@@ -0,0 +1,18 @@
+import { Effect } from "effect";
+
+/**
+ * Wraps a service's methods so each runs in a span named `Service.method`,
+ * a child of the span of whoever called it. `attributes` picks out what
+ * identifies the call, typically the id of the record it acts on.
+ */
+export const trace =
+  (service: string) =>
+  <Args extends ReadonlyArray<unknown>, A, E, R>(
+    method: string,
+    run: (...args: Args) => Effect.Effect<A, E, R>,
+    attributes?: NoInfer<(...args: Args) => Record<string, unknown>>,
+  ) =>
+  (...args: Args): Effect.Effect<A, E, R> =>
+    Effect.withSpan(Effect.suspend(() => run(...args)), `${service}.${method}`, {
+      attributes: attributes?.(...args),
+    });
@@ -0,0 +1,56 @@
+import { Effect, Layer } from "effect";
+import * as NodeSdk from "@effect/opentelemetry/NodeSdk";
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from "@opentelemetry/sdk-trace-base";
+import { OTLPTraceExporter } from "@opentelemetry/exporter-trace-otlp-http";
+import { AppConfig } from "../config";
+
+// Effect's spans, exported through the OpenTelemetry SDK; spans still buffered are flushed when the layer is released
+const layerExporting = (
+  serviceName: string,
+  spanProcessor: () => SpanProcessor,
+) =>
+  NodeSdk.layer(() => ({
+    resource: { serviceName },
+    spanProcessor: spanProcessor(),
+  }));
+
+/**
+ * OTEL_TRACES_EXPORTER=otlp sends spans in batches to the collector at
+ * OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, e.g. a local Jaeger or OpenTelemetry
+ * Collector; console prints each span as it ends. Without an exporter
+ * Effect's own tracer still gives every request a trace id for the logs.
+ */
+export const TracingLive = Layer.unwrapEffect(
+  Effect.map(AppConfig, ({ tracing }) => {
+    switch (tracing.exporter) {
+      case "otlp":
+        return layerExporting(
+          tracing.serviceName,
+          () =>
+            new BatchSpanProcessor(
+              new OTLPTraceExporter({ url: tracing.endpoint }),
+            ),
+        );
+      case "console":
+        return layerExporting(
+          tracing.serviceName,
+          () => new SimpleSpanProcessor(new ConsoleSpanExporter()),
+        );
+      case "none":
+        return Layer.empty;
+    }
+  }),
+);
+
+/**
+ * For tests: every span is handed to `exporter` as soon as it ends, so a
+ * test can run an effect and then read exporter.getFinishedSpans().
+ */
+export const InMemoryTracingLive = (exporter: InMemorySpanExporter) =>
+  layerExporting("bookstore-api-test", () => new SimpleSpanProcessor(exporter));
@@ -1,13 +1,14 @@
-import { MongoMemoryServer } from "mongodb-memory-server";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
 
-let mongoServer: MongoMemoryServer;
+let mongoServer: MongoMemoryReplSet;
 
 export default async function globalSetup() {
   console.log("🔧 Setting up test environment...");
 
-  // Start in-memory MongoDB instance
-  mongoServer = await MongoMemoryServer.create({
-    instance: {
+  // Start an in-memory single-member replica set, which transactions need
+  mongoServer = await MongoMemoryReplSet.create({
+    replSet: {
+      count: 1,
       dbName: "bookstore_effect_test",
     },
   });
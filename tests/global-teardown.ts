@@ -1,10 +1,10 @@
-import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoMemoryReplSet } from 'mongodb-memory-server';
 
 export default async function globalTeardown() {
   console.log('🧹 Cleaning up test environment...');
 
   // Get the MongoDB server instance from global setup
-  const mongoServer: MongoMemoryServer = (global as any).__MONGO_SERVER__;
+  const mongoServer: MongoMemoryReplSet = (global as any).__MONGO_SERVER__;
 
   if (mongoServer) {
     await mongoServer.stop();
@@ -9,6 +9,10 @@ set -e  # Exit on any error
 
 BASE_URL="http://localhost:3000/api"
 
+# The server must have been started with BOOTSTRAP_API_KEY set to this key
+API_KEY="${API_KEY:-${BOOTSTRAP_API_KEY:-test-admin-key}}"
+AUTH_HEADER="X-API-Key: $API_KEY"
+
 # Colors for output
 RED='\033[0;31m'
 GREEN='\033[0;32m'
@@ -26,6 +30,7 @@ FAILED_TESTS=0
 # Arrays to store created IDs for cleanup
 AUTHOR_IDS=()
 BOOK_IDS=()
+PROMOTION_IDS=()
 
 # Function to log test results
 log_test() {
@@ -51,17 +56,29 @@ api_call() {
     local data="$3"
     local expected_status="$4"
     local test_name="$5"
+    local header="$6"
 
     echo -e "${BLUE}🔄 Testing: $test_name${NC}" >&2
     echo -e "${YELLOW}$method $BASE_URL$endpoint${NC}" >&2
 
+    # Calls authenticate with the test key unless they bring their own credentials
+    local extra_args=()
+    case "$header" in
+        Authorization:*|X-API-Key*) ;;
+        *) extra_args=(-H "$AUTH_HEADER") ;;
+    esac
+    if [ -n "$header" ]; then
+        extra_args+=(-H "$header")
+    fi
+
     if [ -n "$data" ]; then
         response=$(curl -s -w "\n%{http_code}" -X "$method" \
             -H "Content-Type: application/json" \
+            "${extra_args[@]}" \
             -d "$data" \
             "$BASE_URL$endpoint")
     else
-        response=$(curl -s -w "\n%{http_code}" -X "$method" "$BASE_URL$endpoint")
+        response=$(curl -s -w "\n%{http_code}" -X "$method" "${extra_args[@]}" "$BASE_URL$endpoint")
     fi
 
     # Split response body and status code
@@ -80,6 +97,17 @@ api_call() {
     fi
 }
 
+# Function to complete a 12-digit prefix into a valid ISBN-13
+isbn13() {
+    local prefix="$1"
+    local sum=0
+    local i
+    for ((i = 0; i < 12; i++)); do
+        sum=$((sum + ${prefix:i:1} * (i % 2 == 0 ? 1 : 3)))
+    done
+    echo "$prefix$(((10 - sum % 10) % 10))"
+}
+
 # Function to extract ID from JSON response
 extract_id() {
     local json="$1"
@@ -114,7 +142,16 @@ cleanup() {
     for book_id in "${BOOK_IDS[@]}"; do
         if [ -n "$book_id" ] && [ "$book_id" != "null" ]; then
             echo "Deleting book: $book_id"
-            curl -s -X DELETE "$BASE_URL/books/$book_id" > /dev/null || true
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/books/$book_id" > /dev/null || true
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/trash/books/$book_id" > /dev/null || true
+        fi
+    done
+
+    # Delete created promotions
+    for promotion_id in "${PROMOTION_IDS[@]}"; do
+        if [ -n "$promotion_id" ] && [ "$promotion_id" != "null" ]; then
+            echo "Deleting promotion: $promotion_id"
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/promotions/$promotion_id" > /dev/null || true
         fi
     done
 
@@ -122,7 +159,8 @@ cleanup() {
     for author_id in "${AUTHOR_IDS[@]}"; do
         if [ -n "$author_id" ] && [ "$author_id" != "null" ]; then
             echo "Deleting author: $author_id"
-            curl -s -X DELETE "$BASE_URL/authors/$author_id" > /dev/null || true
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/authors/$author_id" > /dev/null || true
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/trash/authors/$author_id" > /dev/null || true
         fi
     done
 
@@ -133,15 +171,30 @@ cleanup() {
 hard_cleanup() {
     echo -e "${BLUE}🧹 Performing hard cleanup...${NC}"
     # Get all book IDs and delete them
-    all_book_ids=$(curl -s "$BASE_URL/books" | jq -r '.[]._id')
+    all_book_ids=$(curl -s "$BASE_URL/books?limit=100&fields=title" | jq -r '.items[]._id')
     for id in $all_book_ids; do
-        curl -s -X DELETE "$BASE_URL/books/$id" > /dev/null
+        curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/books/$id" > /dev/null
     done
 
     # Get all author IDs and delete them
-    all_author_ids=$(curl -s "$BASE_URL/authors" | jq -r '.[]._id')
+    all_author_ids=$(curl -s "$BASE_URL/authors?limit=100&fields=fullName" | jq -r '.items[]._id')
     for id in $all_author_ids; do
-        curl -s -X DELETE "$BASE_URL/authors/$id" > /dev/null
+        curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/authors/$id" > /dev/null
+    done
+
+    # Promotions would change the prices other tests expect
+    all_promotion_ids=$(curl -s "$BASE_URL/promotions?limit=100&fields=name" | jq -r '.items[]._id')
+    for id in $all_promotion_ids; do
+        curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/promotions/$id" > /dev/null
+    done
+
+    # Purge everything that is now in the trash
+    trash=$(curl -s -H "$AUTH_HEADER" "$BASE_URL/trash")
+    for id in $(echo "$trash" | jq -r '.books[]._id'); do
+        curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/trash/books/$id" > /dev/null
+    done
+    for id in $(echo "$trash" | jq -r '.authors[]._id'); do
+        curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/trash/authors/$id" > /dev/null
     done
     echo -e "${GREEN}✓ Hard cleanup completed${NC}"
 }
@@ -179,8 +232,8 @@ test_authors() {
         "nationality": "British",
         "website": "https://en.wikipedia.org/wiki/Jane_Austen",
         "socialLinks": {
-            "twitter": "@JaneAusten",
-            "facebook": "JaneAustenOfficial"
+            "twitter": "https://twitter.com/JaneAusten",
+            "facebook": "https://www.facebook.com/JaneAustenOfficial"
         }
     }'
 
@@ -238,6 +291,14 @@ test_authors() {
         api_call "PUT" "/authors/$AUTHOR1_ID" "$update_data" "200" "Update author biography"
     fi
 
+    # Test 11a: Update author with If-Match
+    if [ -n "$AUTHOR1_ID" ]; then
+        local version=$(api_call "GET" "/authors/$AUTHOR1_ID" "" "200" "Get author version" | jq -r '.version')
+        api_call "PUT" "/authors/$AUTHOR1_ID" '{"nationality": "British"}' "200" "Update author with current If-Match" "If-Match: \"$version\""
+        api_call "PUT" "/authors/$AUTHOR1_ID" '{"nationality": "English"}' "412" "Update author with stale If-Match (should fail)" "If-Match: \"$version\""
+        api_call "DELETE" "/authors/$AUTHOR1_ID" "" "412" "Delete author with stale If-Match (should fail)" "If-Match: \"$version\""
+    fi
+
     echo ""
 }
 
@@ -314,7 +375,7 @@ test_books() {
         collab_book_data="{
             \"title\": \"Collaborative Novel\",
             \"authorIds\": [\"$AUTHOR1_ID\", \"$AUTHOR2_ID\"],
-            \"isbn\": \"978-1234567890\",
+            \"isbn\": \"978-1234567897\",
             \"price\": 20.99,
             \"stock\": 15,
             \"genre\": \"Fiction\",
@@ -340,13 +401,17 @@ test_books() {
             \"genre\": \"Fiction\"
         }"
         api_call "POST" "/books" "$duplicate_isbn_data" "409" "Create book with duplicate ISBN (should fail)"
+
+        # Test 5a: ISBNs are normalised, so the ISBN-10 of the same edition is a duplicate too
+        api_call "POST" "/books" "${duplicate_isbn_data/978-0452284234/0-452-28423-6}" "409" "Create book with duplicate ISBN-10 (should fail)"
+        api_call "POST" "/books" "${duplicate_isbn_data/978-0452284234/978-0452284235}" "400" "Create book with invalid ISBN checksum (should fail)"
     fi
 
     # Test 6: Try to create book with non-existent author (should fail)
     invalid_author_data='{
         "title": "Invalid Book",
         "authorIds": ["507f1f77bcf86cd799439011"],
-        "isbn": "978-9999999999",
+        "isbn": "978-9999999991",
         "price": 10.99,
         "stock": 10,
         "genre": "Fiction"
@@ -356,6 +421,18 @@ test_books() {
     # Test 7: Get all books
     api_call "GET" "/books" "" "200" "Get all books"
 
+    # Test 7a: Paginate, sort and project books
+    api_call "GET" "/books?limit=2&sort=-price,title&fields=title,price" "" "200" "Get first page of books sorted by price"
+
+    # Test 7b: Reject unknown sort field
+    api_call "GET" "/books?sort=publisher" "" "400" "Sort books by unknown field (should fail)"
+
+    # Test 7c: Filter books by price range and genre
+    api_call "GET" "/books?genre=horror,romance&minPrice=10&maxPrice=20&minStock=1" "" "200" "Filter books by genre and price range"
+
+    # Test 7d: Reject inverted price range
+    api_call "GET" "/books?minPrice=20&maxPrice=10" "" "400" "Filter books with inverted price range (should fail)"
+
     # Test 8: Get book by ID
     if [ -n "$BOOK1_ID" ]; then
         api_call "GET" "/books/$BOOK1_ID" "" "200" "Get book by ID"
@@ -364,9 +441,30 @@ test_books() {
     # Test 9: Get non-existent book
     api_call "GET" "/books/507f1f77bcf86cd799439011" "" "404" "Get non-existent book"
 
+    # Test 9a: Reject a malformed book id
+    api_call "GET" "/books/not-an-id" "" "400" "Get book with malformed id (should fail)"
+
     # Test 10: Search books
     api_call "GET" "/books/search/dystopian" "" "200" "Search books for 'dystopian'"
 
+    # Test 10a: Unified ranked search with phrase and prefix queries
+    api_call "GET" "/search?q=%22pride%20and%20prejudice%22" "" "200" "Search for phrase 'pride and prejudice'"
+    api_call "GET" "/search?q=orw*&type=book,author" "" "200" "Search books and authors for prefix 'orw*'"
+    api_call "GET" "/search?q=%20" "" "400" "Search with empty query (should fail)"
+
+    # Test 10b: Words that match only through stemming still find the book
+    if [ -n "$AUTHOR1_ID" ]; then
+        response=$(api_call "POST" "/books" "{\"title\": \"A Ghost Story\", \"authorIds\": [\"$AUTHOR1_ID\"], \"isbn\": \"978-0000000033\", \"price\": 9.99, \"stock\": 3, \"genre\": \"Horror\"}" "201" "Create book with a singular title")
+        local story_id=$(extract_id "$response")
+        BOOK_IDS+=("$story_id")
+        hits=$(api_call "GET" "/search?q=stories&type=book" "" "200" "Search for the plural of a title word")
+        if echo "$hits" | jq -e --arg id "$story_id" '[.hits[].id] | index($id) != null' > /dev/null; then
+            log_test "Plural query finds the singular title" "PASS"
+        else
+            log_test "Plural query finds the singular title" "FAIL" "Got $hits"
+        fi
+    fi
+
     # Test 11: Get books by genre
     api_call "GET" "/books/genre/romance" "" "200" "Get romance books"
 
@@ -377,17 +475,567 @@ test_books() {
     if [ -n "$BOOK1_ID" ]; then
         update_book_data='{"price": 18.99, "stock": 45}'
         api_call "PUT" "/books/$BOOK1_ID" "$update_book_data" "200" "Update book price and stock"
+        isbn=$(api_call "GET" "/books/$BOOK1_ID" "" "200" "Get book ISBN" | jq -r '.isbn')
+        if [ "$isbn" = "9780452284234" ]; then
+            log_test "Book ISBN is stored without hyphens" "PASS"
+        else
+            log_test "Book ISBN is stored without hyphens" "FAIL" "Expected 9780452284234, got $isbn"
+        fi
+    fi
+
+    # Test 13b: Updating a book to another book's ISBN (should fail)
+    if [ -n "$BOOK2_ID" ]; then
+        api_call "PUT" "/books/$BOOK2_ID" '{"isbn": "978-0452284234"}' "409" "Update book to duplicate ISBN (should fail)"
+    fi
+
+    # Test 13a: Update book with If-Match
+    if [ -n "$BOOK1_ID" ]; then
+        local version=$(api_call "GET" "/books/$BOOK1_ID" "" "200" "Get book version" | jq -r '.version')
+        api_call "PUT" "/books/$BOOK1_ID" '{"price": 19.99}' "200" "Update book with current If-Match" "If-Match: \"$version\""
+        api_call "PUT" "/books/$BOOK1_ID" '{"price": 20.99}' "412" "Update book with stale If-Match (should fail)" "If-Match: \"$version\""
+        api_call "PUT" "/books/$BOOK1_ID" '{"price": 20.99}' "400" "Update book with malformed If-Match (should fail)" "If-Match: latest"
     fi
 
     # Test 14: Update book stock
     if [ -n "$BOOK1_ID" ]; then
         stock_update_data='{"quantity": 100}'
+        local version=$(api_call "GET" "/books/$BOOK1_ID" "" "200" "Get book version" | jq -r '.version')
         api_call "PATCH" "/books/$BOOK1_ID/stock" "$stock_update_data" "200" "Update book stock"
+        api_call "PUT" "/books/$BOOK1_ID" '{"stock": 1}' "412" "Update book with If-Match from before a stock change (should fail)" "If-Match: \"$version\""
+    fi
+
+    # Test 15: Remove more stock than is available
+    if [ -n "$BOOK1_ID" ]; then
+        api_call "PATCH" "/books/$BOOK1_ID/stock" '{"quantity": -1000000}' "409" "Remove more stock than available (should fail)"
+    fi
+
+    # Test 16: Update stock with a stale expectedStock
+    if [ -n "$BOOK1_ID" ]; then
+        api_call "PATCH" "/books/$BOOK1_ID/stock" '{"quantity": 1, "expectedStock": 999999}' "409" "Update stock with stale expectedStock (should fail)"
+    fi
+
+    # Test 17: Stock history and reconciliation
+    if [ -n "$BOOK1_ID" ]; then
+        api_call "PATCH" "/books/$BOOK1_ID/stock" '{"quantity": 5, "reason": "restock", "note": "Supplier delivery"}' "200" "Restock book with reason"
+        api_call "GET" "/books/$BOOK1_ID/stock/history" "" "200" "Get book stock history"
+        api_call "GET" "/books/$BOOK1_ID/stock/reconciliation" "" "200" "Reconcile book stock against ledger"
+    fi
+    api_call "PATCH" "/books/507f1f77bcf86cd799439011/stock" '{"quantity": 1, "reason": "theft"}' "400" "Update stock with unknown reason (should fail)"
+    api_call "GET" "/inventory/reconciliation" "" "200" "List books with stock drift"
+
+    echo ""
+}
+
+# Function to run concurrent stock update tests
+test_concurrent_stock() {
+    echo -e "${PURPLE}⚡ TESTING CONCURRENT STOCK UPDATES${NC}"
+    echo "=================================="
+
+    if [ -z "$BOOK3_ID" ]; then
+        echo "Skipping: book 3 was not created"
+        echo ""
+        return 0
+    fi
+
+    local results_file=$(mktemp)
+    local initial_stock=$(curl -s "$BASE_URL/books/$BOOK3_ID" | jq -r '.stock')
+    local extra_requests=10
+
+    # Test 1: Fire more concurrent decrements than there is stock
+    for i in $(seq 1 $((initial_stock + extra_requests))); do
+        curl -s -o /dev/null -w "%{http_code}\n" -X PATCH \
+            -H "Content-Type: application/json" \
+            -H "$AUTH_HEADER" \
+            -d '{"quantity": -1}' \
+            "$BASE_URL/books/$BOOK3_ID/stock" >> "$results_file" &
+    done
+    wait
+
+    local succeeded=$(grep -c '^200$' "$results_file" || true)
+    local rejected=$(grep -c '^409$' "$results_file" || true)
+    local final_stock=$(curl -s "$BASE_URL/books/$BOOK3_ID" | jq -r '.stock')
+
+    if [ "$succeeded" = "$initial_stock" ] && [ "$rejected" = "$extra_requests" ] && [ "$final_stock" = "0" ]; then
+        log_test "Concurrent decrements never oversell" "PASS"
+    else
+        log_test "Concurrent decrements never oversell" "FAIL" "$succeeded succeeded, $rejected rejected, final stock $final_stock (started at $initial_stock)"
+    fi
+
+    # Test 2: Concurrent increments must all be applied
+    local increments=20
+    : > "$results_file"
+    for i in $(seq 1 $increments); do
+        curl -s -o /dev/null -w "%{http_code}\n" -X PATCH \
+            -H "Content-Type: application/json" \
+            -H "$AUTH_HEADER" \
+            -d '{"quantity": 1}' \
+            "$BASE_URL/books/$BOOK3_ID/stock" >> "$results_file" &
+    done
+    wait
+
+    succeeded=$(grep -c '^200$' "$results_file" || true)
+    final_stock=$(curl -s "$BASE_URL/books/$BOOK3_ID" | jq -r '.stock')
+
+    if [ "$succeeded" = "$increments" ] && [ "$final_stock" = "$increments" ]; then
+        log_test "Concurrent increments are not lost" "PASS"
+    else
+        log_test "Concurrent increments are not lost" "FAIL" "$succeeded succeeded, final stock $final_stock (expected $increments)"
+    fi
+
+    rm -f "$results_file"
+    echo ""
+}
+
+
+# Function to run order tests
+test_orders() {
+    echo -e "${PURPLE}🛒 TESTING ORDERS${NC}"
+    echo "=================================="
+
+    if [ -n "$BOOK1_ID" ] && [ -n "$BOOK2_ID" ]; then
+        # Test 1: Place an order reserving stock for two books
+        order_data="{
+            \"items\": [
+                {\"bookId\": \"$BOOK1_ID\", \"quantity\": 2},
+                {\"bookId\": \"$BOOK2_ID\", \"quantity\": 1}
+            ]
+        }"
+        response=$(api_call "POST" "/orders" "$order_data" "201" "Place order for two books")
+        if [ $? -eq 0 ]; then
+            ORDER1_ID=$(extract_id "$response")
+            echo "Created Order ID: $ORDER1_ID"
+        fi
+
+        # Test 1a: The total is the exact sum of the line totals, in cents
+        price1=$(curl -s "$BASE_URL/books/$BOOK1_ID" | jq -r '.price.amount')
+        price2=$(curl -s "$BASE_URL/books/$BOOK2_ID" | jq -r '.price.amount')
+        total=$(echo "$response" | jq -c '.total')
+        expected_total="{\"amount\":$((price1 * 2 + price2)),\"currency\":\"USD\"}"
+        if [ "$total" = "$expected_total" ]; then
+            log_test "Order total is the exact sum of its lines" "PASS"
+        else
+            log_test "Order total is the exact sum of its lines" "FAIL" "Expected $expected_total, got $total"
+        fi
+
+        # Test 1b: The reservation's stock movements refer to the order
+        reference=$(api_call "GET" "/books/$BOOK1_ID/stock/history" "" "200" "Get stock history after the order" | jq -r '.[0].reference')
+        if [ "$reference" = "$ORDER1_ID" ]; then
+            log_test "Reservation movement refers to the order" "PASS"
+        else
+            log_test "Reservation movement refers to the order" "FAIL" "Expected $ORDER1_ID, got $reference"
+        fi
+
+        # Test 2: Order more than is in stock (should fail without reserving anything)
+        oversized_order_data="{
+            \"items\": [
+                {\"bookId\": \"$BOOK2_ID\", \"quantity\": 1},
+                {\"bookId\": \"$BOOK1_ID\", \"quantity\": 1000000}
+            ]
+        }"
+        api_call "POST" "/orders" "$oversized_order_data" "409" "Place order exceeding stock (should fail)"
+    fi
+
+    # Test 3: Reject an order without items
+    api_call "POST" "/orders" '{"items": []}' "400" "Place empty order (should fail)"
+
+    # Test 4: List orders
+    api_call "GET" "/orders?sort=-createdAt" "" "200" "List orders"
+
+    if [ -n "$ORDER1_ID" ]; then
+        # Test 5: Get order by ID
+        api_call "GET" "/orders/$ORDER1_ID" "" "200" "Get order by ID"
+
+        # Test 6: Cancel order and restore stock
+        api_call "POST" "/orders/$ORDER1_ID/cancel" "" "200" "Cancel order"
+
+        # Test 7: Cancel an already cancelled order (should fail)
+        api_call "POST" "/orders/$ORDER1_ID/cancel" "" "409" "Cancel cancelled order (should fail)"
+    fi
+
+    # Test 8: Get non-existent order
+    api_call "GET" "/orders/507f1f77bcf86cd799439011" "" "404" "Get non-existent order"
+
+    echo ""
+}
+
+# Function to test Money prices, list prices and currency conversion
+test_prices() {
+    echo -e "${PURPLE}💱 TESTING PRICES AND CURRENCIES${NC}"
+    echo "=================================="
+
+    if [ -z "$AUTHOR1_ID" ]; then
+        echo "Skipping: author 1 was not created"
+        echo ""
+        return 0
+    fi
+
+    # Test 1: Create a book with a plain price and a list price in pounds
+    book_data="{
+        \"title\": \"Priced Around the World\",
+        \"authorIds\": [\"$AUTHOR1_ID\"],
+        \"isbn\": \"978-0000000064\",
+        \"price\": 24.99,
+        \"listPrices\": [{\"amount\": 1999, \"currency\": \"GBP\"}],
+        \"stock\": 3,
+        \"genre\": \"Travel\"
+    }"
+    response=$(api_call "POST" "/books" "$book_data" "201" "Create book with list prices")
+    if [ $? -ne 0 ]; then
+        echo ""
+        return 0
+    fi
+    local book_id=$(extract_id "$response")
+    BOOK_IDS+=("$book_id")
+
+    price=$(echo "$response" | jq -c '.price')
+    if [ "$price" = '{"amount":2499,"currency":"USD"}' ]; then
+        log_test "Plain prices are stored as Money in cents" "PASS"
+    else
+        log_test "Plain prices are stored as Money in cents" "FAIL" "Got $price"
+    fi
+
+    # Test 2: A list price in the requested currency is returned as is
+    price=$(api_call "GET" "/books/$book_id?currency=GBP" "" "200" "Get book priced in GBP" | jq -c '.price')
+    if [ "$price" = '{"amount":1999,"currency":"GBP"}' ]; then
+        log_test "List price is used for its currency" "PASS"
+    else
+        log_test "List price is used for its currency" "FAIL" "Got $price"
+    fi
+
+    # Test 3: Other currencies are converted when the server has exchange rates
+    response=$(curl -s -w "\n%{http_code}" "$BASE_URL/books/$book_id?currency=EUR")
+    if [ "$(echo "$response" | tail -n 1)" = "200" ]; then
+        currency=$(echo "$response" | sed '$d' | jq -r '.price.currency')
+        if [ "$currency" = "EUR" ]; then
+            log_test "Price is converted to EUR" "PASS"
+        else
+            log_test "Price is converted to EUR" "FAIL" "Got currency $currency"
+        fi
+    else
+        echo "Skipping conversion: the server has no EUR exchange rate (set EXCHANGE_RATES_FILE)"
+    fi
+    api_call "GET" "/books?isbnPrefix=978000000006&currency=GBP" "" "200" "List books priced in GBP" > /dev/null
+    api_call "GET" "/books/$book_id?currency=XYZ" "" "400" "Get book in unknown currency (should fail)"
+
+    # Test 4: Price filters are in dollars
+    total=$(api_call "GET" "/books?isbnPrefix=978000000006&minPrice=24.99&maxPrice=24.99" "" "200" "Filter books by exact price" | jq -r '.total')
+    if [ "$total" = "1" ]; then
+        log_test "Price filters match Money prices" "PASS"
+    else
+        log_test "Price filters match Money prices" "FAIL" "Expected 1 book, got $total"
+    fi
+
+    # Test 5: Invalid prices
+    api_call "PUT" "/books/$book_id" '{"price": 9.999}' "400" "Update price with fractional cents (should fail)"
+    api_call "PUT" "/books/$book_id" '{"price": {"amount": 999, "currency": "EUR"}}' "400" "Update price in another currency (should fail)"
+    api_call "PUT" "/books/$book_id" '{"listPrices": [{"amount": 999, "currency": "EUR"}, {"amount": 899, "currency": "EUR"}]}' "400" "Update list prices with a repeated currency (should fail)"
+    api_call "PUT" "/books/$book_id" '{"price": {"amount": 2599, "currency": "USD"}}' "200" "Update price as Money"
+
+    echo ""
+}
+
+# Function to test promotions, coupons and discounted prices
+test_promotions() {
+    echo -e "${PURPLE}🏷️  TESTING PROMOTIONS${NC}"
+    echo "=================================="
+
+    if [ -z "$AUTHOR1_ID" ]; then
+        echo "Skipping: author 1 was not created"
+        echo ""
+        return 0
+    fi
+
+    response=$(api_call "POST" "/books" "{\"title\": \"On Sale\", \"authorIds\": [\"$AUTHOR1_ID\"], \"isbn\": \"978-0000000071\", \"price\": 20, \"stock\": 10, \"genre\": \"Promo Genre\"}" "201" "Create book for promotions")
+    if [ $? -ne 0 ]; then
+        echo ""
+        return 0
+    fi
+    local book_id=$(extract_id "$response")
+    BOOK_IDS+=("$book_id")
+
+    # Test 1: Automatic promotions by genre and by book; the larger discount wins
+    response=$(api_call "POST" "/promotions" '{"name": "Genre Sale", "discount": {"type": "percentage", "percent": 10}, "scope": {"genres": ["promo genre"]}}' "201" "Create genre promotion")
+    PROMOTION_IDS+=("$(extract_id "$response")")
+    response=$(api_call "POST" "/promotions" "{\"name\": \"Book Deal\", \"discount\": {\"type\": \"fixed\", \"amount\": 5}, \"scope\": {\"bookIds\": [\"$book_id\"]}}" "201" "Create book promotion")
+    local book_promotion_id=$(extract_id "$response")
+    PROMOTION_IDS+=("$book_promotion_id")
+
+    price=$(api_call "GET" "/books/$book_id/price" "" "200" "Get book price" | jq -c '[.finalPrice.amount, [.discounts[].name]]')
+    if [ "$price" = '[1500,["Book Deal"]]' ]; then
+        log_test "Best automatic promotion applies" "PASS"
+    else
+        log_test "Best automatic promotion applies" "FAIL" "Got $price"
+    fi
+
+    # Test 2: A coupon applies on top, once per usage limit
+    response=$(api_call "POST" "/promotions" "{\"name\": \"Half Off\", \"discount\": {\"type\": \"percentage\", \"percent\": 50}, \"scope\": {\"bookIds\": [\"$book_id\"]}, \"couponCode\": \"test-half\", \"usageLimit\": 1}" "201" "Create coupon promotion")
+    PROMOTION_IDS+=("$(extract_id "$response")")
+    api_call "POST" "/promotions" '{"name": "Copy", "discount": {"type": "percentage", "percent": 5}, "couponCode": "TEST-HALF"}' "409" "Create promotion with duplicate coupon code (should fail)"
+
+    price=$(api_call "GET" "/books/$book_id/price?coupon=test-half" "" "200" "Get book price with coupon" | jq -c '[.finalPrice.amount, (.discounts | length)]')
+    if [ "$price" = '[750,2]' ]; then
+        log_test "Coupon applies after automatic promotion" "PASS"
+    else
+        log_test "Coupon applies after automatic promotion" "FAIL" "Got $price"
+    fi
+    api_call "GET" "/books/$book_id/price?coupon=NOPE-123" "" "400" "Get book price with unknown coupon (should fail)"
+
+    # Test 3: Orders are priced with promotions and redeem the coupon
+    response=$(api_call "POST" "/orders" "{\"items\": [{\"bookId\": \"$book_id\", \"quantity\": 2}], \"couponCode\": \"test-half\"}" "201" "Place order with coupon")
+    local order_id=$(extract_id "$response")
+    total=$(echo "$response" | jq -r '.total.amount')
+    if [ "$total" = "1500" ]; then
+        log_test "Order total includes discounts" "PASS"
+    else
+        log_test "Order total includes discounts" "FAIL" "Expected 1500, got $total"
+    fi
+    api_call "POST" "/orders" "{\"items\": [{\"bookId\": \"$book_id\", \"quantity\": 1}], \"couponCode\": \"test-half\"}" "409" "Place order with used up coupon (should fail)"
+    api_call "POST" "/orders/$order_id/cancel" "" "200" "Cancel order with coupon"
+    api_call "GET" "/books/$book_id/price?coupon=test-half" "" "200" "Coupon is available again after cancellation" > /dev/null
+
+    # Test 4: Invalid promotions
+    api_call "POST" "/promotions" '{"name": "Nothing", "discount": {"type": "percentage", "percent": 0}}' "400" "Create promotion with 0% discount (should fail)"
+    api_call "POST" "/promotions" '{"name": "Backwards", "discount": {"type": "percentage", "percent": 5}, "startsAt": "2024-02-01", "endsAt": "2024-01-01"}' "400" "Create promotion ending before it starts (should fail)"
+
+    # Test 5: Ending a promotion removes its discount
+    local version=$(api_call "GET" "/promotions/$book_promotion_id" "" "200" "Get promotion" | jq -r '.version')
+    api_call "PUT" "/promotions/$book_promotion_id" '{"endsAt": "2024-01-01T00:00:00.000Z"}' "200" "End book promotion" "If-Match: \"$version\"" > /dev/null
+    price=$(curl -s "$BASE_URL/books/$book_id/price" | jq -c '[.finalPrice.amount, [.discounts[].name]]')
+    if [ "$price" = '[1800,["Genre Sale"]]' ]; then
+        log_test "Ended promotion no longer applies" "PASS"
+    else
+        log_test "Ended promotion no longer applies" "FAIL" "Got $price"
+    fi
+    api_call "GET" "/promotions" "" "200" "List promotions" > /dev/null
+
+    echo ""
+}
+
+# Function to test author deletion strategies and merging
+test_author_integrity() {
+    echo -e "${PURPLE}🔗 TESTING AUTHOR REFERENCES${NC}"
+    echo "=================================="
+
+    if [ -z "$AUTHOR1_ID" ]; then
+        echo ""
+        return
+    fi
+
+    # Test 1: An author with books cannot be deleted without a strategy
+    response=$(api_call "POST" "/authors" '{"firstName": "G.", "lastName": "Orwell", "fullName": "G. Orwell"}' "201" "Create duplicate author")
+    if [ $? -eq 0 ]; then
+        duplicate_id=$(extract_id "$response")
+        AUTHOR_IDS+=("$duplicate_id")
+        book_data="{
+            \"title\": \"Homage to Catalonia\",
+            \"authorIds\": [\"$duplicate_id\"],
+            \"isbn\": \"978-0156421171\",
+            \"price\": 12.99,
+            \"stock\": 5,
+            \"genre\": \"Memoir\"
+        }"
+        response=$(api_call "POST" "/books" "$book_data" "201" "Create book by duplicate author")
+        merged_book_id=$(extract_id "$response")
+        BOOK_IDS+=("$merged_book_id")
+
+        api_call "DELETE" "/authors/$duplicate_id" "" "409" "Delete author with books (should fail)"
+        api_call "DELETE" "/authors/$duplicate_id?strategy=orphan" "" "400" "Delete author with unknown strategy (should fail)"
+
+        # Test 2: Merge the duplicate into the original author
+        api_call "POST" "/authors/$duplicate_id/merge-into/$duplicate_id" "" "400" "Merge author into itself (should fail)"
+        api_call "POST" "/authors/$duplicate_id/merge-into/$AUTHOR1_ID" "" "200" "Merge duplicate author"
+        api_call "GET" "/authors/$duplicate_id" "" "404" "Get merged author (should fail)"
+        author_ids=$(api_call "GET" "/books/$merged_book_id" "" "200" "Get book of merged author" | jq -c '.authorIds')
+        if [ "$author_ids" = "[\"$AUTHOR1_ID\"]" ]; then
+            log_test "Book references merged author's target" "PASS"
+        else
+            log_test "Book references merged author's target" "FAIL" "Expected [\"$AUTHOR1_ID\"], got $author_ids"
+        fi
+    fi
+
+    # Test 3: Cascade trashes solo-authored books and detaches co-authored ones
+    response=$(api_call "POST" "/authors" '{"firstName": "Cascade", "lastName": "Author", "fullName": "Cascade Author"}' "201" "Create author to cascade")
+    if [ $? -eq 0 ]; then
+        cascade_id=$(extract_id "$response")
+        AUTHOR_IDS+=("$cascade_id")
+        response=$(api_call "POST" "/books" "{\"title\": \"Solo Work\", \"authorIds\": [\"$cascade_id\"], \"isbn\": \"978-0000000019\", \"price\": 9.99, \"stock\": 1, \"genre\": \"Fiction\"}" "201" "Create solo-authored book")
+        solo_book_id=$(extract_id "$response")
+        BOOK_IDS+=("$solo_book_id")
+        response=$(api_call "POST" "/books" "{\"title\": \"Joint Work\", \"authorIds\": [\"$cascade_id\", \"$AUTHOR1_ID\"], \"isbn\": \"978-0000000026\", \"price\": 9.99, \"stock\": 1, \"genre\": \"Fiction\"}" "201" "Create co-authored book")
+        joint_book_id=$(extract_id "$response")
+        BOOK_IDS+=("$joint_book_id")
+
+        api_call "DELETE" "/authors/$cascade_id?strategy=cascade" "" "200" "Delete author with cascade"
+        api_call "GET" "/books/$solo_book_id" "" "404" "Get solo-authored book after cascade (should fail)"
+        author_ids=$(api_call "GET" "/books/$joint_book_id" "" "200" "Get co-authored book after cascade" | jq -c '.authorIds')
+        if [ "$author_ids" = "[\"$AUTHOR1_ID\"]" ]; then
+            log_test "Co-authored book keeps remaining author" "PASS"
+        else
+            log_test "Co-authored book keeps remaining author" "FAIL" "Expected [\"$AUTHOR1_ID\"], got $author_ids"
+        fi
+        api_call "POST" "/books/$solo_book_id/restore" "" "409" "Restore book whose author is in the trash (should fail)"
+    fi
+
+    # Test 4: Detach leaves no book without an author, and trashed books count as references
+    response=$(api_call "POST" "/authors" '{"firstName": "Detach", "lastName": "Author", "fullName": "Detach Author"}' "201" "Create author to detach")
+    if [ $? -eq 0 ]; then
+        detach_id=$(extract_id "$response")
+        AUTHOR_IDS+=("$detach_id")
+        response=$(api_call "POST" "/books" "{\"title\": \"Lone Work\", \"authorIds\": [\"$detach_id\"], \"isbn\": \"978-0000000040\", \"price\": 9.99, \"stock\": 1, \"genre\": \"Fiction\"}" "201" "Create book to detach from")
+        lone_book_id=$(extract_id "$response")
+        BOOK_IDS+=("$lone_book_id")
+
+        api_call "DELETE" "/authors/$detach_id?strategy=detach" "" "409" "Detach author from a book it wrote alone (should fail)"
+        api_call "DELETE" "/books/$lone_book_id" "" "200" "Move the author's book to trash"
+        api_call "DELETE" "/authors/$detach_id" "" "409" "Delete author referenced by a trashed book (should fail)"
+    fi
+
+    echo ""
+}
+
+# Function to test soft delete, restore and purge
+test_trash() {
+    echo -e "${PURPLE}🗑️  TESTING TRASH${NC}"
+    echo "=================================="
+
+    if [ -n "$BOOK3_ID" ]; then
+        # Test 1: Deleted books are hidden from reads but kept in the trash
+        api_call "DELETE" "/books/$BOOK3_ID" "" "200" "Move book to trash"
+        api_call "GET" "/books/$BOOK3_ID" "" "404" "Get deleted book (should fail)"
+        trash=$(api_call "GET" "/trash" "" "200" "List trash")
+        if [ "$(echo "$trash" | jq --arg id "$BOOK3_ID" '[.books[] | select(._id == $id)] | length')" = "1" ]; then
+            log_test "Deleted book is listed in trash" "PASS"
+        else
+            log_test "Deleted book is listed in trash" "FAIL" "Book $BOOK3_ID not found in trash"
+        fi
+
+        # Test 2: Restore the book
+        api_call "POST" "/books/$BOOK3_ID/restore" "" "200" "Restore book from trash"
+        api_call "GET" "/books/$BOOK3_ID" "" "200" "Get restored book"
+        api_call "POST" "/books/$BOOK3_ID/restore" "" "404" "Restore book not in trash (should fail)"
+    fi
+
+    # Test 3: Purge an author permanently
+    response=$(api_call "POST" "/authors" '{"firstName": "Trash", "lastName": "Author", "fullName": "Trash Author"}' "201" "Create author to purge")
+    if [ $? -eq 0 ]; then
+        trash_author_id=$(extract_id "$response")
+        api_call "DELETE" "/trash/authors/$trash_author_id" "" "404" "Purge author not in trash (should fail)"
+        api_call "DELETE" "/authors/$trash_author_id" "" "200" "Move author to trash"
+        api_call "DELETE" "/trash/authors/$trash_author_id" "" "200" "Purge author"
+        api_call "POST" "/authors/$trash_author_id/restore" "" "404" "Restore purged author (should fail)"
     fi
 
     echo ""
 }
 
+# Function to send an import file and print the import report
+import_file() {
+    local endpoint="$1"
+    local content_type="$2"
+    local data="$3"
+    local test_name="$4"
+
+    echo -e "${BLUE}🔄 Testing: $test_name${NC}" >&2
+    echo -e "${YELLOW}POST $BASE_URL$endpoint${NC}" >&2
+
+    response=$(curl -s -w "\n%{http_code}" -X POST \
+        -H "Content-Type: $content_type" \
+        -H "$AUTH_HEADER" \
+        --data-binary "$data" \
+        "$BASE_URL$endpoint")
+    response_body=$(echo "$response" | sed '$d')
+    status_code=$(echo "$response" | tail -n 1)
+
+    if [ "$status_code" = "200" ]; then
+        log_test "$test_name" "PASS"
+        echo "$response_body"
+        return 0
+    else
+        log_test "$test_name" "FAIL" "Expected status 200, got $status_code"
+        echo "Response: $response_body" >&2
+        return 1
+    fi
+}
+
+# Function to check the counts in an import report
+check_import_report() {
+    local report="$1"
+    local expected="$2"
+    local test_name="$3"
+
+    local counts=$(echo "$report" | jq -r '"\(.created) created, \(.updated) updated, \(.rejected) rejected"')
+    if [ "$counts" = "$expected" ]; then
+        log_test "$test_name" "PASS"
+    else
+        log_test "$test_name" "FAIL" "Expected $expected, got $counts"
+    fi
+}
+
+# Function to test catalog import and export
+test_catalog() {
+    echo -e "${PURPLE}📦 TESTING CATALOG IMPORT AND EXPORT${NC}"
+    echo "=================================="
+
+    # Test 1: Import authors as JSON Lines; bad lines are reported, not fatal
+    authors='{"firstName": "Import", "lastName": "Writer", "fullName": "Import Writer"}
+not json
+{"firstName": "Missing"}'
+    report=$(import_file "/import?type=authors" "application/x-ndjson" "$authors" "Import authors as NDJSON")
+    check_import_report "$report" "1 created, 0 updated, 2 rejected" "NDJSON import report counts"
+    # Track created records for cleanup
+    for id in $(echo "$report" | jq -r '.rows[] | select(.status == "created") | .id'); do
+        AUTHOR_IDS+=("$id")
+    done
+
+    # Test 2: Import books as CSV, naming their authors; a repeated ISBN updates
+    books='isbn,title,authors,price,stock,genre
+978-0000000033,"Imported, Volume One",Import Writer,10.50,4,Fiction
+978-0000000040,Unknown Author Book,Nobody At All,5,1,Fiction
+978-0000000033,"Imported, Volume One (Revised)",Import Writer,11.00,4,Fiction'
+    report=$(import_file "/import" "text/csv" "$books" "Import books as CSV")
+    check_import_report "$report" "1 created, 1 updated, 1 rejected" "CSV import report counts"
+    for id in $(echo "$report" | jq -r '.rows[] | select(.status == "created") | .id'); do
+        BOOK_IDS+=("$id")
+    done
+
+    # Test 3: Import an ONIX product; its contributor is created as an author
+    onix='<?xml version="1.0" encoding="UTF-8"?>
+<ONIXMessage release="3.0" xmlns="http://ns.editeur.org/onix/3.0/reference">
+  <Product>
+    <RecordReference>test-onix-1</RecordReference>
+    <ProductIdentifier><ProductIDType>15</ProductIDType><IDValue>978-0000000057</IDValue></ProductIdentifier>
+    <DescriptiveDetail>
+      <TitleDetail><TitleType>01</TitleType><TitleElement><TitleElementLevel>01</TitleElementLevel><TitleText>Onix Imported</TitleText></TitleElement></TitleDetail>
+      <Contributor><ContributorRole>A01</ContributorRole><PersonName>Onix Contributor</PersonName></Contributor>
+      <Subject><SubjectSchemeIdentifier>20</SubjectSchemeIdentifier><SubjectHeadingText>Poetry</SubjectHeadingText></Subject>
+    </DescriptiveDetail>
+    <ProductSupply><SupplyDetail><Stock><OnHand>2</OnHand></Stock><Price><PriceAmount>8.99</PriceAmount></Price></SupplyDetail></ProductSupply>
+  </Product>
+</ONIXMessage>'
+    report=$(import_file "/import?format=onix" "application/xml" "$onix" "Import books as ONIX")
+    check_import_report "$report" "1 created, 0 updated, 0 rejected" "ONIX import report counts"
+    for id in $(echo "$report" | jq -r '.rows[] | select(.status == "created") | .id'); do
+        BOOK_IDS+=("$id")
+    done
+    contributor_id=$(curl -s "$BASE_URL/authors/name/Onix%20Contributor" | jq -r '.[0]._id')
+    AUTHOR_IDS+=("$contributor_id")
+
+    api_call "POST" "/import" "{}" "400" "Import without a format (should fail)"
+
+    # Test 4: Export the catalog in each format
+    exported=$(curl -s "$BASE_URL/export?format=ndjson")
+    if echo "$exported" | jq -e 'select(.isbn == "9780000000033") | .authors == ["Import Writer"]' > /dev/null; then
+        log_test "NDJSON export names book authors" "PASS"
+    else
+        log_test "NDJSON export names book authors" "FAIL" "Imported book not found in export"
+    fi
+    api_call "GET" "/export?format=csv&type=authors" "" "200" "Export authors as CSV" > /dev/null
+    api_call "GET" "/export?format=onix" "" "200" "Export books as ONIX" > /dev/null
+    api_call "GET" "/export?format=onix&type=authors" "" "400" "Export authors as ONIX (should fail)"
+
+    echo ""
+}
+
 # Function to test utility endpoints
 test_utilities() {
     echo -e "${PURPLE}🔧 TESTING UTILITY ENDPOINTS${NC}"
@@ -404,6 +1052,307 @@ test_utilities() {
     # Test 3: Get non-existent book with authors
     api_call "GET" "/books-with-authors/507f1f77bcf86cd799439011" "" "404" "Get non-existent book with authors"
 
+    # Test 4: Embed related records with ?include=
+    if [ -n "$BOOK1_ID" ] && [ -n "$AUTHOR1_ID" ]; then
+        author_ids=$(api_call "GET" "/books/$BOOK1_ID?include=authors" "" "200" "Get book including authors" | jq -c '[.authors[]._id]')
+        if [ "$author_ids" = "[\"$AUTHOR1_ID\"]" ]; then
+            log_test "Book includes its authors" "PASS"
+        else
+            log_test "Book includes its authors" "FAIL" "Expected [\"$AUTHOR1_ID\"], got $author_ids"
+        fi
+        api_call "GET" "/books?include=authors&limit=5" "" "200" "List books including authors"
+        api_call "GET" "/authors/$AUTHOR1_ID?include=books" "" "200" "Get author including books"
+        api_call "GET" "/authors/name/orwell?include=books" "" "200" "Get authors by name including books"
+    fi
+    api_call "GET" "/books?include=publisher" "" "400" "Include unknown relation (should fail)"
+
+    echo ""
+}
+
+# Function to test authentication with API keys and bearer tokens
+test_auth() {
+    echo -e "${PURPLE}🔐 TESTING AUTHENTICATION${NC}"
+    echo "=================================="
+
+    # Test 1: Reads are public, changes need credentials
+    api_call "GET" "/books?limit=1" "" "200" "List books without credentials" "X-API-Key:"
+    api_call "POST" "/authors" '{"firstName": "No", "lastName": "Key", "fullName": "No Key"}' "401" "Create author without credentials (should fail)" "X-API-Key:"
+    api_call "POST" "/authors" '{"firstName": "Bad", "lastName": "Key", "fullName": "Bad Key"}' "401" "Create author with an unknown API key (should fail)" "X-API-Key: bks_unknown"
+    api_call "GET" "/orders" "" "401" "List orders without credentials (should fail)" "X-API-Key:"
+
+    headers=$(curl -s -D - -o /dev/null -X DELETE "$BASE_URL/books/507f1f77bcf86cd799439011")
+    if echo "$headers" | grep -qi "^www-authenticate: Bearer"; then
+        log_test "401 responses carry a WWW-Authenticate challenge" "PASS"
+    else
+        log_test "401 responses carry a WWW-Authenticate challenge" "FAIL" "Got $headers"
+    fi
+
+    # Test 2: The API key identifies the caller
+    me=$(api_call "GET" "/auth/me" "" "200" "Get current user with the API key")
+    local admin_key_id=$(echo "$me" | jq -r '.keyId')
+    me=$(echo "$me" | jq -r '"\(.name) \(.role) \(.method)"')
+    if [ "$me" = "admin admin api-key" ]; then
+        log_test "API key authenticates as its owner" "PASS"
+    else
+        log_test "API key authenticates as its owner" "FAIL" "Got $me"
+    fi
+
+    # Test 3: Issue a key and exchange it for a token
+    issued=$(api_call "POST" "/auth/keys" '{"name": "Test key", "owner": "tester"}' "201" "Create API key for another user")
+    local key=$(echo "$issued" | jq -r '.key')
+    local key_id=$(echo "$issued" | jq -r '.apiKey._id')
+    if [ "$(echo "$issued" | jq -r '.apiKey.hash')" = "null" ] && [ "$(echo "$issued" | jq -r '.apiKey.hint')" = "${key: -4}" ]; then
+        log_test "Issued key is returned once, without its hash" "PASS"
+    else
+        log_test "Issued key is returned once, without its hash" "FAIL" "Got $issued"
+    fi
+
+    api_call "POST" "/auth/login" '{"apiKey": "bks_unknown"}' "401" "Log in with an unknown API key (should fail)" "X-API-Key:"
+    token=$(api_call "POST" "/auth/login" "{\"apiKey\": \"$key\"}" "200" "Log in with the new API key" "X-API-Key:" | jq -r '.accessToken')
+    me=$(api_call "GET" "/auth/me" "" "200" "Get current user with a bearer token" "Authorization: Bearer $token" | jq -r '"\(.name) \(.method)"')
+    if [ "$me" = "tester token" ]; then
+        log_test "Bearer token authenticates as the key owner" "PASS"
+    else
+        log_test "Bearer token authenticates as the key owner" "FAIL" "Got $me"
+    fi
+    api_call "GET" "/auth/me" "" "401" "Get current user with a tampered token (should fail)" "Authorization: Bearer ${token}x"
+    api_call "GET" "/auth/me" "" "401" "Get current user with a Basic header (should fail)" "Authorization: Basic dGVzdDp0ZXN0"
+
+    # Test 4: Keys are only visible to their owner
+    api_call "POST" "/auth/keys/$admin_key_id/rotate" "" "404" "Rotate another user's key (should fail)" "X-API-Key: $key"
+    count=$(api_call "GET" "/auth/keys" "" "200" "List own API keys" "Authorization: Bearer $token" | jq 'length')
+    if [ "$count" = "1" ]; then
+        log_test "Owner sees only their own keys" "PASS"
+    else
+        log_test "Owner sees only their own keys" "FAIL" "Expected 1 key, got $count"
+    fi
+    local namesake_key=$(api_call "POST" "/auth/keys" '{"name": "Namesake", "owner": "admin"}' "201" "Create key for a new owner named like the admin" | jq -r '.key')
+    api_call "POST" "/auth/keys/$admin_key_id/rotate" "" "404" "Rotate the key of an owner with the same name (should fail)" "X-API-Key: $namesake_key"
+    api_call "DELETE" "/auth/keys/$admin_key_id" "" "404" "Revoke the key of an owner with the same name (should fail)" "X-API-Key: $namesake_key"
+    count=$(api_call "GET" "/auth/keys" "" "200" "List own API keys as the namesake" "X-API-Key: $namesake_key" | jq 'length')
+    if [ "$count" = "1" ]; then
+        log_test "Keys are told apart by owner id, not owner name" "PASS"
+    else
+        log_test "Keys are told apart by owner id, not owner name" "FAIL" "Expected 1 key, got $count"
+    fi
+
+    # Test 5: Rotation replaces the key and invalidates tokens issued for the old one
+    rotated=$(api_call "POST" "/auth/keys/$key_id/rotate" "" "201" "Rotate own API key" "X-API-Key: $key")
+    local new_key=$(echo "$rotated" | jq -r '.key')
+    local new_key_id=$(echo "$rotated" | jq -r '.apiKey._id')
+    api_call "GET" "/auth/me" "" "401" "Use the rotated-out key (should fail)" "X-API-Key: $key"
+    api_call "GET" "/auth/me" "" "401" "Use a token of the rotated-out key (should fail)" "Authorization: Bearer $token"
+    api_call "GET" "/auth/me" "" "200" "Use the replacement key" "X-API-Key: $new_key"
+    api_call "POST" "/auth/keys/$key_id/rotate" "" "409" "Rotate a revoked key (should fail)" "X-API-Key: $new_key"
+
+    # Test 6: Revocation
+    api_call "DELETE" "/auth/keys/$new_key_id" "" "200" "Revoke own API key" "X-API-Key: $new_key"
+    api_call "GET" "/auth/me" "" "401" "Use a revoked key (should fail)" "X-API-Key: $new_key"
+
+    echo ""
+}
+
+# Function to test that each role can do what it is meant to, and nothing more
+test_roles() {
+    echo -e "${PURPLE}🛂 TESTING ROLES${NC}"
+    echo "=================================="
+
+    local editor_key=$(api_call "POST" "/auth/keys" '{"name": "Editor", "owner": "editor", "role": "editor"}' "201" "Create editor key" | jq -r '.key')
+    local clerk_key=$(api_call "POST" "/auth/keys" '{"name": "Clerk", "owner": "clerk", "role": "clerk"}' "201" "Create clerk key" | jq -r '.key')
+    local viewer_key=$(api_call "POST" "/auth/keys" '{"name": "Viewer", "owner": "viewer"}' "201" "Create key with the default role" | jq -r '.key')
+
+    # Test 1: Editors maintain the catalog but cannot delete from it
+    response=$(api_call "POST" "/authors" '{"firstName": "Role", "lastName": "Tester", "fullName": "Role Tester"}' "201" "Editor creates an author" "X-API-Key: $editor_key")
+    local author_id=$(extract_id "$response")
+    AUTHOR_IDS+=("$author_id")
+    response=$(api_call "POST" "/books" "{\"title\": \"Role Book\", \"authorIds\": [\"$author_id\"], \"isbn\": \"978-0000000088\", \"price\": 10, \"stock\": 5, \"genre\": \"Fiction\"}" "201" "Editor creates a book" "X-API-Key: $editor_key")
+    local book_id=$(extract_id "$response")
+    BOOK_IDS+=("$book_id")
+    problem=$(api_call "DELETE" "/books/$book_id" "" "403" "Editor deletes a book (should fail)" "X-API-Key: $editor_key")
+    if [ "$(echo "$problem" | jq -r '.code')" = "FORBIDDEN" ]; then
+        log_test "Forbidden operations return a FORBIDDEN problem" "PASS"
+    else
+        log_test "Forbidden operations return a FORBIDDEN problem" "FAIL" "Got $problem"
+    fi
+    api_call "PATCH" "/books/$book_id/stock" '{"quantity": 1}' "403" "Editor adjusts stock (should fail)" "X-API-Key: $editor_key"
+    api_call "POST" "/auth/keys" '{"name": "Escalate", "role": "admin"}' "403" "Editor issues an API key (should fail)" "X-API-Key: $editor_key"
+
+    # Test 2: Clerks only adjust stock
+    api_call "PATCH" "/books/$book_id/stock" '{"quantity": 2, "reason": "restock"}' "200" "Clerk adjusts stock" "X-API-Key: $clerk_key"
+    actor=$(api_call "GET" "/books/$book_id/stock/history" "" "200" "Get stock history after the clerk's change" | jq -r '.[0].actor')
+    if [ "$actor" = "clerk" ]; then
+        log_test "Stock movement records the clerk as actor" "PASS"
+    else
+        log_test "Stock movement records the clerk as actor" "FAIL" "Got $actor"
+    fi
+    api_call "PUT" "/books/$book_id" '{"title": "Renamed"}' "403" "Clerk updates a book (should fail)" "X-API-Key: $clerk_key"
+
+    # Test 3: Viewers can read but not change the catalog
+    api_call "GET" "/trash" "" "200" "Viewer lists the trash" "X-API-Key: $viewer_key"
+    api_call "POST" "/authors" '{"firstName": "View", "lastName": "Only", "fullName": "View Only"}' "403" "Viewer creates an author (should fail)" "X-API-Key: $viewer_key"
+
+    # Test 4: Admins may delete
+    api_call "DELETE" "/books/$book_id" "" "200" "Admin deletes a book"
+
+    echo ""
+}
+
+# Function to test the audit log and book history
+test_audit() {
+    echo -e "${PURPLE}📜 TESTING AUDIT LOG${NC}"
+    echo "=================================="
+
+    local caller=$(api_call "GET" "/auth/me" "" "200" "Get the current user")
+    local me=$(echo "$caller" | jq -r '.name')
+    local me_id=$(echo "$caller" | jq -r '.ownerId')
+    response=$(api_call "POST" "/authors" '{"firstName": "Audit", "lastName": "Author", "fullName": "Audit Author"}' "201" "Create author to audit")
+    local author_id=$(extract_id "$response")
+    AUTHOR_IDS+=("$author_id")
+    response=$(api_call "POST" "/books" "{\"title\": \"Audit Book\", \"authorIds\": [\"$author_id\"], \"isbn\": \"978-0000000095\", \"price\": 10, \"stock\": 5, \"genre\": \"Fiction\"}" "201" "Create book to audit")
+    local book_id=$(extract_id "$response")
+    BOOK_IDS+=("$book_id")
+
+    # Test 1: Each change is an entry with the actor and the changed fields
+    sleep 1
+    local before_update=$(date -u +%Y-%m-%dT%H:%M:%S.000Z)
+    sleep 1
+    api_call "PUT" "/books/$book_id" '{"price": 12}' "200" "Update audited book price"
+    api_call "PATCH" "/books/$book_id/stock" '{"quantity": -2, "reason": "damaged"}' "200" "Adjust audited book stock"
+    entries=$(api_call "GET" "/audit?entity=book&id=$book_id" "" "200" "List audit entries of the book")
+    if [ "$(echo "$entries" | jq -r '[.items[].action] | join(",")')" = "stock,update,create" ]; then
+        log_test "Audit entries list the book's changes newest first" "PASS"
+    else
+        log_test "Audit entries list the book's changes newest first" "FAIL" "Got $entries"
+    fi
+    change=$(echo "$entries" | jq -c '.items[1].changes')
+    if [ "$change" = '[{"field":"price","before":{"amount":1000,"currency":"USD"},"after":{"amount":1200,"currency":"USD"}}]' ]; then
+        log_test "Update entry holds the field-level diff" "PASS"
+    else
+        log_test "Update entry holds the field-level diff" "FAIL" "Got $change"
+    fi
+    if [ "$(echo "$entries" | jq -r '.items[0] | "\(.actor) \(.actorId)"')" = "$me $me_id" ]; then
+        log_test "Audit entries record the actor" "PASS"
+    else
+        log_test "Audit entries record the actor" "FAIL" "Expected $me $me_id"
+    fi
+    total=$(api_call "GET" "/audit?actorId=$me_id&from=$before_update" "" "200" "List audit entries by actor since the update" | jq -r '.total')
+    if [ "$total" -ge 2 ] 2>/dev/null; then
+        log_test "Audit entries are filtered by actor and time" "PASS"
+    else
+        log_test "Audit entries are filtered by actor and time" "FAIL" "Got $total"
+    fi
+
+    # Test 2: The book's history shows it as it was
+    book=$(api_call "GET" "/books/$book_id/history?at=$before_update" "" "200" "Get the book before its update")
+    if [ "$(echo "$book" | jq -c '[.price.amount, .stock]')" = "[1000,5]" ]; then
+        log_test "History restores the earlier price and stock" "PASS"
+    else
+        log_test "History restores the earlier price and stock" "FAIL" "Got $book"
+    fi
+    api_call "GET" "/books/$book_id/history?at=2000-01-01T00:00:00Z" "" "404" "Get the book before it was created (should fail)"
+    api_call "DELETE" "/books/$book_id" "" "200" "Delete audited book"
+    api_call "GET" "/books/$book_id/history?at=$before_update" "" "200" "Get the history of a deleted book"
+
+    # Test 3: Only admins read the audit log and book history, and only with a valid range
+    viewer_key=$(api_call "POST" "/auth/keys" '{"name": "Auditor", "owner": "auditor"}' "201" "Create viewer key" | jq -r '.key')
+    api_call "GET" "/audit" "" "403" "Viewer lists the audit log (should fail)" "X-API-Key: $viewer_key"
+    api_call "GET" "/books/$book_id/history?at=$before_update" "" "403" "Viewer reads book history (should fail)" "X-API-Key: $viewer_key"
+    api_call "GET" "/books/$book_id/history?at=$before_update" "" "401" "Read book history without credentials (should fail)" "X-API-Key:"
+    api_call "GET" "/audit?from=2030-01-01T00:00:00Z&to=2020-01-01T00:00:00Z" "" "400" "List audit log with inverted range (should fail)"
+
+    echo ""
+}
+
+# Function to test rate limiting
+test_rate_limits() {
+    echo -e "${PURPLE}🚦 TESTING RATE LIMITS${NC}"
+    echo "=================================="
+
+    # A fresh key has budgets of its own, so exhausting them leaves other tests alone
+    local key=$(api_call "POST" "/auth/keys" '{"name": "Rate Limited", "owner": "ratelimited"}' "201" "Create key to rate limit" | jq -r '.key')
+
+    # Test 1: Responses report the client's budget
+    headers=$(curl -s -D - -o /dev/null -H "X-API-Key: $key" "$BASE_URL/books?limit=1")
+    if echo "$headers" | grep -qi "^RateLimit-Remaining:" && echo "$headers" | grep -qi "^RateLimit-Reset:"; then
+        log_test "Responses carry RateLimit headers" "PASS"
+    else
+        log_test "Responses carry RateLimit headers" "FAIL" "Got $headers"
+    fi
+
+    # Test 2: Expensive routes have their own, smaller budget
+    headers=$(curl -s -D - -o /dev/null -H "X-API-Key: $key" "$BASE_URL/search?q=test")
+    local limit=$(echo "$headers" | grep -i "^RateLimit-Limit:" | tr -d '\r' | awk '{print $2}')
+    if [ -z "$limit" ] || [ "$limit" -gt 500 ]; then
+        log_test "Search is budgeted as an expensive route" "FAIL" "Got limit $limit"
+        echo ""
+        return
+    fi
+    log_test "Search is budgeted as an expensive route" "PASS"
+
+    # Test 3: Once the budget is spent, requests are turned away until it refills.
+    # Tokens flow back while the loop runs, so it may take a few more than remain.
+    for ((i = 0; i <= 2 * limit; i++)); do
+        response=$(curl -s -D - -H "X-API-Key: $key" "$BASE_URL/search?q=test")
+        if echo "$response" | grep -q "^HTTP/[0-9.]* 429"; then
+            break
+        fi
+    done
+    if echo "$response" | grep -q "^HTTP/[0-9.]* 429" && echo "$response" | grep -qi "^Retry-After:"; then
+        log_test "Exhausted budget returns 429 with Retry-After" "PASS"
+    else
+        log_test "Exhausted budget returns 429 with Retry-After" "FAIL" "Got $response"
+    fi
+    if echo "$response" | grep -q '"code":"RATE_LIMITED"'; then
+        log_test "Rate limited requests return a RATE_LIMITED problem" "PASS"
+    else
+        log_test "Rate limited requests return a RATE_LIMITED problem" "FAIL" "Got $response"
+    fi
+    api_call "GET" "/books?limit=1" "" "200" "Standard routes stay available" "X-API-Key: $key"
+
+    echo ""
+}
+
+test_health() {
+    echo -e "${PURPLE}🩺 TESTING HEALTH AND METRICS${NC}"
+    echo "=================================="
+
+    # These live outside /api
+    local root_url="${BASE_URL%/api}"
+
+    # Test 1: Liveness and readiness
+    status=$(curl -s -o /dev/null -w "%{http_code}" "$root_url/health/live")
+    if [ "$status" = "200" ]; then
+        log_test "Liveness check" "PASS"
+    else
+        log_test "Liveness check" "FAIL" "Expected 200, got $status"
+    fi
+    readiness=$(curl -s "$root_url/health/ready" | jq -r '"\(.status) \(.checks.mongodb.status)"')
+    if [ "$readiness" = "ready up" ]; then
+        log_test "Readiness check pings MongoDB" "PASS"
+    else
+        log_test "Readiness check pings MongoDB" "FAIL" "Got $readiness"
+    fi
+
+    # Test 2: Prometheus metrics cover requests, repository calls and the catalog
+    metrics=$(curl -s "$root_url/metrics")
+    if echo "$metrics" | grep -q '^http_requests_total{method="GET",route="/api/books/:id",status="200"}'; then
+        log_test "Metrics count requests by route pattern" "PASS"
+    else
+        log_test "Metrics count requests by route pattern" "FAIL" "No series for GET /api/books/:id"
+    fi
+    if echo "$metrics" | grep -q '^mongodb_operation_duration_seconds_bucket{repository="BookRepository",method="findById"'; then
+        log_test "Metrics time repository methods" "PASS"
+    else
+        log_test "Metrics time repository methods" "FAIL" "No series for BookRepository.findById"
+    fi
+    books_total=$(echo "$metrics" | grep '^bookstore_books_total ' | awk '{print $2}')
+    listed_total=$(curl -s -H "$AUTH_HEADER" "$BASE_URL/books?limit=1" | jq -r '.total')
+    if [ -n "$books_total" ] && [ "$books_total" = "$listed_total" ]; then
+        log_test "Metrics gauge the number of books" "PASS"
+    else
+        log_test "Metrics gauge the number of books" "FAIL" "Gauge $books_total, listed $listed_total"
+    fi
+
     echo ""
 }
 
@@ -415,6 +1364,10 @@ test_error_scenarios() {
     # Test 1: Invalid JSON payload
     api_call "POST" "/authors" "invalid json" "400" "Invalid JSON payload"
 
+    # Test 1a: Bodies over BODY_LIMIT (100kb by default) are turned away
+    large_body=$(printf '{"firstName": "%0200000d"}' 0)
+    api_call "POST" "/authors" "$large_body" "413" "Body over the size limit (should fail)"
+
     # Test 2: Missing required fields
     api_call "POST" "/authors" '{"firstName": "Test"}' "400" "Missing required fields"
 
@@ -423,7 +1376,7 @@ test_error_scenarios() {
         invalid_price_data="{
             \"title\": \"Invalid Price Book\",
             \"authorIds\": [\"$AUTHOR1_ID\"],
-            \"isbn\": \"978-1111111111\",
+            \"isbn\": \"978-1111111113\",
             \"price\": -10.99,
             \"stock\": 10,
             \"genre\": \"Fiction\"
@@ -431,9 +1384,38 @@ test_error_scenarios() {
         api_call "POST" "/books" "$invalid_price_data" "400" "Book with negative price (should fail)"
     fi
 
+    # Test 3a: Every invalid field is reported with its path
+    invalid_book_data='{
+        "title": "   ",
+        "authorIds": [],
+        "isbn": "978-1111111113",
+        "price": 0,
+        "stock": 2.5,
+        "genre": "Fiction"
+    }'
+    paths=$(api_call "POST" "/books" "$invalid_book_data" "400" "Book with several invalid fields (should fail)" | jq -c '[.errors[].path[0]]')
+    if [ "$paths" = '["title","authorIds","price","stock"]' ]; then
+        log_test "Validation issues list each invalid field" "PASS"
+    else
+        log_test "Validation issues list each invalid field" "FAIL" "Got $paths"
+    fi
+    api_call "POST" "/authors" '{"firstName": "Url", "lastName": "Test", "fullName": "Url Test", "website": "not a url"}' "400" "Author with invalid website (should fail)"
+    api_call "POST" "/authors" '{"firstName": "Future", "lastName": "Born", "fullName": "Future Born", "birthDate": "2999-01-01"}' "400" "Author born in the future (should fail)"
+
     # Test 4: Non-existent endpoint
     api_call "GET" "/nonexistent" "" "404" "Non-existent endpoint"
 
+    # Test 4a: Errors are problem+json documents that echo the request id
+    headers=$(curl -s -D - -o /tmp/problem.json -H "X-Request-Id: test-request-1" "$BASE_URL/books/507f1f77bcf86cd799439011")
+    if echo "$headers" | grep -qi "^content-type: application/problem+json" && \
+        echo "$headers" | grep -qi "^x-request-id: test-request-1" && \
+        [ "$(jq -r '"\(.status) \(.code) \(.requestId)"' /tmp/problem.json)" = "404 NOT_FOUND test-request-1" ]; then
+        log_test "Error response is a problem document with request id" "PASS"
+    else
+        log_test "Error response is a problem document with request id" "FAIL" "Got $(cat /tmp/problem.json)"
+    fi
+    rm -f /tmp/problem.json
+
     # Test 5: Invalid HTTP method
     api_call "PATCH" "/authors" "" "404" "Invalid HTTP method on authors endpoint"
 
@@ -473,7 +1455,7 @@ test_performance() {
             book_data="{
                 \"title\": \"Test Book $i\",
                 \"authorIds\": [\"$random_author\"],
-                \"isbn\": \"978-000000000$i\",
+                \"isbn\": \"$(isbn13 "978100000$(printf '%03d' "$i")")\",
                 \"price\": $((10 + i)).99,
                 \"stock\": $((20 + i)),
                 \"genre\": \"TestGenre$((i % 3 + 1))\",
@@ -534,9 +1516,21 @@ main() {
     trap cleanup EXIT
 
     # Run test suites
+    test_auth
+    test_roles
     test_authors
     test_books
+    test_concurrent_stock
+    test_orders
+    test_prices
+    test_promotions
+    test_author_integrity
+    test_trash
+    test_audit
+    test_catalog
     test_utilities
+    test_health
+    test_rate_limits
     test_error_scenarios
     test_performance
 
@@ -69,8 +69,8 @@ AUTHOR2_DATA='{
   "nationality": "British",
   "website": "https://en.wikipedia.org/wiki/Jane_Austen",
   "socialLinks": {
-    "twitter": "@JaneAusten",
-    "facebook": "JaneAustenOfficial"
+    "twitter": "https://twitter.com/JaneAusten",
+    "facebook": "https://www.facebook.com/JaneAustenOfficial"
   }
 }'
 
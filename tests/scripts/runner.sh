@@ -84,9 +84,14 @@ start_server() {
         npx tsc ../../src/simple-server.ts --outDir ../../dist --target ES2020 --module CommonJS --esModuleInterop --allowSyntheticDefaultImports --strict --skipLibCheck
     fi
 
-    # Start the server in development mode
+    # Start the server in development mode, with fixed exchange rates for the currency tests,
+    # the admin key the tests authenticate with and budgets the whole suite fits in
     echo -e "${BLUE}🔧 Starting server in development mode...${NC}"
-    npm run dev > server.log 2>&1 &
+    EXCHANGE_RATES_FILE="$(cd ../fixtures && pwd)/exchange-rates.json" \
+        BOOTSTRAP_API_KEY="${BOOTSTRAP_API_KEY:-test-admin-key}" \
+        RATE_LIMIT_STANDARD="${RATE_LIMIT_STANDARD:-100000/60}" \
+        RATE_LIMIT_EXPENSIVE="${RATE_LIMIT_EXPENSIVE:-100/60}" \
+        npm run dev > server.log 2>&1 &
     SERVER_PID=$!
 
     echo "Server started with PID: $SERVER_PID"
@@ -120,6 +125,7 @@ run_smoke_tests() {
     echo -e "${PURPLE}=========================${NC}"
 
     BASE_URL="http://localhost:$SERVER_PORT/api"
+    AUTH_HEADER="X-API-Key: ${BOOTSTRAP_API_KEY:-test-admin-key}"
 
     # Test 1: Health check - Get all books (should return empty array initially)
     echo -e "${BLUE}📋 Testing basic endpoints...${NC}"
@@ -142,6 +148,7 @@ run_smoke_tests() {
     echo -e "${BLUE}👤 Testing author creation...${NC}"
     author_response=$(curl -s -X POST "$BASE_URL/authors" \
         -H "Content-Type: application/json" \
+        -H "$AUTH_HEADER" \
         -d '{
             "firstName": "Test",
             "lastName": "Author",
@@ -157,10 +164,11 @@ run_smoke_tests() {
         echo -e "${BLUE}📖 Testing book creation...${NC}"
         book_response=$(curl -s -X POST "$BASE_URL/books" \
             -H "Content-Type: application/json" \
+            -H "$AUTH_HEADER" \
             -d "{
                 \"title\": \"Test Book\",
                 \"authorIds\": [\"$author_id\"],
-                \"isbn\": \"978-0000000000\",
+                \"isbn\": \"978-0000000002\",
                 \"price\": 19.99,
                 \"stock\": 10,
                 \"genre\": \"Test\"
@@ -180,8 +188,10 @@ run_smoke_tests() {
 
             # Cleanup test data
             echo -e "${BLUE}🧹 Cleaning up test data...${NC}"
-            curl -s -X DELETE "$BASE_URL/books/$book_id" > /dev/null
-            curl -s -X DELETE "$BASE_URL/authors/$author_id" > /dev/null
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/books/$book_id" > /dev/null
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/authors/$author_id" > /dev/null
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/trash/books/$book_id" > /dev/null
+            curl -s -X DELETE -H "$AUTH_HEADER" "$BASE_URL/trash/authors/$author_id" > /dev/null
             echo -e "${GREEN}✓ Cleanup completed${NC}"
         else
             echo -e "${RED}✗ POST /books - FAILED${NC}"
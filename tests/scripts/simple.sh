@@ -4,6 +4,7 @@
 # This script performs basic manual testing of the bookstore API
 
 BASE_URL="http://localhost:3000/api"
+API_KEY="${API_KEY:-${BOOTSTRAP_API_KEY:-test-admin-key}}"
 
 # Colors for output
 RED='\033[0;31m'
@@ -30,12 +31,14 @@ test_endpoint() {
         echo -e "${YELLOW}Data: $data${NC}"
         curl -X "$method" \
             -H "Content-Type: application/json" \
+            -H "X-API-Key: $API_KEY" \
             -d "$data" \
             "$BASE_URL$endpoint" \
             -w "\nStatus: %{http_code}\n\n" \
             -s
     else
         curl -X "$method" \
+            -H "X-API-Key: $API_KEY" \
             "$BASE_URL$endpoint" \
             -w "\nStatus: %{http_code}\n\n" \
             -s
@@ -97,6 +100,7 @@ echo "2. Use it in a book creation request like this:"
 echo ""
 echo "curl -X POST $BASE_URL/books \\"
 echo '  -H "Content-Type: application/json" \'
+echo "  -H \"X-API-Key: $API_KEY\" \\"
 echo '  -d '\''{'
 echo '    "title": "1984",'
 echo '    "authorIds": ["AUTHOR_ID_HERE"],'
@@ -1,14 +1,15 @@
-import { MongoMemoryServer } from "mongodb-memory-server";
+import { MongoMemoryReplSet } from "mongodb-memory-server";
 import { MongoClient } from "mongodb";
 
-let mongoServer: MongoMemoryServer;
+let mongoServer: MongoMemoryReplSet;
 let mongoClient: MongoClient;
 
 // Global test setup
 beforeAll(async () => {
-  // Start in-memory MongoDB instance for testing
-  mongoServer = await MongoMemoryServer.create({
-    instance: {
+  // Start an in-memory single-member replica set, which transactions need
+  mongoServer = await MongoMemoryReplSet.create({
+    replSet: {
+      count: 1,
       dbName: "bookstore_effect_test",
     },
   });
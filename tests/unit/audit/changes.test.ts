@@ -0,0 +1,212 @@
+import { describe, expect, it } from "@jest/globals";
+import { diffFields, rewind, stockChange } from "../../../src/audit/changes";
+import { AuditEntry } from "../../../src/models/audit";
+import { Book, BookId } from "../../../src/models/book";
+import { Isbn } from "../../../src/models/isbn";
+import { STORE_CURRENCY } from "../../../src/models/money";
+
+const at = (day: number) => new Date(Date.UTC(2026, 0, day));
+
+let nextId = 1;
+const entry = (
+  day: number,
+  action: AuditEntry["action"],
+  changes: AuditEntry["changes"],
+  version?: number,
+): AuditEntry => ({
+  _id: String(nextId++),
+  entity: "book",
+  entityId: "b1",
+  action,
+  actor: "admin",
+  changes,
+  ...(version !== undefined ? { version } : {}),
+  timestamp: at(day),
+});
+
+describe("Audit changes", () => {
+  describe("diffFields", () => {
+    it("should list changed fields in order, with their values on each side", () => {
+      expect(
+        diffFields(
+          { title: "Old", stock: 5, genre: "Horror" },
+          { title: "New", stock: 3, genre: "Horror" },
+        ),
+      ).toEqual([
+        { field: "stock", before: 5, after: 3 },
+        { field: "title", before: "Old", after: "New" },
+      ]);
+    });
+
+    it("should leave out the side a field was unset on", () => {
+      expect(diffFields({ description: "Gone" }, { deletedBy: "admin" })).toEqual([
+        { field: "deletedBy", after: "admin" },
+        { field: "description", before: "Gone" },
+      ]);
+    });
+
+    it("should treat a missing record as one with no fields", () => {
+      expect(diffFields(undefined, { title: "New" })).toEqual([
+        { field: "title", after: "New" },
+      ]);
+      expect(diffFields({ title: "Old" }, undefined)).toEqual([
+        { field: "title", before: "Old" },
+      ]);
+    });
+
+    it("should compare nested values and dates by value", () => {
+      const before = {
+        price: { amount: 1000, currency: "USD" },
+        authorIds: ["a1", "a2"],
+        publishedDate: new Date("2020-01-01"),
+      };
+      const after = {
+        price: { amount: 1000, currency: "USD" },
+        authorIds: ["a1", "a2"],
+        publishedDate: new Date("2020-01-01"),
+      };
+
+      expect(diffFields(before, after)).toEqual([]);
+      expect(diffFields(before, { ...after, authorIds: ["a2", "a1"] })).toEqual([
+        { field: "authorIds", before: ["a1", "a2"], after: ["a2", "a1"] },
+      ]);
+    });
+
+    it("should ignore the bookkeeping fields every write touches", () => {
+      expect(
+        diffFields(
+          { _id: "1", version: 1, createdAt: at(1), updatedAt: at(1), stock: 1 },
+          { _id: "2", version: 2, createdAt: at(2), updatedAt: at(2), stock: 1 },
+        ),
+      ).toEqual([]);
+    });
+  });
+
+  describe("stockChange", () => {
+    it("should work out the stock before the adjustment, as of the book's update", () => {
+      const book: Book = {
+        _id: "000000000000000000000001" as BookId,
+        title: "The Shining",
+        authorIds: [],
+        isbn: "9780307743657" as Isbn,
+        price: { amount: 1000, currency: STORE_CURRENCY },
+        stock: 7,
+        genre: "Horror",
+        version: 4,
+        updatedAt: at(2),
+      };
+
+      expect(stockChange(book, -3)).toEqual({
+        entity: "book",
+        entityId: book._id,
+        action: "stock",
+        before: { stock: 10 },
+        after: { stock: 7, version: 4 },
+        at: at(2),
+      });
+    });
+  });
+
+  describe("rewind", () => {
+    // Created on day 1, repriced on day 3, restocked on day 5, given a description on day 7
+    const current = {
+      _id: "b1",
+      title: "The Shining",
+      price: 1500,
+      stock: 2,
+      description: "A hotel",
+      version: 4,
+      updatedAt: at(7),
+    };
+    const entries = [
+      entry(7, "update", [{ field: "description", after: "A hotel" }], 4),
+      entry(5, "stock", [{ field: "stock", before: 10, after: 2 }], 3),
+      entry(3, "update", [{ field: "price", before: 1000, after: 1500 }], 2),
+      entry(
+        1,
+        "create",
+        [
+          { field: "title", after: "The Shining" },
+          { field: "price", after: 1000 },
+          { field: "stock", after: 10 },
+        ],
+        1,
+      ),
+    ];
+
+    it("should return the current record when nothing was changed since", () => {
+      expect(rewind(current, entries, at(8))).toEqual(current);
+    });
+
+    it("should undo every entry made after the time, newest first", () => {
+      expect(rewind(current, entries, at(4))).toEqual({
+        _id: "b1",
+        title: "The Shining",
+        price: 1500,
+        stock: 10,
+        version: 2,
+        updatedAt: at(3),
+      });
+    });
+
+    it("should keep changes made at exactly the time", () => {
+      expect(rewind(current, entries, at(3))).toMatchObject({
+        price: 1500,
+        version: 2,
+      });
+    });
+
+    it("should remove fields that were unset before", () => {
+      expect(rewind(current, entries, at(6))).not.toHaveProperty("description");
+    });
+
+    it("should take the version from the latest earlier entry that had one", () => {
+      const withUnversioned = [
+        entry(6, "update", [
+          { field: "genre", before: "Horror", after: "Thriller" },
+        ]),
+        ...entries,
+      ];
+
+      expect(
+        rewind({ ...current, genre: "Thriller" }, withUnversioned, at(5)),
+      ).toMatchObject({ genre: "Horror", version: 3, updatedAt: at(5) });
+    });
+
+    it("should return undefined before the record was created", () => {
+      expect(rewind(current, entries, at(0))).toBeUndefined();
+    });
+
+    it("should rebuild a purged record from its entries", () => {
+      const purged = [
+        entry(9, "purge", [
+          { field: "title", before: "The Shining" },
+          { field: "price", before: 1500 },
+          { field: "stock", before: 2 },
+          { field: "description", before: "A hotel" },
+        ]),
+        ...entries,
+      ];
+
+      expect(rewind(undefined, purged, at(8))).toEqual({
+        title: "The Shining",
+        price: 1500,
+        stock: 2,
+        description: "A hotel",
+        version: 4,
+        updatedAt: at(7),
+      });
+    });
+
+    it("should go back only as far as the log when changes predate it", () => {
+      const logStarted = entries.slice(0, 2);
+
+      expect(rewind(current, logStarted, at(0))).toEqual({
+        _id: "b1",
+        title: "The Shining",
+        price: 1500,
+        stock: 10,
+      });
+    });
+  });
+});
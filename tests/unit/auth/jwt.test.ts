@@ -0,0 +1,118 @@
+import { describe, expect, it } from "@jest/globals";
+import { createHmac } from "crypto";
+import { Either } from "effect";
+import { signJwt, TokenClaims, verifyJwt } from "../../../src/auth/jwt";
+
+const secret = "test-secret";
+const issuedAt = new Date("2026-06-15T12:00:00Z");
+const iat = issuedAt.getTime() / 1000;
+
+const claims: TokenClaims = {
+  sub: "alice",
+  kid: "000000000000000000000001",
+  iat,
+  exp: iat + 3600,
+};
+
+const segment = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+// A token with any header and payload, correctly signed with `secret`
+const signed = (header: unknown, payload: unknown) => {
+  const input = `${segment(header)}.${segment(payload)}`;
+  return `${input}.${createHmac("sha256", secret).update(input).digest("base64url")}`;
+};
+
+const secondsLater = (seconds: number) =>
+  new Date(issuedAt.getTime() + seconds * 1000);
+
+describe("JWT", () => {
+  describe("signJwt", () => {
+    it("should produce a header, payload and signature in base64url", () => {
+      const segments = signJwt(claims, secret).split(".");
+
+      expect(segments).toHaveLength(3);
+      segments.forEach((part) => expect(part).toMatch(/^[A-Za-z0-9_-]+$/));
+      expect(JSON.parse(Buffer.from(segments[0], "base64url").toString())).toEqual({
+        alg: "HS256",
+        typ: "JWT",
+      });
+      expect(JSON.parse(Buffer.from(segments[1], "base64url").toString())).toEqual(
+        claims,
+      );
+    });
+
+    it("should sign the same claims the same way", () => {
+      expect(signJwt(claims, secret)).toBe(signJwt(claims, secret));
+      expect(signJwt(claims, secret)).not.toBe(signJwt(claims, "other-secret"));
+    });
+  });
+
+  describe("verifyJwt", () => {
+    it("should return the claims of a token it signed", () => {
+      expect(verifyJwt(signJwt(claims, secret), secret, issuedAt)).toEqual(
+        Either.right(claims),
+      );
+    });
+
+    it("should accept a token until the second it expires", () => {
+      const token = signJwt(claims, secret);
+
+      expect(Either.isRight(verifyJwt(token, secret, secondsLater(3599.999)))).toBe(true);
+      expect(verifyJwt(token, secret, secondsLater(3600))).toEqual(
+        Either.left("Token has expired"),
+      );
+    });
+
+    it("should reject a token signed with another secret", () => {
+      expect(verifyJwt(signJwt(claims, "other-secret"), secret, issuedAt)).toEqual(
+        Either.left("Invalid token signature"),
+      );
+    });
+
+    it("should reject a token whose claims were changed", () => {
+      const [header, , signature] = signJwt(claims, secret).split(".");
+      const forged = segment({ ...claims, exp: claims.exp + 86400 });
+
+      expect(verifyJwt(`${header}.${forged}.${signature}`, secret, issuedAt)).toEqual(
+        Either.left("Invalid token signature"),
+      );
+    });
+
+    it("should reject an unsigned token that names no algorithm", () => {
+      const unsigned = `${segment({ alg: "none", typ: "JWT" })}.${segment(claims)}.`;
+
+      expect(verifyJwt(unsigned, secret, issuedAt)).toEqual(
+        Either.left("Invalid token signature"),
+      );
+    });
+
+    it("should reject a token of any other shape", () => {
+      expect(verifyJwt("", secret, issuedAt)).toEqual(Either.left("Malformed token"));
+      expect(verifyJwt("a.b", secret, issuedAt)).toEqual(Either.left("Malformed token"));
+      expect(verifyJwt("a.b.c.d", secret, issuedAt)).toEqual(
+        Either.left("Malformed token"),
+      );
+    });
+
+    it("should reject a signed token with another algorithm in its header", () => {
+      const token = signed({ alg: "HS512", typ: "JWT" }, claims);
+
+      expect(verifyJwt(token, secret, issuedAt)).toEqual(
+        Either.left("Unsupported token algorithm"),
+      );
+    });
+
+    it("should reject signed claims that are missing or of the wrong type", () => {
+      const header = { alg: "HS256", typ: "JWT" };
+      const { kid: _kid, ...withoutKid } = claims;
+
+      expect(verifyJwt(signed(header, withoutKid), secret, issuedAt)).toEqual(
+        Either.left("Malformed token"),
+      );
+      expect(verifyJwt(signed(header, { ...claims, exp: "never" }), secret, issuedAt)).toEqual(
+        Either.left("Malformed token"),
+      );
+    });
+  });
+});
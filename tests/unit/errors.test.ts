@@ -0,0 +1,105 @@
+import { describe, expect, it } from "@jest/globals";
+import { Either, Schema } from "effect";
+import {
+  BusinessError,
+  ConflictError,
+  DatabaseError,
+  RateLimitError,
+  ValidationError,
+  fromParseError,
+  isAppError,
+  toProblem,
+} from "../../src/errors";
+
+describe("Errors", () => {
+  describe("toProblem", () => {
+    it("should use the status, title and code of the error's class", () => {
+      expect(toProblem(new BusinessError({ message: "Out of stock" }))).toEqual({
+        type: "/problems/business-rule-violated",
+        title: "Business Rule Violated",
+        status: 409,
+        detail: "Out of stock",
+        code: "BUSINESS_RULE_VIOLATED",
+      });
+      expect(toProblem(new ConflictError({ message: "Stale" }))).toMatchObject({
+        status: 412,
+        code: "VERSION_CONFLICT",
+      });
+      expect(
+        toProblem(
+          new RateLimitError({
+            message: "Slow down",
+            limit: 1,
+            resetSeconds: 1,
+            retryAfter: 1,
+          }),
+        ),
+      ).toMatchObject({ status: 429, code: "RATE_LIMITED" });
+    });
+
+    it("should list the invalid fields of a validation failure", () => {
+      const issues = [{ path: ["price"], message: "must be greater than 0" }];
+
+      expect(
+        toProblem(new ValidationError({ message: "Invalid book", issues })),
+      ).toMatchObject({ status: 400, code: "VALIDATION_FAILED", errors: issues });
+      expect(
+        toProblem(new ValidationError({ message: "Invalid book" })),
+      ).not.toHaveProperty("errors");
+    });
+
+    it("should not show clients the message of a database error", () => {
+      expect(
+        toProblem(new DatabaseError({ message: "connection to 10.0.0.5 refused" })),
+      ).toMatchObject({ status: 500, detail: "A database operation failed" });
+    });
+
+    it("should treat anything else as an internal error", () => {
+      const internal = {
+        type: "/problems/internal-error",
+        title: "Internal Server Error",
+        status: 500,
+        detail: "An unexpected error occurred",
+        code: "INTERNAL_ERROR",
+      };
+
+      expect(toProblem(new Error("boom"))).toEqual(internal);
+      expect(toProblem({ _tag: "SomethingElse", message: "boom" })).toEqual(internal);
+      expect(toProblem(undefined)).toEqual(internal);
+    });
+  });
+
+  describe("isAppError", () => {
+    it("should only accept errors with a known tag", () => {
+      expect(isAppError(new BusinessError({ message: "x" }))).toBe(true);
+      expect(isAppError({ _tag: "toString" })).toBe(false);
+      expect(isAppError(null)).toBe(false);
+    });
+  });
+
+  describe("fromParseError", () => {
+    it("should list every issue by its path, once per field", () => {
+      const Request = Schema.Struct({
+        title: Schema.String,
+        stock: Schema.optional(Schema.Number),
+        authorIds: Schema.Array(Schema.String),
+      });
+      const result = Schema.decodeUnknownEither(Request, { errors: "all" })({
+        stock: "five",
+        authorIds: ["a1", 2],
+      });
+      if (Either.isRight(result)) {
+        throw new Error("Expected the request to be invalid");
+      }
+
+      const error = fromParseError("Invalid book", result.left);
+
+      expect(error.message).toBe("Invalid book");
+      expect(error.issues?.map((issue) => issue.path)).toEqual([
+        ["title"],
+        ["stock"],
+        ["authorIds", 1],
+      ]);
+    });
+  });
+});
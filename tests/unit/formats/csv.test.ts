@@ -0,0 +1,108 @@
+import { describe, expect, it } from "@jest/globals";
+import { Chunk, Effect, Stream } from "effect";
+import { parseCsv, parseCsvObjects, toCsvLine } from "../../../src/formats/csv";
+
+// Parses text arriving in the given chunks
+const parse = (...chunks: string[]) =>
+  Effect.runPromise(Stream.runCollect(parseCsv(Stream.fromIterable(chunks)))).then(
+    Chunk.toArray,
+  );
+
+const parseObjects = (...chunks: string[]) =>
+  Effect.runPromise(
+    Stream.runCollect(parseCsvObjects(Stream.fromIterable(chunks))),
+  ).then(Chunk.toArray);
+
+describe("CSV", () => {
+  describe("parseCsv", () => {
+    it("should split records on LF and CRLF", async () => {
+      expect(await parse("a,b\nc,d\r\ne,f")).toEqual([
+        ["a", "b"],
+        ["c", "d"],
+        ["e", "f"],
+      ]);
+    });
+
+    it("should keep commas, line breaks and doubled quotes in quoted fields", async () => {
+      expect(await parse('"Smith, John","line one\nline two","say ""hi"""\n')).toEqual([
+        ["Smith, John", "line one\nline two", 'say "hi"'],
+      ]);
+    });
+
+    it("should keep empty fields, quoted or not", async () => {
+      expect(await parse('a,,""\n,\n')).toEqual([
+        ["a", "", ""],
+        ["", ""],
+      ]);
+    });
+
+    it("should skip blank lines", async () => {
+      expect(await parse("a\n\n\r\nb\n")).toEqual([["a"], ["b"]]);
+    });
+
+    it("should treat a quote inside an unquoted field as text", async () => {
+      expect(await parse('12" vinyl,x\n')).toEqual([['12" vinyl', "x"]]);
+    });
+
+    it("should parse the same however the text is chunked", async () => {
+      const text = 'title,note\r\n"A ""B""",C\r\n"x,\ny",z';
+      const expected = await parse(text);
+
+      for (let split = 1; split < text.length; split++) {
+        expect(await parse(text.slice(0, split), text.slice(split))).toEqual(expected);
+      }
+      expect(await parse(...text)).toEqual(expected);
+    });
+
+    it("should end the last record without a trailing line break", async () => {
+      expect(await parse("a,b")).toEqual([["a", "b"]]);
+      expect(await parse("a,")).toEqual([["a", ""]]);
+    });
+
+    it("should parse nothing from empty input", async () => {
+      expect(await parse()).toEqual([]);
+      expect(await parse("")).toEqual([]);
+    });
+  });
+
+  describe("parseCsvObjects", () => {
+    it("should name the fields of each row after the trimmed header", async () => {
+      expect(await parseObjects(" title , price\nDune,9.99\n")).toEqual([
+        { title: "Dune", price: "9.99" },
+      ]);
+    });
+
+    it("should leave out empty and missing cells", async () => {
+      expect(await parseObjects("title,price,genre\nDune,,\nEmma\n")).toEqual([
+        { title: "Dune" },
+        { title: "Emma" },
+      ]);
+    });
+
+    it("should ignore cells beyond the header", async () => {
+      expect(await parseObjects("title\nDune,extra\n")).toEqual([{ title: "Dune" }]);
+    });
+  });
+
+  describe("toCsvLine", () => {
+    it("should leave plain values unquoted", () => {
+      expect(toCsvLine(["Dune", "9.99", ""])).toBe("Dune,9.99,\n");
+    });
+
+    it("should quote values with commas, quotes or line breaks, doubling quotes", () => {
+      expect(toCsvLine(["Smith, John", 'say "hi"', "a\nb", "a\rb"])).toBe(
+        '"Smith, John","say ""hi""","a\nb","a\rb"\n',
+      );
+    });
+
+    it("should quote values with leading or trailing whitespace", () => {
+      expect(toCsvLine([" Dune", "Dune "])).toBe('" Dune","Dune "\n');
+    });
+
+    it("should round-trip through parseCsv", async () => {
+      const values = ["Smith, John", 'say "hi"', "two\r\nlines", " padded ", ""];
+
+      expect(await parse(toCsvLine(values))).toEqual([values]);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "@jest/globals";
+import { HttpServerRequest, HttpServerResponse } from "@effect/platform";
+import { Cause, ConfigProvider, Effect, Exit, Option } from "effect";
+import { createHash } from "crypto";
+import { AppConfig, loadAppConfig } from "../../../src/config";
+import { budgetRequest } from "../../../src/http/middleware";
+import { ApiKey, ApiKeyId } from "../../../src/models/auth";
+import { ApiKeyRepository } from "../../../src/repositories/api-key-repository";
+import {
+  RateLimitStore,
+  makeInMemoryRateLimitStore,
+} from "../../../src/repositories/rate-limit-store";
+import { makeAuthService } from "../../../src/services/auth-service";
+import { makeRateLimiter } from "../../../src/services/rate-limiter";
+
+const VALID_KEY = "bks_valid";
+
+const apiKey: ApiKey = {
+  _id: "665f1c2e8a1b2c3d4e5f6a7b" as ApiKeyId,
+  name: "test",
+  owner: "tester",
+  ownerId: "665f1c2e8a1b2c3d4e5f6a7b" as ApiKeyId,
+  role: "viewer",
+  hint: "alid",
+  createdAt: new Date("2026-06-15T12:00:00Z"),
+};
+
+// A repository that knows one key and counts how often it is asked
+const makeApiKeys = () => {
+  let lookups = 0;
+  const unused = () => Effect.dieMessage("not used by authentication");
+  const repository: ApiKeyRepository = {
+    ensureIndexes: unused,
+    findById: unused,
+    findByHash: (hash) =>
+      Effect.sync(() => {
+        lookups++;
+        return hash === createHash("sha256").update(VALID_KEY).digest("hex")
+          ? Option.some(apiKey)
+          : Option.none();
+      }),
+    findByOwner: unused,
+    create: unused,
+    revoke: unused,
+    assignMissingRoles: unused,
+    assignMissingOwners: unused,
+  };
+  return { repository, lookups: () => lookups };
+};
+
+// Two requests a minute per client, for every route class
+const setup = Effect.gen(function* () {
+  const apiKeys = makeApiKeys();
+  const budget = { requests: 2, perSeconds: 60 };
+  const rateLimiter = yield* makeRateLimiter({
+    standard: budget,
+    expensive: budget,
+  }).pipe(
+    Effect.provideService(RateLimitStore, makeInMemoryRateLimitStore()),
+  );
+  const auth = yield* makeAuthService.pipe(
+    Effect.provideService(ApiKeyRepository, apiKeys.repository),
+    Effect.provideServiceEffect(AppConfig, Effect.orDie(loadAppConfig)),
+    Effect.withConfigProvider(ConfigProvider.fromMap(new Map())),
+  );
+  const budgeted = budgetRequest(auth, rateLimiter);
+
+  const send = (address: string, key: string) => {
+    const request = HttpServerRequest.fromWeb(
+      new Request("http://localhost/api/books", {
+        headers: { "x-api-key": key },
+      }),
+    ).modify({ remoteAddress: address });
+    return budgeted(
+      Effect.succeed(HttpServerResponse.empty()),
+      request,
+      "standard",
+    ).pipe(
+      Effect.provideService(HttpServerRequest.HttpServerRequest, request),
+      Effect.exit,
+    );
+  };
+  return { send, lookups: apiKeys.lookups };
+});
+
+// "success", or the tag of the error the request failed with
+const outcome = (exit: Exit.Exit<unknown, { readonly _tag: string }>) =>
+  Exit.isSuccess(exit)
+    ? "success"
+    : Option.match(Cause.failureOption(exit.cause), {
+        onNone: () => "defect",
+        onSome: (error) => error._tag,
+      });
+
+describe("Request budgeting", () => {
+  it("should look up the key of a request within its address's budget", async () => {
+    const { send, lookups } = await Effect.runPromise(setup);
+
+    const exit = await Effect.runPromise(send("10.0.0.1", "bks_invalid"));
+
+    expect(outcome(exit)).toBe("success");
+    expect(lookups()).toBe(1);
+  });
+
+  it("should turn away an address over its budget before looking up its key", async () => {
+    const { send, lookups } = await Effect.runPromise(setup);
+    await Effect.runPromise(send("10.0.0.1", "bks_invalid"));
+    await Effect.runPromise(send("10.0.0.1", "bks_invalid"));
+
+    const exit = await Effect.runPromise(send("10.0.0.1", "bks_invalid"));
+
+    expect(outcome(exit)).toBe("RateLimitError");
+    expect(lookups()).toBe(2);
+  });
+
+  it("should count a valid key against its own budget across addresses", async () => {
+    const { send, lookups } = await Effect.runPromise(setup);
+    await Effect.runPromise(send("10.0.0.1", VALID_KEY));
+    await Effect.runPromise(send("10.0.0.2", VALID_KEY));
+
+    const exit = await Effect.runPromise(send("10.0.0.3", VALID_KEY));
+
+    expect(outcome(exit)).toBe("RateLimitError");
+    expect(lookups()).toBe(3);
+  });
+});
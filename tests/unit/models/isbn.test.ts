@@ -0,0 +1,140 @@
+import { describe, expect, it } from "@jest/globals";
+import { Either, Schema } from "effect";
+import {
+  Isbn,
+  normalizeIsbn,
+  planIsbnMigration,
+} from "../../../src/models/isbn";
+
+describe("ISBN", () => {
+  describe("normalizeIsbn", () => {
+    it("should accept an ISBN-13 with a valid check digit", () => {
+      expect(normalizeIsbn("9780306406157")).toBe("9780306406157");
+      expect(normalizeIsbn("9791090636071")).toBe("9791090636071");
+    });
+
+    it("should accept a check digit of 0", () => {
+      expect(normalizeIsbn("9780000000002")).toBe("9780000000002");
+    });
+
+    it("should reject an ISBN-13 with a wrong check digit", () => {
+      expect(normalizeIsbn("9780306406158")).toBeUndefined();
+    });
+
+    it("should reject thirteen digits without the 978 or 979 prefix", () => {
+      expect(normalizeIsbn("9770306406157")).toBeUndefined();
+    });
+
+    it("should ignore hyphens and spaces", () => {
+      expect(normalizeIsbn("978-0-306-40615-7")).toBe("9780306406157");
+      expect(normalizeIsbn(" 978 0306 40615 7 ")).toBe("9780306406157");
+    });
+
+    it("should convert an ISBN-10 to its ISBN-13 form", () => {
+      expect(normalizeIsbn("0-306-40615-2")).toBe("9780306406157");
+    });
+
+    it("should read an X check digit of an ISBN-10 as 10, in either case", () => {
+      expect(normalizeIsbn("0-8044-2957-X")).toBe("9780804429573");
+      expect(normalizeIsbn("080442957x")).toBe("9780804429573");
+    });
+
+    it("should reject an ISBN-10 with a wrong check digit", () => {
+      expect(normalizeIsbn("0306406153")).toBeUndefined();
+    });
+
+    it("should reject an X anywhere but the ISBN-10 check digit", () => {
+      expect(normalizeIsbn("X306406152")).toBeUndefined();
+    });
+
+    it("should reject other lengths and characters", () => {
+      expect(normalizeIsbn("")).toBeUndefined();
+      expect(normalizeIsbn("978030640615")).toBeUndefined();
+      expect(normalizeIsbn("97803064061570")).toBeUndefined();
+      expect(normalizeIsbn("978030640615a")).toBeUndefined();
+    });
+  });
+
+  describe("Isbn schema", () => {
+    const decode = Schema.decodeUnknownEither(Isbn);
+
+    it("should decode to the normalised ISBN-13", () => {
+      expect(decode("0-306-40615-2")).toEqual(Either.right("9780306406157"));
+    });
+
+    it("should name the input it rejects", () => {
+      const result = decode("978-0-306-40615-8");
+      expect(Either.isLeft(result)).toBe(true);
+      if (Either.isLeft(result)) {
+        expect(result.left.message).toContain(
+          '"978-0-306-40615-8" is not a valid ISBN-10 or ISBN-13',
+        );
+      }
+    });
+
+    it("should reject values that are not strings", () => {
+      expect(Either.isLeft(decode(9780306406157))).toBe(true);
+    });
+  });
+
+  describe("planIsbnMigration", () => {
+    const trashedAt = new Date("2024-03-01T00:00:00.000Z");
+
+    it("should normalise valid ISBNs not in their stored form", () => {
+      const plan = planIsbnMigration([
+        { id: "a", isbn: "978-0-306-40615-7" },
+        { id: "b", isbn: "080442957X" },
+        { id: "c", isbn: "9791090636071" },
+      ]);
+      expect(plan.normalized).toEqual([
+        { id: "a", isbn: "9780306406157" },
+        { id: "b", isbn: "9780804429573" },
+      ]);
+      expect(plan.invalid).toEqual([]);
+      expect(plan.duplicates).toEqual([]);
+    });
+
+    it("should report invalid ISBNs and leave them as they are", () => {
+      const plan = planIsbnMigration([{ id: "a", isbn: "978-0-306-40615-8" }]);
+      expect(plan.normalized).toEqual([]);
+      expect(plan.invalid).toEqual([{ id: "a", isbn: "978-0-306-40615-8" }]);
+    });
+
+    it("should keep the first of two books whose ISBNs normalise alike", () => {
+      const plan = planIsbnMigration([
+        { id: "a", isbn: "0-306-40615-2" },
+        { id: "b", isbn: "9780306406157" },
+        { id: "c", isbn: "978 0306 40615 7" },
+      ]);
+      expect(plan.normalized).toEqual([{ id: "a", isbn: "9780306406157" }]);
+      expect(plan.duplicates).toEqual([
+        { id: "b", isbn: "9780306406157", isbnOf: "a" },
+        { id: "c", isbn: "978 0306 40615 7", isbnOf: "a" },
+      ]);
+    });
+
+    it("should report books that already share an ISBN as written", () => {
+      const plan = planIsbnMigration([
+        { id: "a", isbn: "not an isbn" },
+        { id: "b", isbn: "not an isbn" },
+      ]);
+      expect(plan.invalid.map((book) => book.id)).toEqual(["a", "b"]);
+      expect(plan.duplicates).toEqual([
+        { id: "b", isbn: "not an isbn", isbnOf: "a" },
+      ]);
+    });
+
+    it("should let the catalog and the trash hold the same ISBN", () => {
+      const plan = planIsbnMigration([
+        { id: "a", isbn: "9780306406157", deletedAt: null },
+        { id: "b", isbn: "0-306-40615-2", deletedAt: trashedAt },
+        { id: "c", isbn: "9780306406157", deletedAt: trashedAt },
+        { id: "d", isbn: "9780306406157", deletedAt: new Date(trashedAt.getTime() + 1) },
+      ]);
+      expect(plan.normalized).toEqual([{ id: "b", isbn: "9780306406157" }]);
+      expect(plan.duplicates).toEqual([
+        { id: "c", isbn: "9780306406157", deletedAt: trashedAt, isbnOf: "b" },
+      ]);
+    });
+  });
+});
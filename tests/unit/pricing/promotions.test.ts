@@ -0,0 +1,228 @@
+import { describe, expect, it } from "@jest/globals";
+import { AuthorId } from "../../../src/models/author";
+import { Book, BookId } from "../../../src/models/book";
+import { Isbn } from "../../../src/models/isbn";
+import { Money, STORE_CURRENCY } from "../../../src/models/money";
+import { Discount, Promotion, PromotionId } from "../../../src/models/promotion";
+import { isRunning, priceBook, priceCart } from "../../../src/pricing/promotions";
+
+const usd = (amount: number): Money => ({ amount, currency: STORE_CURRENCY });
+
+const book = (overrides: Partial<Book> = {}): Book => ({
+  _id: "000000000000000000000001" as BookId,
+  title: "The Shining",
+  authorIds: ["00000000000000000000000a" as AuthorId],
+  isbn: "9780307743657" as Isbn,
+  price: usd(2000),
+  stock: 10,
+  genre: "Horror",
+  ...overrides,
+});
+
+let nextId = 1;
+const promotion = (discount: Discount, overrides: Partial<Promotion> = {}): Promotion => ({
+  _id: String(nextId++).padStart(24, "0") as PromotionId,
+  name: "Promotion",
+  discount,
+  scope: {},
+  usageCount: 0,
+  ...overrides,
+});
+
+const percent = (percent: number): Discount => ({ type: "percentage", percent });
+const fixed = (amount: number): Discount => ({ type: "fixed", amount: usd(amount) });
+
+const now = new Date("2026-06-15T12:00:00Z");
+
+describe("Promotions", () => {
+  describe("isRunning", () => {
+    it("should run indefinitely without dates", () => {
+      expect(isRunning(promotion(percent(10)), now)).toBe(true);
+    });
+
+    it("should include both ends of its window", () => {
+      const window = promotion(percent(10), { startsAt: now, endsAt: now });
+      expect(isRunning(window, now)).toBe(true);
+    });
+
+    it("should not run before it starts or after it ends", () => {
+      const later = promotion(percent(10), {
+        startsAt: new Date("2026-06-16T00:00:00Z"),
+      });
+      const over = promotion(percent(10), {
+        endsAt: new Date("2026-06-15T11:59:59Z"),
+      });
+      expect(isRunning(later, now)).toBe(false);
+      expect(isRunning(over, now)).toBe(false);
+    });
+  });
+
+  describe("priceBook", () => {
+    it("should charge the list price without promotions", () => {
+      expect(priceBook(book(), [], { now })).toEqual({
+        listPrice: usd(2000),
+        discounts: [],
+        finalPrice: usd(2000),
+      });
+    });
+
+    it("should apply only the automatic promotion that takes the most off", () => {
+      const tenPercent = promotion(percent(10));
+      const threeDollars = promotion(fixed(300));
+      const quarter = promotion(percent(25), { endsAt: new Date("2026-01-01") });
+
+      const price = priceBook(book(), [tenPercent, threeDollars, quarter], { now });
+
+      expect(price.discounts).toHaveLength(1);
+      expect(price.discounts[0].promotionId).toBe(threeDollars._id);
+      expect(price.discounts[0].reason).toBe("3.00 USD off all books");
+      expect(price.finalPrice).toEqual(usd(1700));
+    });
+
+    it("should ignore automatic promotions for other books", () => {
+      const otherGenre = promotion(percent(50), { scope: { genres: ["Romance"] } });
+      const otherAuthor = promotion(percent(50), {
+        scope: { authorIds: ["00000000000000000000000b" as AuthorId] },
+      });
+
+      const price = priceBook(book(), [otherGenre, otherAuthor], { now });
+
+      expect(price.discounts).toEqual([]);
+      expect(price.finalPrice).toEqual(usd(2000));
+    });
+
+    it("should match genres regardless of case and say why a discount applies", () => {
+      const genre = promotion(percent(10), { scope: { genres: ["horror"] } });
+      const listed = promotion(percent(5), {
+        scope: { bookIds: ["000000000000000000000001" as BookId] },
+      });
+      const author = promotion(percent(1), {
+        scope: { authorIds: ["00000000000000000000000a" as AuthorId] },
+      });
+
+      expect(priceBook(book(), [genre], { now }).discounts[0].reason).toBe(
+        "10% off books in genre horror",
+      );
+      expect(priceBook(book(), [listed], { now }).discounts[0].reason).toBe(
+        "5% off this book",
+      );
+      expect(priceBook(book(), [author], { now }).discounts[0].reason).toBe(
+        "1% off books by author 00000000000000000000000a",
+      );
+    });
+
+    it("should apply a coupon to what is left after the automatic promotion", () => {
+      const automatic = promotion(percent(10));
+      const coupon = promotion(percent(50), { couponCode: "HALF" });
+
+      const price = priceBook(book(), [automatic], { now, coupon });
+
+      expect(price.discounts.map((discount) => discount.amount)).toEqual([
+        usd(200),
+        usd(900),
+      ]);
+      expect(price.discounts[1].couponCode).toBe("HALF");
+      expect(price.finalPrice).toEqual(usd(900));
+    });
+
+    it("should not apply coupon promotions without their code", () => {
+      const coupon = promotion(percent(50), { couponCode: "HALF" });
+
+      expect(priceBook(book(), [coupon], { now }).finalPrice).toEqual(usd(2000));
+    });
+
+    it("should not apply a coupon outside its window or scope", () => {
+      const expired = promotion(percent(50), {
+        couponCode: "OLD",
+        endsAt: new Date("2026-01-01"),
+      });
+      const romance = promotion(percent(50), {
+        couponCode: "LOVE",
+        scope: { genres: ["Romance"] },
+      });
+
+      expect(priceBook(book(), [], { now, coupon: expired }).discounts).toEqual([]);
+      expect(priceBook(book(), [], { now, coupon: romance }).discounts).toEqual([]);
+    });
+
+    it("should never take a fixed discount below zero", () => {
+      const automatic = promotion(fixed(1500));
+      const coupon = promotion(fixed(1000), { couponCode: "TEN" });
+
+      const price = priceBook(book(), [automatic], { now, coupon });
+
+      expect(price.discounts.map((discount) => discount.amount)).toEqual([
+        usd(1500),
+        usd(500),
+      ]);
+      expect(price.finalPrice).toEqual(usd(0));
+    });
+
+    it("should leave out a coupon with nothing left to take off", () => {
+      const free = promotion(percent(100));
+      const coupon = promotion(percent(10), { couponCode: "MORE" });
+
+      const price = priceBook(book(), [free], { now, coupon });
+
+      expect(price.discounts).toHaveLength(1);
+      expect(price.finalPrice).toEqual(usd(0));
+    });
+
+    it("should round percentages to the nearest minor unit", () => {
+      const third = promotion(percent(33.3));
+
+      const price = priceBook(book({ price: usd(999) }), [third], { now });
+
+      expect(price.discounts[0].amount).toEqual(usd(333));
+      expect(price.finalPrice).toEqual(usd(666));
+    });
+  });
+
+  describe("priceCart", () => {
+    const other = book({
+      _id: "000000000000000000000002" as BookId,
+      genre: "Romance",
+      price: usd(1000),
+    });
+
+    it("should price every copy in a line like a single copy", () => {
+      const horror = promotion(percent(10), { scope: { genres: ["Horror"] } });
+
+      const cart = priceCart(
+        [
+          { book: book(), quantity: 3 },
+          { book: other, quantity: 2 },
+        ],
+        [horror],
+        { now },
+      );
+
+      expect(cart.lines.map((line) => line.lineTotal)).toEqual([usd(5400), usd(2000)]);
+      expect(cart.subtotal).toEqual(usd(8000));
+      expect(cart.discountTotal).toEqual(usd(600));
+      expect(cart.total).toEqual(usd(7400));
+      expect(cart.couponCode).toBeUndefined();
+    });
+
+    it("should only report the coupon if it took something off", () => {
+      const romance = promotion(percent(10), {
+        couponCode: "LOVE",
+        scope: { genres: ["Romance"] },
+      });
+
+      const applied = priceCart([{ book: other, quantity: 1 }], [], {
+        now,
+        coupon: romance,
+      });
+      const unused = priceCart([{ book: book(), quantity: 1 }], [], {
+        now,
+        coupon: romance,
+      });
+
+      expect(applied.couponCode).toBe("LOVE");
+      expect(applied.total).toEqual(usd(900));
+      expect(unused.couponCode).toBeUndefined();
+      expect(unused.total).toEqual(usd(2000));
+    });
+  });
+});
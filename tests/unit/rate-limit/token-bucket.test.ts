@@ -0,0 +1,109 @@
+import { describe, expect, it } from "@jest/globals";
+import { Budget } from "../../../src/models/rate-limit";
+import {
+  Bucket,
+  fullAt,
+  refill,
+  retryAfterSeconds,
+  take,
+  toStatus,
+  tokensPerMillisecond,
+} from "../../../src/rate-limit/token-bucket";
+
+// Ten requests a minute: a token every six seconds
+const budget: Budget = { requests: 10, perSeconds: 60 };
+
+const start = new Date("2026-06-15T12:00:00Z");
+const secondsLater = (seconds: number) =>
+  new Date(start.getTime() + seconds * 1000);
+
+const bucket = (tokens: number, updatedAt = start): Bucket => ({
+  tokens,
+  updatedAt,
+});
+
+describe("Token bucket", () => {
+  describe("refill", () => {
+    it("should start a new bucket full", () => {
+      expect(refill(undefined, budget, start)).toBe(10);
+    });
+
+    it("should add tokens at a steady rate", () => {
+      expect(tokensPerMillisecond(budget)).toBeCloseTo(1 / 6000);
+      expect(refill(bucket(0), budget, secondsLater(6))).toBeCloseTo(1);
+      expect(refill(bucket(2.5), budget, secondsLater(3))).toBeCloseTo(3);
+    });
+
+    it("should never fill past the budget", () => {
+      expect(refill(bucket(9), budget, secondsLater(3600))).toBe(10);
+    });
+
+    it("should not take tokens away when the clock runs backwards", () => {
+      expect(refill(bucket(4), budget, secondsLater(-30))).toBe(4);
+    });
+  });
+
+  describe("take", () => {
+    it("should allow a burst of the whole budget, then turn requests away", () => {
+      let current: Bucket | undefined;
+      const allowed: boolean[] = [];
+      for (let i = 0; i < 11; i++) {
+        const result = take(current, budget, start);
+        allowed.push(result.allowed);
+        current = result.bucket;
+      }
+
+      expect(allowed.filter(Boolean)).toHaveLength(10);
+      expect(allowed[10]).toBe(false);
+      expect(current).toEqual(bucket(0));
+    });
+
+    it("should allow a request again once a whole token has flowed back", () => {
+      expect(take(bucket(0), budget, secondsLater(5.999)).allowed).toBe(false);
+      const { bucket: after, allowed } = take(bucket(0), budget, secondsLater(6));
+
+      expect(allowed).toBe(true);
+      expect(after.tokens).toBeCloseTo(0);
+      expect(after.updatedAt).toEqual(secondsLater(6));
+    });
+
+    it("should keep the partial token of a request it turns away", () => {
+      const { bucket: after, allowed } = take(bucket(0), budget, secondsLater(3));
+
+      expect(allowed).toBe(false);
+      expect(after.tokens).toBeCloseTo(0.5);
+    });
+  });
+
+  describe("fullAt", () => {
+    it("should be when the missing tokens have flowed back", () => {
+      expect(fullAt(bucket(7), budget)).toEqual(secondsLater(18));
+      expect(fullAt(bucket(10), budget)).toEqual(start);
+    });
+  });
+
+  describe("toStatus", () => {
+    it("should report whole tokens left and seconds until the bucket is full", () => {
+      expect(toStatus(bucket(6.7), budget, start)).toEqual({
+        limit: 10,
+        remaining: 6,
+        resetSeconds: 20,
+      });
+    });
+
+    it("should not report a reset in the past", () => {
+      expect(toStatus(bucket(9), budget, secondsLater(60)).resetSeconds).toBe(0);
+    });
+  });
+
+  describe("retryAfterSeconds", () => {
+    it("should be the whole seconds until a token is back", () => {
+      expect(retryAfterSeconds(bucket(0), budget)).toBe(6);
+      expect(retryAfterSeconds(bucket(0.5), budget)).toBe(3);
+    });
+
+    it("should be at least a second", () => {
+      expect(retryAfterSeconds(bucket(0.9999), budget)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "@jest/globals";
+import { Effect } from "effect";
+import {
+  InMemorySpanExporter,
+  ReadableSpan,
+} from "@opentelemetry/sdk-trace-base";
+import { SpanStatusCode } from "@opentelemetry/api";
+import { NotFoundError } from "../../../src/errors";
+import { instrumentRepository } from "../../../src/repositories/instrumentation";
+import { trace } from "../../../src/tracing/spans";
+import { InMemoryTracingLive } from "../../../src/tracing/tracing";
+
+const BOOK_ID = "665f1c2e8a1b2c3d4e5f6a7b";
+
+// A repository and a service over it, wrapped the way the real ones are
+const repository = instrumentRepository("BookRepository", {
+  findById: (id: string) =>
+    id === BOOK_ID
+      ? Effect.succeed({ _id: id, title: "Dune" })
+      : Effect.fail(new NotFoundError({ message: `Book with id ${id} not found` })),
+});
+
+const traced = trace("BookService");
+const getBookById = traced(
+  "getBookById",
+  (id: string) => repository.findById(id),
+  (id) => ({ "book.id": id }),
+);
+
+// The spans exporter holds are gone once the layer is released, so they are read inside it
+const finishedSpans = <A, E>(effect: Effect.Effect<A, E>) => {
+  const exporter = new InMemorySpanExporter();
+  return Effect.runPromise(
+    effect.pipe(
+      Effect.exit,
+      Effect.zipRight(Effect.sync(() => exporter.getFinishedSpans())),
+      Effect.provide(InMemoryTracingLive(exporter)),
+    ),
+  );
+};
+
+const spanNamed = (spans: ReadonlyArray<ReadableSpan>, name: string) => {
+  const span = spans.find((span) => span.name === name);
+  expect(span).toBeDefined();
+  return span!;
+};
+
+describe("Tracing", () => {
+  it("should run a service call in its own span, with the repository call as its child", async () => {
+    const spans = await finishedSpans(
+      getBookById(BOOK_ID).pipe(Effect.withSpan("GET /api/books/:id")),
+    );
+
+    expect(spans.map((span) => span.name).sort()).toEqual([
+      "BookRepository.findById",
+      "BookService.getBookById",
+      "GET /api/books/:id",
+    ]);
+    const request = spanNamed(spans, "GET /api/books/:id");
+    const service = spanNamed(spans, "BookService.getBookById");
+    const query = spanNamed(spans, "BookRepository.findById");
+    expect(service.parentSpanContext?.spanId).toBe(
+      request.spanContext().spanId,
+    );
+    expect(query.parentSpanContext?.spanId).toBe(service.spanContext().spanId);
+    expect(new Set(spans.map((span) => span.spanContext().traceId)).size).toBe(
+      1,
+    );
+  });
+
+  it("should carry the id of the record a call acts on", async () => {
+    const spans = await finishedSpans(getBookById(BOOK_ID));
+
+    expect(spanNamed(spans, "BookService.getBookById").attributes).toEqual({
+      "book.id": BOOK_ID,
+    });
+    expect(spanNamed(spans, "BookRepository.findById").attributes).toEqual({
+      "db.system": "mongodb",
+      "entity.id": BOOK_ID,
+    });
+  });
+
+  it("should mark the spans of a failed call as errors", async () => {
+    const spans = await finishedSpans(getBookById("665f1c2e8a1b2c3d4e5f6a7c"));
+
+    expect(spanNamed(spans, "BookService.getBookById").status.code).toBe(
+      SpanStatusCode.ERROR,
+    );
+    expect(spanNamed(spans, "BookRepository.findById").status.code).toBe(
+      SpanStatusCode.ERROR,
+    );
+  });
+});